@@ -1,6 +1,10 @@
 import type { NextConfig } from "next";
 
+// サブパスに配置する場合の公開パス（例: /compressor）。クライアントからは NEXT_PUBLIC_BASE_PATH として参照する
+const basePath = process.env.NEXT_PUBLIC_BASE_PATH ?? '';
+
 const nextConfig: NextConfig = {
+  basePath,
   typescript: {
     ignoreBuildErrors: true,
   },
@@ -0,0 +1,59 @@
+"use client";
+import React from "react";
+import { AlertTriangle, Scissors } from "lucide-react";
+import type { AppendedDataReport } from '@/lib/appended-data';
+
+interface AppendedDataNoticeProps {
+  report: AppendedDataReport;
+  fileSize: number;
+  // 付加データを切り詰めた元のファイルを保存
+  onDownloadStripped: () => void;
+}
+
+const formatBytes = (bytes: number) => bytes >= 1024 ? `${(bytes / 1024).toFixed(1)}KB` : `${bytes}バイト`;
+
+export function AppendedDataNotice({ report, fileSize, onDownloadStripped }: AppendedDataNoticeProps) {
+  const embedded = report.containers.filter(container => !container.removable);
+
+  return (
+    <div className="mt-3 p-3 bg-orange-50 border border-orange-200 rounded-lg">
+      <div className="flex items-center gap-2 mb-2">
+        <AlertTriangle className="w-4 h-4 text-orange-600" />
+        <span className="font-bold text-orange-700">
+          {report.size > 0 ? 'ファイルの終端の後にデータが付加されています' : '別の形式として読み込めるデータが含まれています'}
+        </span>
+      </div>
+
+      {report.size > 0 && (
+        <p className="text-xs text-orange-700">
+          オフセット {report.offset.toLocaleString()} から {formatBytes(report.size)}（ファイル全体の{Math.round(report.size / fileSize * 100)}%）
+        </p>
+      )}
+
+      {report.containers.length > 0 && (
+        <ul className="mt-1 text-xs text-orange-700 space-y-1 max-h-32 overflow-y-auto">
+          {report.containers.map((container, index) => (
+            <li key={index}>
+              • {container.format}として読み込めるデータ（オフセット {container.offset.toLocaleString()}）
+              {!container.removable && <span className="text-orange-500">: 元のデータの内部にあります</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {report.size > 0 && (
+        <button
+          onClick={onDownloadStripped}
+          className="mt-2 flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold text-white bg-gradient-to-r from-orange-500 to-amber-500 shadow hover:from-orange-600 hover:to-amber-600"
+        >
+          <Scissors className="w-4 h-4" />
+          付加データを除いて保存（再圧縮なし・{formatBytes(report.offset)}）
+        </button>
+      )}
+      <p className="text-xs text-slate-500 mt-2">
+        圧縮した出力には付加データは含まれません。
+        {embedded.length > 0 && '元のデータの内部にあるものは切り詰めでは除けないため、再圧縮した出力をお使いください。'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+import React from "react";
+import {
+  CheckCircle,
+  AlertTriangle,
+  Loader2,
+  Clock,
+  FileImage,
+  FileText,
+  Lock,
+  X
+} from "lucide-react";
+import { BatchQueue, type QueueItem } from '@/lib/batch-queue';
+
+interface BatchQueueListProps {
+  items: QueueItem[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  formatFileSize: (bytes: number) => string;
+}
+
+export function BatchQueueList({ items, selectedId, onSelect, onRemove, formatFileSize }: BatchQueueListProps) {
+  const summary = BatchQueue.summarize(items);
+
+  return (
+    <div className="bg-gradient-to-br from-white via-indigo-50 to-purple-50 rounded-2xl p-6 shadow-xl border-2 border-indigo-200">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent">
+          処理キュー
+        </h2>
+        <div className="text-xs font-medium text-slate-600">
+          完了 {summary.done} / エラー {summary.failed}
+          {summary.locked > 0 && ` / パスワード待ち ${summary.locked}`} / 残り {summary.remaining}（全{summary.total}件）
+        </div>
+      </div>
+
+      {/* 全体の進捗 */}
+      <div className="w-full bg-gray-200 rounded-full h-3 mb-4 overflow-hidden">
+        <div
+          className="h-3 rounded-full transition-all duration-300 bg-gradient-to-r from-indigo-500 to-purple-500"
+          style={{ width: `${summary.progress}%` }}
+        />
+      </div>
+
+      <ul className="space-y-2 max-h-80 overflow-y-auto">
+        {items.map((item) => {
+          const isSelected = item.id === selectedId;
+          const isRunning = !BatchQueue.isFinished(item) && item.status !== 'pending';
+          return (
+            <li
+              key={item.id}
+              onClick={() => onSelect(item.id)}
+              className={`p-3 rounded-xl border-2 cursor-pointer transition-colors duration-200 ${
+                isSelected ? 'border-purple-400 bg-purple-50' : 'border-slate-200 bg-white/70 hover:bg-purple-50'
+              }`}
+            >
+              <div className="flex items-center gap-3">
+                {item.fileType === 'pdf' || item.file.type === 'application/pdf' ? (
+                  <FileText className="w-4 h-4 text-pink-500 shrink-0" />
+                ) : (
+                  <FileImage className="w-4 h-4 text-purple-500 shrink-0" />
+                )}
+                <span className="flex-1 truncate text-sm font-medium text-slate-700">{item.file.name}</span>
+                <span className="text-xs text-slate-500 shrink-0">
+                  {formatFileSize(item.file.size)}
+                  {item.compressedBlob && ` → ${formatFileSize(item.compressedBlob.size)}`}
+                </span>
+                <span className="flex items-center gap-1 text-xs font-bold shrink-0">
+                  {item.status === 'pending' && <Clock className="w-4 h-4 text-slate-400" />}
+                  {isRunning && <Loader2 className="w-4 h-4 text-purple-500 animate-spin" />}
+                  {item.status === 'done' && <CheckCircle className="w-4 h-4 text-green-500" />}
+                  {item.status === 'error' && <AlertTriangle className="w-4 h-4 text-red-500" />}
+                  {item.status === 'locked' && <Lock className="w-4 h-4 text-amber-500" />}
+                  <span className={item.status === 'error' ? 'text-red-600' : item.status === 'locked' ? 'text-amber-600' : 'text-slate-600'}>
+                    {BatchQueue.getStatusLabel(item.status)}
+                  </span>
+                </span>
+                {BatchQueue.isFinished(item) && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRemove(item.id);
+                    }}
+                    className="text-slate-400 hover:text-red-500"
+                    aria-label="キューから削除"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+
+              {isRunning && (
+                <div className="w-full bg-gray-200 rounded-full h-1.5 mt-2 overflow-hidden">
+                  <div
+                    className="h-1.5 rounded-full transition-all duration-300 bg-gradient-to-r from-purple-500 to-pink-500"
+                    style={{ width: `${item.progress}%` }}
+                  />
+                </div>
+              )}
+
+              {item.error && (
+                <p className={`text-xs mt-2 ${item.status === 'locked' ? 'text-amber-700' : 'text-red-600'}`}>{item.error}</p>
+              )}
+              {item.pdfReport?.method === 'resave' && (
+                <p className="text-xs text-orange-600 mt-2">⚠️ 圧縮に失敗したため、圧縮せずに保存し直しました</p>
+              )}
+              {item.warnings.length > 0 && (
+                <p className="text-xs text-yellow-700 mt-2">⚠️ {item.warnings.join(', ')}</p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 "use client";
-import React, { useState, useRef, useCallback } from "react";
+import React, { useState, useRef, useCallback, useEffect } from "react";
 import { 
   Upload, 
   Download, 
@@ -22,17 +22,71 @@ import {
   Search,
   AlertTriangle,
   CheckCircle,
-  Eye
+  Eye,
+  Clock,
+  Archive,
+  XCircle
 } from "lucide-react";
-import { PDFDocument } from 'pdf-lib';
-import * as pdfjsLib from 'pdfjs-dist';
 import { FileSecurityValidator } from '@/lib/security';
 import { ClientFileScanner } from '@/lib/client-scanner';
-
-// PDF.js worker設定
-if (typeof window !== 'undefined') {
-  pdfjsLib.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.js`;
-}
+import { AppendedDataDetector } from '@/lib/appended-data';
+import {
+  BatchQueue,
+  type QueueItem,
+  type CompressionOutput,
+  type OutputVariant
+} from '@/lib/batch-queue';
+import { BatchQueueList } from '@/components/batch-queue-list';
+import { SizeTargetSearch } from '@/lib/size-target';
+import {
+  ResizeCalculator,
+  DEFAULT_RESIZE_OPTIONS,
+  RESIZE_MODE_LABELS,
+  type ResizeMode,
+  type ResizeOptions
+} from '@/lib/resize';
+import {
+  OutputFormatResolver,
+  OUTPUT_FORMATS,
+  type OutputFormat,
+  type EncoderSupport,
+  type EncodableFormat
+} from '@/lib/output-formats';
+import type { ImageCompressionOptions, ImageCompressionResult } from '@/lib/image-compressor';
+import {
+  PDF_STRATEGY_LABELS,
+  PDF_DPI_OPTIONS,
+  DEFAULT_PDF_DPI,
+  type PdfColorMode,
+  type PdfCompressionResult,
+  type PdfCompressionStrategy
+} from '@/lib/pdf-compressor';
+import { CompressionClient } from '@/lib/compression-client';
+import { PngQuantizer } from '@/lib/png-quantizer';
+import { SizeGuard } from '@/lib/size-guard';
+import { EXIF_METADATA_FIELDS, type ExifMetadataField } from '@/lib/exif';
+import { PdfRenderer, PdfPasswordError } from '@/lib/pdf-renderer';
+import { PdfPageEditor } from '@/components/pdf-page-editor';
+import { PdfActiveContentScanner, PDF_ACTIVE_CONTENT_LABELS } from '@/lib/pdf-active-content';
+import { PdfPasswordForm } from '@/components/pdf-password-form';
+import { PdfCompareViewer } from '@/components/pdf-compare-viewer';
+import { PdfMetadataPanel } from '@/components/pdf-metadata-panel';
+import { PdfCompressionReport } from '@/components/pdf-compression-report';
+import { AppendedDataNotice } from '@/components/appended-data-notice';
+import { PdfMetadataEditor, type PdfMetadataValues } from '@/lib/pdf-metadata';
+import {
+  ImagePdfBuilder,
+  IMAGE_PDF_PAGE_SIZE_LABELS,
+  IMAGE_PDF_ORIENTATION_LABELS,
+  IMAGE_PDF_MARGIN_OPTIONS,
+  DEFAULT_IMAGE_PDF_OPTIONS,
+  type ImagePdfOptions
+} from '@/lib/image-pdf-builder';
+import {
+  PdfPageExporter,
+  PDF_PAGE_IMAGE_FORMATS,
+  type PdfPageImageFormat
+} from '@/lib/pdf-page-exporter';
 
 interface ServiceConfig {
   name: string;
@@ -110,21 +164,123 @@ const services: Record<string, ServiceConfig> = {
   }
 };
 
+// ページ選択用のサムネイルの幅（px）
+const PAGE_THUMBNAIL_WIDTH = 120;
+
+// 項目ごとに保持するPDFの圧縮設定
+type PdfItemOptions = Pick<QueueItem, 'pageColorModes' | 'pageOrder' | 'encrypted' | 'password' | 'metadata'>;
+
+/**
+ * 圧縮に失敗した項目の状態と利用者向けの説明
+ */
+function getCompressionError(error: unknown, encrypted?: boolean): Partial<QueueItem> {
+  if (error instanceof PdfPasswordError) {
+    return {
+      status: 'locked',
+      error: error.reason === 'incorrect'
+        ? '🔒 パスワードが違います。もう一度入力してください'
+        : '🔒 パスワードで保護されたPDFです。パスワードを入力すると圧縮できます'
+    };
+  }
+  if (encrypted) {
+    return {
+      status: 'error',
+      error: '暗号化されたPDFを処理できませんでした（対応していない暗号化方式か、ファイルが壊れている可能性があります）'
+    };
+  }
+  return { status: 'error', error: '圧縮処理中にエラーが発生しました' };
+}
+
 export function ImageOptimizer() {
-  const [originalFile, setOriginalFile] = useState<File | null>(null);
-  const [compressedBlob, setCompressedBlob] = useState<Blob | null>(null);
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
   const [quality, setQuality] = useState(80);
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>('original');
+  const [sizeMode, setSizeMode] = useState<'quality' | 'target'>('quality');
+  const [targetValue, setTargetValue] = useState(500);
+  const [targetUnit, setTargetUnit] = useState<'KB' | 'MB'>('KB');
+  const [selectedServices, setSelectedServices] = useState<string[]>([]);
+  const [resizeOptions, setResizeOptions] = useState<ResizeOptions>(DEFAULT_RESIZE_OPTIONS);
+  const [selectedVariantKey, setSelectedVariantKey] = useState<string | null>(null);
+  const [encoderSupport, setEncoderSupport] = useState<EncoderSupport>({ jpeg: true, png: true, webp: false, avif: false });
   const [processingProgress, setProcessingProgress] = useState(0);
   const [processingMessage, setProcessingMessage] = useState('');
-  const [originalPreview, setOriginalPreview] = useState<string>('');
-  const [compressedPreview, setCompressedPreview] = useState<string>('');
-  const [compressedDimensions, setCompressedDimensions] = useState<{width: number, height: number} | null>(null);
-  const [fileType, setFileType] = useState<'image' | 'pdf'>('image');
+  const [pngDither, setPngDither] = useState(true);
+  const [pdfStrategy, setPdfStrategy] = useState<PdfCompressionStrategy>('structure');
+  const [pdfDpi, setPdfDpi] = useState(DEFAULT_PDF_DPI);
+  const [pdfColorMode, setPdfColorMode] = useState<PdfColorMode>('color');
+  const [removeActiveContent, setRemoveActiveContent] = useState(false);
+  const [metadataFields, setMetadataFields] = useState<ExifMetadataField[]>([]);
+  const [includeManifest, setIncludeManifest] = useState(true);
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [imagePdfOptions, setImagePdfOptions] = useState<ImagePdfOptions>(DEFAULT_IMAGE_PDF_OPTIONS);
+  const [imagePdfProgress, setImagePdfProgress] = useState<string | null>(null);
+  const [imagePdfError, setImagePdfError] = useState<string | null>(null);
+  const [pageExportFormat, setPageExportFormat] = useState<PdfPageImageFormat>('jpeg');
+  const [pageExportDpi, setPageExportDpi] = useState(DEFAULT_PDF_DPI);
+  const [pageExportProgress, setPageExportProgress] = useState<string | null>(null);
   const [scanPhase, setScanPhase] = useState<'file-check' | 'virus-scan' | 'content-scan' | 'compression' | 'complete'>('file-check');
-  const [scanResults, setScanResults] = useState<{safe: boolean, warnings: string[]}>({safe: true, warnings: []});
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // キュー処理は非同期に直列実行するため、最新の値は ref 経由で参照する
+  const queueRef = useRef<QueueItem[]>([]);
+  const queueChainRef = useRef<Promise<void>>(Promise.resolve());
+  const sessionRef = useRef(0);
+  const activeIdRef = useRef<string | null>(null);
+  const scanAbortRef = useRef<AbortController | null>(null);
+  const qualityRef = useRef(80);
+  const outputFormatRef = useRef<OutputFormat>('original');
+  const targetBytesRef = useRef<number | null>(null);
+  const selectedServicesRef = useRef<string[]>([]);
+  const resizeOptionsRef = useRef<ResizeOptions>(DEFAULT_RESIZE_OPTIONS);
+  const pngDitherRef = useRef(true);
+  const pdfStrategyRef = useRef<PdfCompressionStrategy>('structure');
+  const pdfDpiRef = useRef(DEFAULT_PDF_DPI);
+  const pdfColorModeRef = useRef<PdfColorMode>('color');
+  const removeActiveContentRef = useRef(false);
+  const metadataFieldsRef = useRef<ExifMetadataField[]>([]);
+  const encoderSupportRef = useRef<EncoderSupport>(encoderSupport);
+  const recompressGenerationRef = useRef(0);
+
+  useEffect(() => {
+    queueRef.current = queue;
+  }, [queue]);
+
+  // ブラウザが対応する出力フォーマットを判定
+  useEffect(() => {
+    OutputFormatResolver.detectEncoderSupport().then((support) => {
+      encoderSupportRef.current = support;
+      setEncoderSupport(support);
+    });
+  }, []);
+
+  // 選択中の項目を詳細表示に使う
+  const selectedItem = queue.find(item => item.id === selectedId) ?? null;
+  const originalFile = selectedItem?.file ?? null;
+  // サービス別の出力がある場合は選択中のサービスの結果を表示
+  const selectedVariant = selectedItem?.variants?.find(variant => variant.key === selectedVariantKey)
+    ?? selectedItem?.variants?.[0]
+    ?? null;
+  const compressedBlob = selectedVariant?.blob ?? selectedItem?.compressedBlob ?? null;
+  // PDFは先頭ページのサムネイルを表示
+  const originalPreview = selectedItem?.originalPreview ?? selectedItem?.pageThumbnails?.[0] ?? '';
+  const compressedPreview = selectedVariant?.preview ?? selectedItem?.compressedPreview ?? '';
+  const compressedDimensions = selectedVariant ? selectedVariant.dimensions : selectedItem?.dimensions ?? null;
+  const sourceDimensions = selectedVariant?.sourceDimensions ?? selectedItem?.sourceDimensions;
+  const formatNotice = selectedVariant ? selectedVariant.formatNotice : selectedItem?.formatNotice;
+  const targetReport = selectedVariant ? selectedVariant.targetReport : selectedItem?.targetReport;
+  const paletteColors = selectedVariant ? selectedVariant.paletteColors : selectedItem?.paletteColors;
+  const sizeGuard = selectedVariant ? selectedVariant.sizeGuard : selectedItem?.sizeGuard;
+  const sizeGuardNotice = sizeGuard ? SizeGuard.describe(sizeGuard) : null;
+  const optimizeStats = selectedItem?.optimizeStats;
+  const pdfPages = selectedItem?.pages;
+  const fileType = selectedItem?.fileType ?? 'image';
+  const scanResults = { safe: selectedItem?.safe ?? true, warnings: selectedItem?.warnings ?? [] };
+  const isProcessing = selectedItem !== null && selectedItem.id === activeId;
+  const completedCount = queue.filter(item => item.status === 'done').length;
+  const completedImages = queue.filter(item => item.status === 'done' && item.fileType === 'image');
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -133,346 +289,686 @@ export function ImageOptimizer() {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  const calculateDimensions = (
-    originalWidth: number,
-    originalHeight: number,
-    maxWidth: number,
-    maxHeight: number
-  ) => {
-    let width = originalWidth;
-    let height = originalHeight;
+  const updateItem = useCallback((id: string, patch: Partial<QueueItem>) => {
+    setQueue(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  }, []);
 
-    if (width > maxWidth) {
-      height = (height * maxWidth) / width;
-      width = maxWidth;
+  // 処理中の項目の進捗をプログレスバーとキューの行の両方に反映
+  const reportProgress = useCallback((progress: number, message?: string) => {
+    setProcessingProgress(progress);
+    if (message !== undefined) {
+      setProcessingMessage(message);
     }
-
-    if (height > maxHeight) {
-      width = (width * maxHeight) / height;
-      height = maxHeight;
+    if (activeIdRef.current) {
+      updateItem(activeIdRef.current, { progress });
     }
+  }, [updateItem]);
 
-    return { width: Math.round(width), height: Math.round(height) };
-  };
+  const compressImage = useCallback(async (
+    file: File,
+    options: Omit<ImageCompressionOptions, 'encoderSupport'>
+  ): Promise<ImageCompressionResult> => {
+    return CompressionClient.compressImage(file, {
+      ...options,
+      encoderSupport: encoderSupportRef.current
+    });
+  }, []);
 
-  const compressImage = useCallback(async (file: File, quality: number): Promise<{blob: Blob, dimensions: {width: number, height: number}}> => {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = function() {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          reject(new Error('Canvas context not available'));
-          return;
-        }
+  const compressPDF = useCallback(async (
+    file: File,
+    quality: number,
+    targetBytes: number | null,
+    pdfOptions: PdfItemOptions = {}
+  ): Promise<PdfCompressionResult> => {
+    // ページの描画ループは Worker で実行し、進捗だけを受け取る
+    return CompressionClient.compressPDF(file, {
+      quality,
+      targetBytes,
+      strategy: pdfStrategyRef.current,
+      dpi: pdfDpiRef.current,
+      colorMode: pdfColorModeRef.current,
+      removeActiveContent: removeActiveContentRef.current,
+      ...pdfOptions
+    }, reportProgress);
+  }, [reportProgress]);
 
-        // スマートリサイズ: 元サイズが小さい場合はそのまま維持
-        let targetWidth = img.width;
-        let targetHeight = img.height;
-        
-        // 大きすぎる場合のみリサイズ
-        if (img.width > 1920 || img.height > 1080) {
-          const dimensions = calculateDimensions(img.width, img.height, 1920, 1080);
-          targetWidth = dimensions.width;
-          targetHeight = dimensions.height;
-        }
+  const compressFile = useCallback(async (
+    file: File,
+    mimeType: string | undefined,
+    type: 'image' | 'pdf',
+    quality: number,
+    pdfOptions?: PdfItemOptions
+  ): Promise<CompressionOutput & { variants?: Omit<OutputVariant, 'preview'>[] }> => {
+    const targetBytes = targetBytesRef.current;
+    const format = outputFormatRef.current;
+    const resize = resizeOptionsRef.current;
+    const pngDither = pngDitherRef.current;
+    const metadataFields = metadataFieldsRef.current;
 
-        canvas.width = targetWidth;
-        canvas.height = targetHeight;
-
-        // 高品質レンダリングのための設定
-        ctx.imageSmoothingEnabled = true;
-        ctx.imageSmoothingQuality = 'high';
-        
-        // アンチエイリアシングを適用
-        ctx.drawImage(img, 0, 0, targetWidth, targetHeight);
-
-        // 出力フォーマットを元ファイルに合わせる
-        const outputFormat = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
-        const outputQuality = file.type === 'image/png' ? 1 : quality / 100;
-
-        canvas.toBlob(
-          (blob) => {
-            if (blob) {
-              resolve({blob, dimensions: {width: targetWidth, height: targetHeight}});
-            } else {
-              reject(new Error('Failed to compress image'));
-            }
-          },
-          outputFormat,
-          outputQuality
-        );
+    if (type === 'image' && selectedServicesRef.current.length > 0) {
+      // サービスプリセットごとに寸法と容量の上限に合わせて出力
+      const variants: Omit<OutputVariant, 'preview'>[] = [];
+      for (const key of selectedServicesRef.current) {
+        const service = services[key];
+        const result = await compressImage(file, {
+          quality,
+          format,
+          resize,
+          pngDither,
+          metadataFields,
+          mimeType,
+          maxDimensions: { width: service.maxWidth, height: service.maxHeight },
+          targetBytes: targetBytes ? Math.min(targetBytes, service.maxSize) : service.maxSize,
+          // 画質モードではスライダーの画質を上限として容量に収める
+          qualityCeiling: targetBytes ? 100 : quality
+        });
+        variants.push({ ...result, key, label: service.name });
+      }
+      const [first] = variants;
+      return {
+        blob: first.blob,
+        dimensions: first.dimensions,
+        sourceDimensions: first.sourceDimensions,
+        formatNotice: first.formatNotice,
+        targetReport: first.targetReport,
+        paletteColors: first.paletteColors,
+        sizeGuard: first.sizeGuard,
+        variants
       };
-      img.onerror = reject;
-      img.src = URL.createObjectURL(file);
-    });
+    }
+
+    if (type === 'image') {
+      return await compressImage(file, { quality, format, resize, pngDither, metadataFields, targetBytes, mimeType });
+    }
+
+    const result = await compressPDF(file, quality, targetBytes, pdfOptions);
+    return {
+      blob: result.blob,
+      dimensions: null,
+      targetReport: result.targetReport,
+      sizeGuard: result.sizeGuard,
+      optimizeStats: result.optimizeStats,
+      pages: result.pages,
+      pdfReport: result.report
+    };
+  }, [compressImage, compressPDF]);
+
+  // 圧縮結果を項目に反映（古いプレビューURLは解放する）
+  const applyCompressionResult = useCallback((
+    id: string,
+    type: 'image' | 'pdf',
+    result: CompressionOutput & { variants?: Omit<OutputVariant, 'preview'>[] }
+  ) => {
+    const variants = result.variants?.map(variant => ({ ...variant, preview: URL.createObjectURL(variant.blob) }));
+    const preview = variants?.[0].preview ?? (type === 'image' ? URL.createObjectURL(result.blob) : undefined);
+    setQueue(prev => prev.map(item => {
+      if (item.id !== id) return item;
+      // 元画像とページのサムネイルは再圧縮後も使う
+      BatchQueue.revokePreviews({ ...item, originalPreview: undefined, pageThumbnails: undefined });
+      return {
+        ...item,
+        status: 'done',
+        progress: 100,
+        error: undefined,
+        compressedBlob: result.blob,
+        compressedPreview: preview,
+        dimensions: result.dimensions,
+        sourceDimensions: result.sourceDimensions,
+        formatNotice: result.formatNotice,
+        targetReport: result.targetReport,
+        paletteColors: result.paletteColors,
+        sizeGuard: result.sizeGuard,
+        optimizeStats: result.optimizeStats,
+        pages: result.pages,
+        pdfReport: result.pdfReport,
+        variants
+      };
+    }));
+  }, []);
+
+  const beginActive = useCallback((id: string) => {
+    activeIdRef.current = id;
+    setActiveId(id);
+    setProcessingProgress(0);
+    setProcessingMessage('');
   }, []);
 
-  const compressPDF = useCallback(async (file: File, quality: number): Promise<Blob> => {
-    const arrayBuffer = await file.arrayBuffer();
-    
+  const endActive = useCallback(() => {
+    activeIdRef.current = null;
+    setActiveId(null);
+    setProcessingProgress(0);
+    setProcessingMessage('');
+    setScanPhase('file-check');
+  }, []);
+
+  // PDFのページのサムネイルを描画して項目に追加（圧縮とは独立して進める）
+  const loadPageThumbnails = useCallback(async (id: string, file: File, password?: string) => {
+    const session = sessionRef.current;
     try {
-      setProcessingMessage('PDFを読み込み中...');
-      setProcessingProgress(10);
-      
-      // PDF.jsを使ってPDFを読み込み、各ページを画像として抽出
-      const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
-      const pdfDoc = await PDFDocument.create();
-      
-      setProcessingMessage(`${pdf.numPages}ページのPDFを圧縮中...`);
-      setProcessingProgress(20);
-      
-      for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-        const progress = 20 + (pageNum / pdf.numPages) * 70;
-        setProcessingProgress(progress);
-        setProcessingMessage(`ページ ${pageNum}/${pdf.numPages} を処理中...`);
-        
-        const page = await pdf.getPage(pageNum);
-        const viewport = page.getViewport({ scale: 1.0 });
-        
-        // Canvasを作成してページをレンダリング
-        const canvas = document.createElement('canvas');
-        const context = canvas.getContext('2d');
-        canvas.height = viewport.height;
-        canvas.width = viewport.width;
-        
-        const renderContext = {
-          canvasContext: context!,
-          viewport: viewport,
-        };
-        
-        await page.render(renderContext).promise;
-        
-        // 画像として圧縮
-        const imageBlob = await new Promise<Blob>((resolve) => {
-          canvas.toBlob((blob) => {
-            resolve(blob!);
-          }, 'image/jpeg', quality / 100);
-        });
-        
-        // 画像をPDFに追加
-        const imageBytes = await imageBlob.arrayBuffer();
-        const image = await pdfDoc.embedJpg(imageBytes);
-        
-        const pdfPage = pdfDoc.addPage([image.width, image.height]);
-        pdfPage.drawImage(image, {
-          x: 0,
-          y: 0,
-          width: image.width,
-          height: image.height,
-        });
-      }
-      
-      setProcessingMessage('PDFを保存中...');
-      setProcessingProgress(95);
-      
-      const pdfBytes = await pdfDoc.save();
-      
-      setProcessingProgress(100);
-      setProcessingMessage('完了!');
-      
-      return new Blob([pdfBytes], { type: 'application/pdf' });
+      await PdfRenderer.renderThumbnails(await file.arrayBuffer(), PAGE_THUMBNAIL_WIDTH, (pageNumber, thumbnail, pageCount) => {
+        const url = URL.createObjectURL(thumbnail);
+        // リセット後や削除後に届いたサムネイルは破棄
+        if (session !== sessionRef.current || !queueRef.current.some(entry => entry.id === id)) {
+          URL.revokeObjectURL(url);
+          return;
+        }
+        setQueue(prev => prev.map(entry => {
+          if (entry.id !== id) return entry;
+          const pageThumbnails = [...(entry.pageThumbnails ?? [])];
+          pageThumbnails[pageNumber - 1] = url;
+          return { ...entry, pageCount, pageThumbnails };
+        }));
+      }, password);
     } catch (error) {
-      console.error('PDF compression error:', error);
-      setProcessingMessage('エラーが発生しました');
-      
-      // フォールバック: 単純な再保存
-      const pdfDoc = await PDFDocument.load(arrayBuffer);
-      const pdfBytes = await pdfDoc.save({
-        useObjectStreams: false,
-        addDefaultPage: false,
-      });
-      return new Blob([pdfBytes], { type: 'application/pdf' });
+      console.warn('Failed to render page thumbnails:', error);
     }
   }, []);
 
-  const handleFileSelect = useCallback(async (file: File) => {
-    // セキュリティ検証を最初に実行
-    setIsProcessing(true);
-    setScanPhase('file-check');
-    setProcessingMessage('ファイル形式をチェック中...');
-    setProcessingProgress(5);
-    
-    // 少し待機してUIを表示
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    const validationResult = await FileSecurityValidator.validateFile(file);
-    if (!validationResult.valid) {
-      setIsProcessing(false);
-      setScanPhase('file-check');
-      setProcessingProgress(0);
-      setProcessingMessage('');
-      alert(`セキュリティエラー: ${validationResult.error}`);
-      return;
-    }
+  const processQueueItem = useCallback(async (item: QueueItem) => {
+    const { id, file } = item;
+
+    let encrypted = false;
 
-    // ウイルススキャンフェーズ
-    setScanPhase('virus-scan');
-    setProcessingMessage('ウイルススキャン実行中...');
-    setProcessingProgress(15);
-    
-    // スキャン演出のための待機
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    const scanResult = await ClientFileScanner.scanFile(file);
-    setScanResults({safe: scanResult.safe, warnings: scanResult.warnings});
-    
-    if (!scanResult.safe) {
-      setIsProcessing(false);
+    beginActive(id);
+    try {
+      // セキュリティ検証を最初に実行
       setScanPhase('file-check');
-      setProcessingProgress(0);
-      setProcessingMessage('');
-      const summary = ClientFileScanner.getScanSummary(scanResult);
-      alert(`🚨 セキュリティ脅威を検出: ${summary}`);
-      return;
-    }
+      updateItem(id, { status: 'validating' });
+      reportProgress(5, 'ファイル形式をチェック中...');
 
-    // コンテンツスキャンフェーズ
-    setScanPhase('content-scan');
-    setProcessingMessage('ファイル内容を詳細チェック中...');
-    setProcessingProgress(25);
-    
-    await new Promise(resolve => setTimeout(resolve, 800));
-
-    if (scanResult.warnings.length > 0) {
-      const summary = ClientFileScanner.getScanSummary(scanResult);
-      const proceed = confirm(`⚠️ ${summary}\n\n続行しますか？`);
-      if (!proceed) {
-        setIsProcessing(false);
-        setScanPhase('file-check');
-        setProcessingProgress(0);
-        setProcessingMessage('');
+      const validationResult = await FileSecurityValidator.validateFile(file);
+      if (!validationResult.valid) {
+        updateItem(id, { status: 'error', error: `セキュリティエラー: ${validationResult.error}` });
         return;
       }
-    }
+      const appendedData = validationResult.appendedData;
+      updateItem(id, { appendedData });
+
+      // ウイルススキャンフェーズ
+      setScanPhase('virus-scan');
+      updateItem(id, { status: 'scanning' });
+      reportProgress(15, 'ウイルススキャン実行中...');
 
-    const isImage = validationResult.fileType?.startsWith('image/') || false;
-    const isPDF = validationResult.fileType === 'application/pdf';
+      // ファイル全体を読みながらスキャンする（進捗は1%ごとに反映）
+      const controller = new AbortController();
+      scanAbortRef.current = controller;
+      let scannedPercent = 0;
+      let scanResult;
+      try {
+        scanResult = await ClientFileScanner.scanFile(file, {
+          mimeType: validationResult.fileType,
+          trailingOffset: appendedData?.offset,
+          data: validationResult.bytes,
+          signal: controller.signal,
+          onProgress: ratio => {
+            const percent = Math.floor(ratio * 100);
+            if (percent === scannedPercent) return;
+            scannedPercent = percent;
+            reportProgress(15 + Math.floor(percent / 10), `ウイルススキャン実行中... ${percent}%`);
+          }
+        });
+      } finally {
+        scanAbortRef.current = null;
+      }
+      updateItem(id, { safe: scanResult.safe, warnings: scanResult.warnings });
 
-    setOriginalFile(file);
-    setFileType(isImage ? 'image' : 'pdf');
-    
-    if (isImage) {
-      setOriginalPreview(URL.createObjectURL(file));
-    } else {
-      setOriginalPreview(''); // PDFはプレビューなし
+      if (!scanResult.safe) {
+        const summary = ClientFileScanner.getScanSummary(scanResult);
+        updateItem(id, { status: 'error', error: `🚨 セキュリティ脅威を検出: ${summary}` });
+        return;
+      }
+
+      // コンテンツスキャンフェーズ（警告は項目ごとに記録して処理を続行）
+      setScanPhase('content-scan');
+      reportProgress(25, 'ファイル内容を詳細チェック中...');
+
+      const isImage = validationResult.fileType?.startsWith('image/') || false;
+      const type = isImage ? 'image' : 'pdf';
+
+      encrypted = validationResult.encrypted ?? false;
+
+      // PDFはオブジェクトをたどってJavaScriptなどの実行される要素を調べる（検証で読み込んだ内容を使い回す）
+      if (!isImage) {
+        const buffer = validationResult.bytes ?? await file.arrayBuffer();
+        try {
+          updateItem(id, { activeContent: await PdfActiveContentScanner.scan(buffer) });
+        } catch (error) {
+          console.warn('PDF active content scan failed:', error);
+          updateItem(id, { warnings: [...scanResult.warnings, 'PDFの構造を解析できず、アクティブコンテンツを確認できませんでした'] });
+        }
+        // 暗号化されたPDFの文書情報は暗号化されたままのため読まない
+        if (!encrypted) {
+          try {
+            updateItem(id, { pdfMetadata: await PdfMetadataEditor.read(buffer) });
+          } catch (error) {
+            console.warn('Failed to read PDF metadata:', error);
+          }
+        }
+      }
+
+      updateItem(id, {
+        status: 'compressing',
+        fileType: type,
+        mimeType: validationResult.fileType,
+        encrypted,
+        originalPreview: isImage ? URL.createObjectURL(file) : undefined // PDFはプレビューなし
+      });
+      // 暗号化されたPDFはパスワードで開けてからサムネイルを作る
+      if (!isImage && !encrypted) {
+        void loadPageThumbnails(id, file);
+      }
+
+      // 圧縮フェーズへ移行
+      setScanPhase('compression');
+      reportProgress(40, isImage ? '画像を圧縮中...' : undefined);
+
+      // 付加データは圧縮の対象にしない（元のファイルをそのまま使う場合も含まれないようにする）
+      const result = await compressFile(AppendedDataDetector.strip(file, appendedData), validationResult.fileType, type, qualityRef.current, { encrypted });
+      applyCompressionResult(id, type, result);
+      setScanPhase('complete');
+      reportProgress(100, '圧縮完了!');
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        updateItem(id, { status: 'error', error: 'スキャンを中止しました' });
+        return;
+      }
+      console.error('Compression error:', error);
+      updateItem(id, getCompressionError(error, encrypted));
+    } finally {
+      endActive();
     }
-    
-    // 圧縮フェーズへ移行
-    setScanPhase('compression');
-    setProcessingProgress(40);
+  }, [beginActive, endActive, updateItem, reportProgress, compressFile, applyCompressionResult, loadPageThumbnails]);
+
+  // 実行中のスキャンを中止（キューの残りの項目はそのまま続ける）
+  const handleCancelScan = useCallback(() => {
+    scanAbortRef.current?.abort();
+  }, []);
+
+  const recompressQueueItem = useCallback(async (itemId: string, generation: number) => {
+    // より新しい画質変更があればスキップ
+    if (generation !== recompressGenerationRef.current) return;
+
+    const item = queueRef.current.find(entry => entry.id === itemId);
+    if (!item || !(item.status === 'done' || item.status === 'locked') || !item.fileType) return;
+
+    beginActive(item.id);
     try {
-      if (isImage) {
-        setProcessingMessage('画像を圧縮中...');
-        setProcessingProgress(50);
-        const result = await compressImage(file, quality);
-        setCompressedBlob(result.blob);
-        setCompressedPreview(URL.createObjectURL(result.blob));
-        setCompressedDimensions(result.dimensions);
-        setScanPhase('complete');
-        setProcessingProgress(100);
-        setProcessingMessage('圧縮完了!');
-      } else {
-        const compressedPDF = await compressPDF(file, quality);
-        setCompressedBlob(compressedPDF);
-        setCompressedPreview('');
-        setCompressedDimensions(null);
-        setScanPhase('complete');
+      setScanPhase('compression');
+      updateItem(item.id, { status: 'compressing' });
+      reportProgress(50, item.fileType === 'image' ? '画像を圧縮中...' : undefined);
+      const result = await compressFile(AppendedDataDetector.strip(item.file, item.appendedData), item.mimeType, item.fileType, qualityRef.current, {
+        pageColorModes: item.pageColorModes,
+        pageOrder: item.pageOrder,
+        encrypted: item.encrypted,
+        password: item.password,
+        metadata: item.metadata
+      });
+      applyCompressionResult(item.id, item.fileType, result);
+      // パスワードで開けたPDFは、ここで初めてページのサムネイルを作れる
+      if (item.status === 'locked') {
+        void loadPageThumbnails(item.id, item.file, item.password);
       }
     } catch (error) {
       console.error('Compression error:', error);
-      setProcessingMessage('エラーが発生しました');
-      alert('圧縮処理中にエラーが発生しました。');
+      updateItem(item.id, getCompressionError(error, item.encrypted));
     } finally {
-      setTimeout(() => {
-        setIsProcessing(false);
-        setProcessingProgress(0);
-        setProcessingMessage('');
-        setScanPhase('file-check');
-      }, 1000);
+      endActive();
     }
-  }, [quality, compressImage, compressPDF]);
+  }, [beginActive, endActive, updateItem, reportProgress, compressFile, applyCompressionResult, loadPageThumbnails]);
+
+  // 処理は1件ずつ直列に実行する
+  const enqueueTask = useCallback((task: () => Promise<void>) => {
+    const session = sessionRef.current;
+    queueChainRef.current = queueChainRef.current.then(() => {
+      // リセット後は残りのタスクを破棄
+      if (session !== sessionRef.current) return;
+      return task();
+    });
+  }, []);
+
+  const handleFilesSelect = useCallback((files: FileList | File[]) => {
+    const items = BatchQueue.createItems(files);
+    if (items.length === 0) return;
+
+    setQueue(prev => [...prev, ...items]);
+    setSelectedId(prev => prev ?? items[0].id);
+
+    for (const item of items) {
+      enqueueTask(() => processQueueItem(item));
+    }
+  }, [enqueueTask, processQueueItem]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     const files = e.dataTransfer.files;
     if (files.length > 0) {
-      handleFileSelect(files[0]);
+      handleFilesSelect(files);
     }
-  }, [handleFileSelect]);
+  }, [handleFilesSelect]);
 
   const handleFileInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
-      handleFileSelect(files[0]);
+      handleFilesSelect(files);
+    }
+    // 同じファイルを再選択できるようにする
+    e.target.value = '';
+  }, [handleFilesSelect]);
+
+  // 選択中の項目を優先して、完了済みの項目をすべて再圧縮
+  const recompressAll = useCallback((filter: (item: QueueItem) => boolean = () => true) => {
+    const generation = ++recompressGenerationRef.current;
+    const targets = queue
+      .filter(item => item.status === 'done' && filter(item))
+      .sort((a, b) => Number(b.id === selectedId) - Number(a.id === selectedId));
+    for (const item of targets) {
+      enqueueTask(() => recompressQueueItem(item.id, generation));
     }
-  }, [handleFileSelect]);
+  }, [queue, selectedId, enqueueTask, recompressQueueItem]);
 
-  const handleQualityChange = useCallback(async (newQuality: number) => {
+  const handleQualityChange = useCallback((newQuality: number) => {
     setQuality(newQuality);
-    if (originalFile) {
-      setIsProcessing(true);
-      setProcessingProgress(0);
+    qualityRef.current = newQuality;
+    recompressAll();
+  }, [recompressAll]);
+
+  const handleOutputFormatChange = useCallback((format: OutputFormat) => {
+    setOutputFormat(format);
+    outputFormatRef.current = format;
+    // 出力形式はPDFには影響しない
+    recompressAll(item => item.fileType === 'image');
+  }, [recompressAll]);
+
+  const handleResizeChange = useCallback((patch: Partial<ResizeOptions>) => {
+    const next = { ...resizeOptions, ...patch };
+    // 入力途中の空欄や0は反映しない
+    const values = [next.width, next.height, next.percent, next.longEdge];
+    setResizeOptions(next);
+    if (values.every(value => Number.isFinite(value) && value > 0)) {
+      resizeOptionsRef.current = next;
+      recompressAll(item => item.fileType === 'image');
+    }
+  }, [resizeOptions, recompressAll]);
+
+  const handlePngDitherChange = useCallback((enabled: boolean) => {
+    setPngDither(enabled);
+    pngDitherRef.current = enabled;
+    // 減色したPNGだけが対象だが、出力形式は処理時に決まるため画像をすべて再圧縮
+    recompressAll(item => item.fileType === 'image');
+  }, [recompressAll]);
+
+  const handlePdfStrategyChange = useCallback((strategy: PdfCompressionStrategy) => {
+    setPdfStrategy(strategy);
+    pdfStrategyRef.current = strategy;
+    recompressAll(item => item.fileType === 'pdf');
+  }, [recompressAll]);
+
+  const handlePdfDpiChange = useCallback((dpi: number) => {
+    setPdfDpi(dpi);
+    pdfDpiRef.current = dpi;
+    recompressAll(item => item.fileType === 'pdf');
+  }, [recompressAll]);
+
+  const handleRemoveActiveContentChange = useCallback((enabled: boolean) => {
+    setRemoveActiveContent(enabled);
+    removeActiveContentRef.current = enabled;
+    recompressAll(item => item.fileType === 'pdf');
+  }, [recompressAll]);
+
+  // 全ページの色を切り替える（ページごとの指定は解除）
+  const handlePdfColorModeChange = useCallback((mode: PdfColorMode) => {
+    setPdfColorMode(mode);
+    pdfColorModeRef.current = mode;
+    queueRef.current = queueRef.current.map(item => ({ ...item, pageColorModes: undefined }));
+    setQueue(prev => prev.map(item => ({ ...item, pageColorModes: undefined })));
+    recompressAll(item => item.fileType === 'pdf');
+  }, [recompressAll]);
+
+  // 1ページだけ色を切り替えて、その項目だけを再圧縮
+  const handlePageColorModeChange = useCallback((itemId: string, pageNumber: number, mode: PdfColorMode) => {
+    const item = queueRef.current.find(entry => entry.id === itemId);
+    if (!item) return;
+
+    // 添字は元のPDFのページ番号 - 1（出力しないページや未指定のページは空のまま）
+    const pageColorModes = [...(item.pageColorModes ?? [])];
+    pageColorModes[pageNumber - 1] = mode;
+
+    // 再圧縮は queueRef から設定を読むため、描画を待たずに反映しておく
+    queueRef.current = queueRef.current.map(entry => entry.id === itemId ? { ...entry, pageColorModes } : entry);
+    updateItem(itemId, { pageColorModes });
+    enqueueTask(() => recompressQueueItem(itemId, recompressGenerationRef.current));
+  }, [updateItem, enqueueTask, recompressQueueItem]);
+
+  // 入力されたパスワードでPDFを開いて圧縮
+  const handlePdfPasswordSubmit = useCallback((itemId: string, password: string) => {
+    queueRef.current = queueRef.current.map(entry => entry.id === itemId ? { ...entry, password } : entry);
+    updateItem(itemId, { password });
+    enqueueTask(() => recompressQueueItem(itemId, recompressGenerationRef.current));
+  }, [updateItem, enqueueTask, recompressQueueItem]);
+
+  // 出力するページの選択・並べ替えを反映して、その項目だけを再圧縮
+  const handlePageOrderChange = useCallback((itemId: string, pageOrder: number[] | undefined) => {
+    queueRef.current = queueRef.current.map(entry => entry.id === itemId ? { ...entry, pageOrder } : entry);
+    updateItem(itemId, { pageOrder });
+    enqueueTask(() => recompressQueueItem(itemId, recompressGenerationRef.current));
+  }, [updateItem, enqueueTask, recompressQueueItem]);
+
+  // 出力に設定する文書情報を反映して、その項目だけを再圧縮
+  const handlePdfMetadataApply = useCallback((itemId: string, metadata: PdfMetadataValues | undefined) => {
+    queueRef.current = queueRef.current.map(entry => entry.id === itemId ? { ...entry, metadata } : entry);
+    updateItem(itemId, { metadata });
+    enqueueTask(() => recompressQueueItem(itemId, recompressGenerationRef.current));
+  }, [updateItem, enqueueTask, recompressQueueItem]);
+
+  const handleMetadataFieldToggle = useCallback((field: ExifMetadataField) => {
+    const next = metadataFields.includes(field)
+      ? metadataFields.filter(value => value !== field)
+      : [...metadataFields, field];
+    setMetadataFields(next);
+    metadataFieldsRef.current = next;
+    recompressAll(item => item.fileType === 'image');
+  }, [metadataFields, recompressAll]);
+
+  const handleServiceToggle = useCallback((key: string) => {
+    const next = selectedServices.includes(key)
+      ? selectedServices.filter(service => service !== key)
+      : [...selectedServices, key];
+    setSelectedServices(next);
+    selectedServicesRef.current = next;
+    // サービスプリセットは画像にのみ適用
+    recompressAll(item => item.fileType === 'image');
+  }, [selectedServices, recompressAll]);
+
+  // 目標サイズの設定を反映（画質モードでは null）
+  const applySizeTarget = useCallback((mode: 'quality' | 'target', value: number, unit: 'KB' | 'MB') => {
+    targetBytesRef.current = mode === 'target' && value > 0
+      ? SizeTargetSearch.toBytes(value, unit)
+      : null;
+    recompressAll();
+  }, [recompressAll]);
+
+  const handleSizeModeChange = useCallback((mode: 'quality' | 'target') => {
+    setSizeMode(mode);
+    applySizeTarget(mode, targetValue, targetUnit);
+  }, [applySizeTarget, targetValue, targetUnit]);
+
+  const handleTargetValueChange = useCallback((value: number) => {
+    setTargetValue(value);
+    if (Number.isFinite(value) && value > 0) {
+      applySizeTarget(sizeMode, value, targetUnit);
+    }
+  }, [applySizeTarget, sizeMode, targetUnit]);
+
+  const handleTargetUnitChange = useCallback((unit: 'KB' | 'MB') => {
+    setTargetUnit(unit);
+    applySizeTarget(sizeMode, targetValue, unit);
+  }, [applySizeTarget, sizeMode, targetValue]);
+
+  const handleRemoveItem = useCallback((id: string) => {
+    const target = queue.find(item => item.id === id);
+    if (!target || !BatchQueue.isFinished(target)) return;
+
+    BatchQueue.revokePreviews(target);
+    const remaining = queue.filter(item => item.id !== id);
+    setQueue(remaining);
+    if (selectedId === id) {
+      setSelectedId(remaining[0]?.id ?? null);
+    }
+  }, [queue, selectedId]);
+
+  const triggerDownload = (blob: Blob, fileName: string) => {
+    const link = document.createElement('a');
+
+    // セキュアなダウンロードURL生成
+    link.href = FileSecurityValidator.createSecureDownloadUrl(blob, fileName);
+    link.download = FileSecurityValidator.sanitizeFileName(fileName);
+
+    // ダウンロード属性を設定してXSSを防ぐ
+    link.setAttribute('rel', 'noopener noreferrer');
+    link.click();
+
+    // 即座にリンクを削除
+    setTimeout(() => {
+      if (link.href) {
+        URL.revokeObjectURL(link.href);
+      }
+    }, 100);
+  };
+
+  const handleDownload = () => {
+    if (selectedItem && compressedBlob) {
+      // 拡張子は実際に出力されたMIMEタイプから決まる
+      const fileName = BatchQueue.getOutputFileName(selectedItem, selectedVariant ?? undefined);
+      triggerDownload(compressedBlob, `compressed_${fileName}`);
+    }
+  };
+
+  // 付加データだけを切り詰めた元のファイルを保存（再圧縮しない）
+  const handleDownloadStripped = () => {
+    if (selectedItem?.appendedData) {
+      triggerDownload(AppendedDataDetector.strip(selectedItem.file, selectedItem.appendedData), `cleaned_${selectedItem.file.name}`);
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    setIsArchiving(true);
+    try {
+      const archive = await BatchQueue.createArchive(queue, includeManifest);
+      triggerDownload(archive, `compressed_${Date.now()}.zip`);
+    } catch (error) {
+      console.error('Archive error:', error);
+      alert(error instanceof Error ? error.message : 'ZIPファイルの作成に失敗しました');
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  // 完了した画像を一覧の順に圧縮し直し、1ページに1枚ずつ並べたPDFを作成
+  // 他のファイルの圧縮と同時に走らないよう、処理の順番待ちに加える
+  const handleCreateImagePdf = () => {
+    const items = completedImages;
+    const options = imagePdfOptions;
+    setImagePdfError(null);
+    setImagePdfProgress('順番待ち...');
+
+    enqueueTask(async () => {
+      const compressed: Blob[] = [];
       try {
-        if (fileType === 'image') {
-          setProcessingMessage('画像を圧縮中...');
-          setProcessingProgress(50);
-          const result = await compressImage(originalFile, newQuality);
-          setCompressedBlob(result.blob);
-          setCompressedPreview(URL.createObjectURL(result.blob));
-          setCompressedDimensions(result.dimensions);
-          setProcessingProgress(100);
-          setProcessingMessage('完了!');
-        } else {
-          const compressedPDF = await compressPDF(originalFile, newQuality);
-          setCompressedBlob(compressedPDF);
+        for (let i = 0; i < items.length; i++) {
+          setImagePdfProgress(`画像を圧縮中 ${i + 1}/${items.length}`);
+          const file = AppendedDataDetector.strip(items[i].file, items[i].appendedData);
+          const mimeType = items[i].mimeType;
+          // PDFに埋め込めるのはJPEGとPNGだけ（PNGは透過を保つためPNGのまま）
+          const result = await compressImage(file, {
+            quality: qualityRef.current,
+            format: mimeType === 'image/png' ? 'png' : 'jpeg',
+            mimeType,
+            resize: resizeOptionsRef.current,
+            pngDither: pngDitherRef.current,
+            metadataFields: [],
+            targetBytes: null
+          });
+          compressed.push(result.blob);
         }
+
+        const pdf = await ImagePdfBuilder.build(compressed, options, (_, message) => {
+          if (message) setImagePdfProgress(message);
+        });
+        triggerDownload(pdf, `images_${Date.now()}.pdf`);
       } catch (error) {
-        console.error('Compression error:', error);
-        setProcessingMessage('エラーが発生しました');
+        console.error('Image PDF error:', error);
+        setImagePdfError(error instanceof Error ? error.message : 'PDFの作成に失敗しました');
       } finally {
-        setIsProcessing(false);
-        setProcessingProgress(0);
-        setProcessingMessage('');
+        setImagePdfProgress(null);
       }
-    }
-  }, [originalFile, fileType, compressImage, compressPDF]);
+    });
+  };
 
-  const handleDownload = () => {
-    if (compressedBlob) {
-      const link = document.createElement('a');
-      const extension = fileType === 'image' ? 'jpg' : 'pdf';
-      const fileName = `compressed_${Date.now()}.${extension}`;
-      
-      // セキュアなダウンロードURL生成
-      link.href = FileSecurityValidator.createSecureDownloadUrl(compressedBlob, fileName);
-      link.download = FileSecurityValidator.sanitizeFileName(fileName);
-      
-      // ダウンロード属性を設定してXSSを防ぐ
-      link.setAttribute('rel', 'noopener noreferrer');
-      link.click();
-      
-      // 即座にリンクを削除
-      setTimeout(() => {
-        if (link.href) {
-          URL.revokeObjectURL(link.href);
-        }
-      }, 100);
+  // 選択中のPDFの各ページを画像にしてZIPで保存（ページの選択・並べ替えを反映）
+  const handleExportPdfPages = async () => {
+    if (!selectedItem || selectedItem.fileType !== 'pdf') return;
+    const { file, pageOrder, password } = selectedItem;
+
+    setPageExportProgress('PDFを読み込み中...');
+    try {
+      const images = await CompressionClient.exportPdfPages(file, {
+        format: pageExportFormat,
+        dpi: pageExportDpi,
+        quality: qualityRef.current,
+        pageOrder,
+        password
+      }, (_, message) => {
+        if (message) setPageExportProgress(message);
+      });
+      const baseName = FileSecurityValidator.sanitizeFileName(file.name.replace(/\.[^.]+$/, '').substring(0, 80));
+      const archive = await PdfPageExporter.createArchive(baseName, images, selectedItem.pageCount ?? images.length);
+      triggerDownload(archive, `${baseName}_pages.zip`);
+    } catch (error) {
+      console.error('Page export error:', error);
+      alert(error instanceof Error ? error.message : 'ページの書き出しに失敗しました');
+    } finally {
+      setPageExportProgress(null);
     }
   };
 
   const handleReset = () => {
-    setOriginalFile(null);
-    setCompressedBlob(null);
-    setOriginalPreview('');
-    setCompressedPreview('');
-    setCompressedDimensions(null);
-    setFileType('image');
+    sessionRef.current++;
+    scanAbortRef.current?.abort();
+    queue.forEach(item => BatchQueue.revokePreviews(item));
+    setQueue([]);
+    setSelectedId(null);
     setQuality(80);
+    qualityRef.current = 80;
+    setOutputFormat('original');
+    outputFormatRef.current = 'original';
+    setSizeMode('quality');
+    targetBytesRef.current = null;
+    setSelectedServices([]);
+    selectedServicesRef.current = [];
+    setResizeOptions(DEFAULT_RESIZE_OPTIONS);
+    setImagePdfOptions(DEFAULT_IMAGE_PDF_OPTIONS);
+    // 順番待ちのPDF作成はリセットで破棄される
+    setImagePdfProgress(null);
+    setImagePdfError(null);
+    setPageExportFormat('jpeg');
+    setPageExportDpi(DEFAULT_PDF_DPI);
+    resizeOptionsRef.current = DEFAULT_RESIZE_OPTIONS;
+    setPngDither(true);
+    pngDitherRef.current = true;
+    setMetadataFields([]);
+    metadataFieldsRef.current = [];
+    setPdfStrategy('structure');
+    pdfStrategyRef.current = 'structure';
+    setPdfDpi(DEFAULT_PDF_DPI);
+    pdfDpiRef.current = DEFAULT_PDF_DPI;
+    setPdfColorMode('color');
+    pdfColorModeRef.current = 'color';
+    setRemoveActiveContent(false);
+    removeActiveContentRef.current = false;
+    setSelectedVariantKey(null);
     setProcessingProgress(0);
     setProcessingMessage('');
     setScanPhase('file-check');
-    setScanResults({safe: true, warnings: []});
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -487,7 +983,7 @@ export function ImageOptimizer() {
 
   const getSuitableServices = () => {
     if (!compressedBlob || !compressedDimensions) return [];
-    
+
     return Object.entries(services).filter(([_, service]) => {
       return compressedBlob.size <= service.maxSize &&
              compressedDimensions.width <= service.maxWidth &&
@@ -555,7 +1051,7 @@ export function ImageOptimizer() {
               <FileText className="w-16 h-16 text-pink-400 animate-bounce" style={{animationDelay: '0.2s'}} />
             </div>
             <p className="text-lg text-slate-700 mb-6 font-medium">
-              画像やPDFをドラッグ&ドロップしてください
+              画像やPDFをドラッグ&ドロップしてください（複数可）
             </p>
             <p className="text-sm text-slate-500 mb-6">
               対応フォーマット: JPG, PNG, GIF, WebP, PDF
@@ -564,6 +1060,7 @@ export function ImageOptimizer() {
               ref={fileInputRef}
               type="file"
               accept="image/*,application/pdf"
+              multiple
               onChange={handleFileInputChange}
               className="hidden"
             />
@@ -576,6 +1073,19 @@ export function ImageOptimizer() {
           </div>
         </div>
 
+        {/* 処理キュー */}
+        {queue.length > 0 && (
+          <div className="mb-8">
+            <BatchQueueList
+              items={queue}
+              selectedId={selectedId}
+              onSelect={setSelectedId}
+              onRemove={handleRemoveItem}
+              formatFileSize={formatFileSize}
+            />
+          </div>
+        )}
+
         {/* プレビューと圧縮情報 */}
         {originalFile && (
           <div className="space-y-8">
@@ -588,31 +1098,353 @@ export function ImageOptimizer() {
               <p className="text-sm text-purple-600 font-medium mb-4 flex items-center gap-1">
                 👆 スライダーボタンを動かしてみてください！お好みの画質に調整できます
               </p>
-              <div className="flex items-center gap-6">
-                <div className="flex-1">
+              {/* 圧縮モード */}
+              <div className="flex gap-2 mb-4">
+                {([['quality', '画質で指定'], ['target', 'ファイルサイズで指定']] as const).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    onClick={() => handleSizeModeChange(mode)}
+                    className={`px-4 py-2 rounded-full text-sm font-bold border-2 transition-all duration-200 ${
+                      sizeMode === mode
+                        ? 'bg-gradient-to-r from-indigo-500 to-purple-500 text-white border-transparent shadow-lg'
+                        : 'bg-white/70 text-indigo-700 border-indigo-200 hover:bg-indigo-50'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {sizeMode === 'quality' ? (
+                <div className="flex items-center gap-6">
+                  <div className="flex-1">
+                    <label className="block text-sm font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent mb-3">
+                      画質: {quality}%
+                    </label>
+                    <input
+                      type="range"
+                      min="10"
+                      max="100"
+                      value={quality}
+                      onChange={(e) => handleQualityChange(parseInt(e.target.value))}
+                      className="w-full h-3 bg-slate-200 rounded-lg appearance-none cursor-pointer slider-thumb"
+                      style={{
+                        background: `linear-gradient(to right, #8b5cf6 0%, #ec4899 ${(quality-10)/90*100}%, #fbbf24 ${(quality-10)/90*100}%, #f3f4f6 100%)`
+                      }}
+                    />
+                    <div className="flex justify-between text-xs text-slate-400 mt-1">
+                      <span>小さく</span>
+                      <span>高画質</span>
+                    </div>
+                  </div>
+                  <div className="text-center p-3 bg-gradient-to-br from-yellow-100 to-orange-100 rounded-xl border-2 border-yellow-200">
+                    <div className="text-2xl font-bold bg-gradient-to-r from-orange-500 to-red-500 bg-clip-text text-transparent">{quality}%</div>
+                    <div className="text-xs font-medium text-orange-600">画質</div>
+                  </div>
+                </div>
+              ) : (
+                <div>
                   <label className="block text-sm font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent mb-3">
-                    画質: {quality}%
+                    目標ファイルサイズ
                   </label>
-                  <input
-                    type="range"
-                    min="10"
-                    max="100"
-                    value={quality}
-                    onChange={(e) => handleQualityChange(parseInt(e.target.value))}
-                    className="w-full h-3 bg-slate-200 rounded-lg appearance-none cursor-pointer slider-thumb"
-                    style={{
-                      background: `linear-gradient(to right, #8b5cf6 0%, #ec4899 ${(quality-10)/90*100}%, #fbbf24 ${(quality-10)/90*100}%, #f3f4f6 100%)`
-                    }}
-                  />
-                  <div className="flex justify-between text-xs text-slate-400 mt-1">
-                    <span>小さく</span>
-                    <span>高画質</span>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min="1"
+                      step="any"
+                      value={targetValue}
+                      onChange={(e) => handleTargetValueChange(parseFloat(e.target.value))}
+                      className="w-32 px-3 py-2 rounded-lg border-2 border-purple-200 bg-white text-slate-700 font-bold"
+                    />
+                    <select
+                      value={targetUnit}
+                      onChange={(e) => handleTargetUnitChange(e.target.value as 'KB' | 'MB')}
+                      className="px-3 py-2 rounded-lg border-2 border-purple-200 bg-white text-slate-700 font-bold"
+                    >
+                      <option value="KB">KB</option>
+                      <option value="MB">MB</option>
+                    </select>
+                    <span className="text-sm text-slate-600">以下に収める</span>
                   </div>
+                  <p className="text-xs text-slate-500 mt-2">
+                    収まる範囲で最も高い画質を自動で探し、画質だけで足りない場合は解像度も下げます。
+                  </p>
                 </div>
-                <div className="text-center p-3 bg-gradient-to-br from-yellow-100 to-orange-100 rounded-xl border-2 border-yellow-200">
-                  <div className="text-2xl font-bold bg-gradient-to-r from-orange-500 to-red-500 bg-clip-text text-transparent">{quality}%</div>
-                  <div className="text-xs font-medium text-orange-600">画質</div>
+              )}
+
+              {/* 出力フォーマット */}
+              <div className="mt-6">
+                <label className="block text-sm font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent mb-3">
+                  出力フォーマット
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {(['original', 'jpeg', 'png', 'webp', 'avif'] as OutputFormat[]).map((format) => {
+                    const supported = format === 'original' || encoderSupport[format as EncodableFormat];
+                    const isSelected = outputFormat === format;
+                    return (
+                      <button
+                        key={format}
+                        onClick={() => handleOutputFormatChange(format)}
+                        disabled={!supported}
+                        className={`px-4 py-2 rounded-full text-sm font-bold border-2 transition-all duration-200 ${
+                          isSelected
+                            ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white border-transparent shadow-lg'
+                            : 'bg-white/70 text-purple-700 border-purple-200 hover:bg-purple-50'
+                        } disabled:opacity-40 disabled:cursor-not-allowed`}
+                      >
+                        {format === 'original' ? '元の形式' : OUTPUT_FORMATS[format].label}
+                        {!supported && '（非対応）'}
+                      </button>
+                    );
+                  })}
+                </div>
+                <p className="text-xs text-slate-500 mt-2">
+                  ブラウザが対応していない形式は選択できません。元の形式で出力できない場合（GIFなど）はPNGまたはJPEGで出力します。
+                </p>
+                <div className="mt-3 p-3 rounded-xl bg-purple-50/70 border border-purple-100">
+                  <p className="text-xs text-slate-600">
+                    PNGは画質に応じて色数を減らして保存します
+                    {PngQuantizer.colorsForQuality(quality) === null
+                      ? '（画質100%では減色しません）'
+                      : `（現在の画質で最大${PngQuantizer.colorsForQuality(quality)}色）`}
+                  </p>
+                  <label className="flex items-center gap-2 mt-2 text-sm font-medium text-purple-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={pngDither}
+                      onChange={(e) => handlePngDitherChange(e.target.checked)}
+                      className="w-4 h-4 accent-purple-500"
+                    />
+                    ディザリングでグラデーションをなめらかにする
+                  </label>
+                </div>
+              </div>
+
+              {/* リサイズ */}
+              <div className="mt-6">
+                <label className="block text-sm font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent mb-3">
+                  リサイズ
+                </label>
+                <div className="flex flex-wrap items-center gap-3">
+                  <select
+                    value={resizeOptions.mode}
+                    onChange={(e) => handleResizeChange({ mode: e.target.value as ResizeMode })}
+                    className="px-3 py-2 rounded-lg border-2 border-purple-200 bg-white text-slate-700 font-bold text-sm"
+                  >
+                    {(Object.keys(RESIZE_MODE_LABELS) as ResizeMode[]).map((mode) => (
+                      <option key={mode} value={mode}>{RESIZE_MODE_LABELS[mode]}</option>
+                    ))}
+                  </select>
+
+                  {(resizeOptions.mode === 'fit' || resizeOptions.mode === 'width') && (
+                    <label className="flex items-center gap-1 text-sm text-slate-600">
+                      幅
+                      <input
+                        type="number"
+                        min="1"
+                        value={resizeOptions.width}
+                        onChange={(e) => handleResizeChange({ width: parseInt(e.target.value) })}
+                        className="w-24 px-2 py-1 rounded-lg border-2 border-purple-200 bg-white text-slate-700 font-bold"
+                      />
+                      px
+                    </label>
+                  )}
+                  {(resizeOptions.mode === 'fit' || resizeOptions.mode === 'height') && (
+                    <label className="flex items-center gap-1 text-sm text-slate-600">
+                      高さ
+                      <input
+                        type="number"
+                        min="1"
+                        value={resizeOptions.height}
+                        onChange={(e) => handleResizeChange({ height: parseInt(e.target.value) })}
+                        className="w-24 px-2 py-1 rounded-lg border-2 border-purple-200 bg-white text-slate-700 font-bold"
+                      />
+                      px
+                    </label>
+                  )}
+                  {resizeOptions.mode === 'percent' && (
+                    <label className="flex items-center gap-1 text-sm text-slate-600">
+                      <input
+                        type="number"
+                        min="1"
+                        max="400"
+                        value={resizeOptions.percent}
+                        onChange={(e) => handleResizeChange({ percent: parseFloat(e.target.value) })}
+                        className="w-24 px-2 py-1 rounded-lg border-2 border-purple-200 bg-white text-slate-700 font-bold"
+                      />
+                      %
+                    </label>
+                  )}
+                  {resizeOptions.mode === 'long-edge' && (
+                    <label className="flex items-center gap-1 text-sm text-slate-600">
+                      長辺
+                      <input
+                        type="number"
+                        min="1"
+                        value={resizeOptions.longEdge}
+                        onChange={(e) => handleResizeChange({ longEdge: parseInt(e.target.value) })}
+                        className="w-24 px-2 py-1 rounded-lg border-2 border-purple-200 bg-white text-slate-700 font-bold"
+                      />
+                      px
+                    </label>
+                  )}
+                </div>
+                {resizeOptions.mode !== 'none' && (
+                  <div className="flex flex-wrap gap-4 mt-3 text-xs font-medium text-slate-600">
+                    {resizeOptions.mode !== 'percent' && resizeOptions.mode !== 'long-edge' && (
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={resizeOptions.lockAspect}
+                          onChange={(e) => handleResizeChange({ lockAspect: e.target.checked })}
+                        />
+                        縦横比を固定
+                      </label>
+                    )}
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={resizeOptions.noUpscale}
+                        onChange={(e) => handleResizeChange({ noUpscale: e.target.checked })}
+                      />
+                      元より大きくしない
+                    </label>
+                  </div>
+                )}
+              </div>
+
+              {/* メタデータ */}
+              <div className="mt-6">
+                <label className="block text-sm font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent mb-3">
+                  引き継ぐ撮影情報（JPEG出力のみ）
+                </label>
+                <div className="flex flex-wrap gap-4 text-sm font-medium text-purple-700">
+                  {(Object.entries(EXIF_METADATA_FIELDS) as [ExifMetadataField, string][]).map(([field, label]) => (
+                    <label key={field} className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={metadataFields.includes(field)}
+                        onChange={() => handleMetadataFieldToggle(field)}
+                        className="w-4 h-4 accent-purple-500"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500 mt-2">
+                  写真の向きは自動で補正します。位置情報などその他のEXIFは常に削除され、チェックした項目だけを圧縮後のJPEGに残します。
+                </p>
+              </div>
+
+              {/* PDFの圧縮方法 */}
+              <div className="mt-6">
+                <label className="block text-sm font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent mb-3">
+                  PDFの圧縮方法
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {(Object.entries(PDF_STRATEGY_LABELS) as [PdfCompressionStrategy, string][]).map(([strategy, label]) => (
+                    <button
+                      key={strategy}
+                      onClick={() => handlePdfStrategyChange(strategy)}
+                      className={`px-4 py-2 rounded-full text-sm font-bold border-2 transition-all duration-200 ${
+                        pdfStrategy === strategy
+                          ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white border-transparent shadow-lg'
+                          : 'bg-white/70 text-purple-700 border-purple-200 hover:bg-purple-50'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500 mt-2">
+                  {pdfStrategy === 'structure'
+                    ? '文字・図形・リンク・しおりはそのまま残し、埋め込まれた画像だけを縮小・再圧縮します。'
+                    : '各ページを画像にして作り直します。小さくなりやすい反面、文字の選択や検索はできなくなります。'}
+                </p>
+                <div className="flex flex-wrap items-center gap-2 mt-3">
+                  <span className="text-sm font-medium text-purple-700">
+                    {pdfStrategy === 'structure' ? '画像の解像度' : 'ページの解像度'}
+                  </span>
+                  {PDF_DPI_OPTIONS.map(({ dpi, label }) => (
+                    <button
+                      key={dpi}
+                      onClick={() => handlePdfDpiChange(dpi)}
+                      title={label}
+                      className={`px-3 py-1 rounded-full text-xs font-bold border-2 transition-all duration-200 ${
+                        pdfDpi === dpi
+                          ? 'bg-gradient-to-r from-indigo-500 to-purple-500 text-white border-transparent shadow'
+                          : 'bg-white/70 text-indigo-700 border-indigo-200 hover:bg-indigo-50'
+                      }`}
+                    >
+                      {dpi}dpi
+                    </button>
+                  ))}
+                  <span className="text-xs text-slate-500">
+                    {PDF_DPI_OPTIONS.find(option => option.dpi === pdfDpi)?.label}
+                  </span>
+                </div>
+                {pdfStrategy === 'rasterize' && (
+                  <div className="flex flex-wrap items-center gap-2 mt-3">
+                    <span className="text-sm font-medium text-purple-700">色</span>
+                    {([['color', 'カラー'], ['grayscale', '白黒']] as const).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        onClick={() => handlePdfColorModeChange(mode)}
+                        className={`px-3 py-1 rounded-full text-xs font-bold border-2 transition-all duration-200 ${
+                          pdfColorMode === mode
+                            ? 'bg-gradient-to-r from-indigo-500 to-purple-500 text-white border-transparent shadow'
+                            : 'bg-white/70 text-indigo-700 border-indigo-200 hover:bg-indigo-50'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                    <span className="text-xs text-slate-500">ページごとの切り替えは圧縮結果から行えます</span>
+                  </div>
+                )}
+                <label className="flex items-center gap-2 mt-3 text-sm font-medium text-purple-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={removeActiveContent}
+                    onChange={(e) => handleRemoveActiveContentChange(e.target.checked)}
+                    className="w-4 h-4 accent-purple-500"
+                  />
+                  JavaScript・自動実行・埋め込みファイル・フォーム・リンクを取り除く
+                </label>
+              </div>
+
+              {/* サービス向け出力 */}
+              <div className="mt-6">
+                <label className="block text-sm font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent mb-3">
+                  サービス向けに出力（複数選択可）
+                </label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {Object.entries(services).map(([key, service]) => {
+                    const IconComponent = service.icon;
+                    const isSelected = selectedServices.includes(key);
+                    return (
+                      <button
+                        key={key}
+                        onClick={() => handleServiceToggle(key)}
+                        className={`p-2 rounded-xl border-2 text-left transition-all duration-200 ${
+                          isSelected
+                            ? 'border-purple-400 bg-gradient-to-br from-purple-100 to-pink-100 shadow-md'
+                            : 'border-indigo-100 bg-white/70 hover:bg-indigo-50'
+                        }`}
+                      >
+                        <div className="flex items-center gap-2">
+                          <IconComponent className="w-4 h-4 text-indigo-600" />
+                          <span className="text-sm font-bold text-indigo-800">{service.name}</span>
+                          {isSelected && <CheckCircle className="w-4 h-4 text-purple-500 ml-auto" />}
+                        </div>
+                        <p className="text-xs text-purple-600">{service.description}</p>
+                      </button>
+                    );
+                  })}
                 </div>
+                <p className="text-xs text-slate-500 mt-2">
+                  選択したサービスごとに、サイズ上限と容量上限に収めた画像を作成します（画像のみ）。
+                </p>
               </div>
             </div>
 
@@ -654,7 +1486,106 @@ export function ImageOptimizer() {
                       <ImageIcon className="w-4 h-4" />
                       解像度
                     </div>
+                    {sourceDimensions && compressedDimensions && (
+                      <div className="text-xs text-purple-500 mt-1">
+                        元: {sourceDimensions.width}×{sourceDimensions.height}（{ResizeCalculator.describe(resizeOptions)}）
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* サービス別の出力切り替え */}
+              {selectedItem?.variants && selectedItem.variants.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {selectedItem.variants.map((variant) => (
+                    <button
+                      key={variant.key}
+                      onClick={() => setSelectedVariantKey(variant.key)}
+                      className={`px-3 py-1 rounded-full text-xs font-bold border-2 transition-all duration-200 ${
+                        variant.key === selectedVariant?.key
+                          ? 'bg-gradient-to-r from-blue-500 to-green-500 text-white border-transparent'
+                          : 'bg-white/70 text-blue-700 border-blue-200 hover:bg-blue-50'
+                      }`}
+                    >
+                      {variant.label}（{formatFileSize(variant.blob.size)}）
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* PDFの出力ページの選択・並べ替え */}
+              {selectedItem?.fileType === 'pdf' && (selectedItem.pageCount ?? 0) > 0 && (
+                <PdfPageEditor
+                  key={selectedItem.id}
+                  pageCount={selectedItem.pageCount ?? 0}
+                  thumbnails={selectedItem.pageThumbnails ?? []}
+                  pageOrder={selectedItem.pageOrder}
+                  disabled={selectedItem.status !== 'done'}
+                  onChange={(pageOrder) => handlePageOrderChange(selectedItem.id, pageOrder)}
+                />
+              )}
+
+              {/* PDFの文書情報 */}
+              {selectedItem?.fileType === 'pdf' && selectedItem.status === 'done' && (
+                <PdfMetadataPanel
+                  key={selectedItem.id}
+                  report={selectedItem.pdfMetadata}
+                  values={selectedItem.metadata}
+                  onApply={(metadata) => handlePdfMetadataApply(selectedItem.id, metadata)}
+                />
+              )}
+
+              {/* PDFのページを画像として書き出す */}
+              {selectedItem?.fileType === 'pdf' && selectedItem.status === 'done' && (
+                <div className="mb-6 p-4 rounded-2xl border-2 border-cyan-100 bg-gradient-to-br from-cyan-50 to-blue-50">
+                  <h3 className="text-sm font-bold bg-gradient-to-r from-cyan-600 to-blue-600 bg-clip-text text-transparent mb-3 flex items-center gap-2">
+                    <ImageIcon className="w-4 h-4 text-cyan-500" />
+                    ページを画像として書き出す
+                  </h3>
+                  <div className="flex flex-wrap items-center gap-2 mb-3">
+                    {PDF_PAGE_IMAGE_FORMATS.map((format) => (
+                      <button
+                        key={format}
+                        onClick={() => setPageExportFormat(format)}
+                        disabled={!encoderSupport[format]}
+                        title={encoderSupport[format] ? undefined : 'このブラウザでは作成できません'}
+                        className={`px-3 py-1 rounded-full text-xs font-bold border-2 transition-all duration-200 disabled:opacity-40 ${
+                          pageExportFormat === format
+                            ? 'bg-gradient-to-r from-cyan-500 to-blue-500 text-white border-transparent shadow'
+                            : 'bg-white/70 text-cyan-700 border-cyan-200 hover:bg-cyan-50'
+                        }`}
+                      >
+                        {OUTPUT_FORMATS[format].label}
+                      </button>
+                    ))}
+                    <span className="w-px h-5 bg-cyan-200 mx-1" />
+                    {PDF_DPI_OPTIONS.map(({ dpi, label }) => (
+                      <button
+                        key={dpi}
+                        onClick={() => setPageExportDpi(dpi)}
+                        title={label}
+                        className={`px-3 py-1 rounded-full text-xs font-bold border-2 transition-all duration-200 ${
+                          pageExportDpi === dpi
+                            ? 'bg-gradient-to-r from-cyan-500 to-blue-500 text-white border-transparent shadow'
+                            : 'bg-white/70 text-cyan-700 border-cyan-200 hover:bg-cyan-50'
+                        }`}
+                      >
+                        {dpi}dpi
+                      </button>
+                    ))}
                   </div>
+                  <button
+                    onClick={handleExportPdfPages}
+                    disabled={pageExportProgress !== null}
+                    className="bg-gradient-to-r from-cyan-500 to-blue-500 hover:from-cyan-600 hover:to-blue-600 disabled:from-gray-400 disabled:to-gray-400 text-white px-6 py-3 rounded-xl transition-all duration-200 flex items-center gap-2 font-bold shadow-lg hover:shadow-xl transform hover:scale-105 disabled:transform-none disabled:hover:scale-100"
+                  >
+                    <Archive className="w-4 h-4" />
+                    {pageExportProgress ?? `${selectedItem.pageOrder ? `選択した${selectedItem.pageOrder.length}ページ` : '全ページ'}を画像にしてZIPでダウンロード`}
+                  </button>
+                  <p className="text-xs text-slate-500 mt-2">
+                    ファイル名はページ番号順（例: 書類_p001.jpg）。JPEG・WebPは画質スライダーの値で保存します。
+                  </p>
                 </div>
               )}
 
@@ -663,7 +1594,13 @@ export function ImageOptimizer() {
                 <div>
                   <h3 className="text-sm font-bold bg-gradient-to-r from-gray-600 to-gray-800 bg-clip-text text-transparent mb-3">元画像</h3>
                   <div className="border-2 border-gray-200 rounded-xl overflow-hidden bg-gradient-to-br from-gray-50 to-white shadow-lg hover:shadow-xl transition-shadow duration-300">
-                    <img src={originalPreview} alt="Original" className="w-full h-auto max-h-64 object-contain" />
+                    {originalPreview ? (
+                      <img src={originalPreview} alt="Original" className="w-full h-auto max-h-64 object-contain" />
+                    ) : (
+                      <div className="w-full h-64 flex items-center justify-center text-gray-400">
+                        {fileType === 'pdf' ? <FileText className="w-12 h-12" /> : <ImageIcon className="w-12 h-12" />}
+                      </div>
+                    )}
                   </div>
                   <p className="text-xs font-medium text-gray-600 mt-2">
                     {formatFileSize(originalFile.size)} | {originalFile.type}
@@ -733,7 +1670,16 @@ export function ImageOptimizer() {
                             <div className="text-blue-500 pulse-heart">ファイルの安全性を確認しています</div>
                           )}
                           {scanPhase === 'virus-scan' && (
-                            <div className="text-red-500 pulse-heart">悪意のあるコードがないかスキャン中</div>
+                            <>
+                              <div className="text-red-500 pulse-heart">ファイル全体に悪意のあるコードがないかスキャン中</div>
+                              <button
+                                onClick={handleCancelScan}
+                                className="mt-2 inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-bold text-red-600 bg-white border border-red-200 hover:bg-red-50"
+                              >
+                                <XCircle className="w-4 h-4" />
+                                スキャンを中止
+                              </button>
+                            </>
                           )}
                           {scanPhase === 'content-scan' && (
                             <div className="text-yellow-500 pulse-heart">隠れた脅威がないか詳細チェック中</div>
@@ -783,8 +1729,23 @@ export function ImageOptimizer() {
                           </div>
                         )}
                       </div>
+                    ) : selectedItem?.status === 'locked' ? (
+                      <PdfPasswordForm
+                        message={selectedItem.error}
+                        onSubmit={(password) => handlePdfPasswordSubmit(selectedItem.id, password)}
+                      />
+                    ) : selectedItem?.status === 'error' ? (
+                      <div className="w-full h-64 flex flex-col items-center justify-center bg-gradient-to-br from-red-50 to-orange-50 p-4">
+                        <AlertTriangle className="w-12 h-12 mb-2 text-red-500" />
+                        <div className="text-red-600 font-medium text-center text-sm">{selectedItem.error}</div>
+                      </div>
                     ) : compressedPreview ? (
                       <img src={compressedPreview} alt="Compressed" className="w-full h-auto max-h-64 object-contain" />
+                    ) : selectedItem && !BatchQueue.isFinished(selectedItem) ? (
+                      <div className="w-full h-64 flex flex-col items-center justify-center bg-gradient-to-br from-blue-100 to-green-100">
+                        <Clock className="w-12 h-12 mb-2 text-blue-400" />
+                        <div className="text-gray-600 font-medium">処理待ちです</div>
+                      </div>
                     ) : (
                       <div className="w-full h-64 flex flex-col items-center justify-center bg-gradient-to-br from-blue-100 to-green-100">
                         <div className="w-12 h-12 mb-2 rounded-full bg-gradient-to-r from-blue-500 to-green-500"></div>
@@ -794,12 +1755,81 @@ export function ImageOptimizer() {
                   </div>
                   {compressedBlob && (
                     <p className="text-xs font-medium text-green-600 mt-2">
-                      {formatFileSize(compressedBlob.size)} | {fileType === 'image' ? 'JPEG' : 'PDF'}
+                      {formatFileSize(compressedBlob.size)} | {OutputFormatResolver.getLabel(compressedBlob.type)}
+                      {paletteColors && ` | ${paletteColors}色に減色`}
                     </p>
                   )}
+                  {targetReport && (
+                    <p className={`text-xs font-medium mt-1 ${targetReport.fitted ? 'text-indigo-600' : 'text-orange-600'}`}>
+                      {targetReport.fitted ? '🎯' : '⚠️'} 目標 {formatFileSize(targetReport.targetBytes)}
+                      {targetReport.fitted ? ' に収まりました' : ' に収まりませんでした（最小の結果を表示）'}
+                      ：画質 {targetReport.quality}% / 縮小率 {Math.round(targetReport.scale * 100)}% / 試行 {targetReport.passes}回
+                    </p>
+                  )}
+                  {optimizeStats && (
+                    <p className="text-xs font-medium text-indigo-600 mt-1">
+                      📄 テキストを保持: 画像 {optimizeStats.images}個中 {optimizeStats.recompressed}個を再圧縮
+                      {optimizeStats.duplicates > 0 && ` / 重複データ ${optimizeStats.duplicates}件を統合`}
+                      {optimizeStats.removedActiveContent > 0 && ` / アクティブコンテンツ ${optimizeStats.removedActiveContent}件を除去`}
+                    </p>
+                  )}
+                  {selectedItem?.pdfReport && selectedItem.status === 'done' && (
+                    <PdfCompressionReport report={selectedItem.pdfReport} />
+                  )}
+                  {selectedItem && pdfPages && pdfPages.length > 0 && (
+                    <div className="mt-3 max-h-48 overflow-y-auto rounded-xl border border-indigo-100 bg-white/70">
+                      {pdfPages.map((page) => (
+                        <div key={page.pageNumber} className="flex items-center gap-3 px-3 py-1.5 text-xs border-b border-indigo-50 last:border-b-0">
+                          <span className="w-16 font-bold text-indigo-700">ページ {page.pageNumber}</span>
+                          <span className="text-slate-500">{page.width}×{page.height}px</span>
+                          <span className="ml-auto font-medium text-green-600">{formatFileSize(page.bytes)}</span>
+                          <div className="flex gap-1">
+                            {([['color', 'カラー'], ['grayscale', '白黒']] as const).map(([mode, label]) => (
+                              <button
+                                key={mode}
+                                onClick={() => handlePageColorModeChange(selectedItem.id, page.pageNumber, mode)}
+                                disabled={isProcessing}
+                                className={`px-2 py-0.5 rounded-full font-bold border transition-colors ${
+                                  page.colorMode === mode
+                                    ? 'bg-indigo-500 text-white border-transparent'
+                                    : 'bg-white text-indigo-600 border-indigo-200 hover:bg-indigo-50'
+                                } disabled:opacity-50`}
+                              >
+                                {label}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {selectedItem?.encrypted && selectedItem.status === 'done' && (
+                    <p className="text-xs font-medium text-amber-600 mt-1">
+                      🔓 暗号化されたPDFから作った出力ファイルには、パスワード・権限の設定はありません
+                    </p>
+                  )}
+                  {sizeGuardNotice && (
+                    <p className="text-xs font-medium text-teal-600 mt-1">
+                      🛟 {sizeGuardNotice}
+                      {sizeGuard?.rejectedSize !== undefined && `（設定どおりの結果: ${formatFileSize(sizeGuard.rejectedSize)}）`}
+                    </p>
+                  )}
+                  {formatNotice && (
+                    <p className="text-xs font-medium text-orange-600 mt-1">⚠️ {formatNotice}</p>
+                  )}
                 </div>
               </div>
 
+              {/* PDFの比較プレビュー */}
+              {selectedItem?.fileType === 'pdf' && selectedItem.status === 'done' && compressedBlob && (
+                <PdfCompareViewer
+                  original={selectedItem.file}
+                  compressed={compressedBlob}
+                  pageOrder={selectedItem.pageOrder}
+                  password={selectedItem.password}
+                />
+              )}
+
               {/* アクションボタン */}
               <div className="flex flex-wrap gap-3 mb-6">
                 <button
@@ -810,6 +1840,26 @@ export function ImageOptimizer() {
                   <Download className="w-4 h-4" />
                   ダウンロード
                 </button>
+                {completedCount > 1 && (
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={handleDownloadAll}
+                      disabled={isArchiving}
+                      className="bg-gradient-to-r from-indigo-500 to-purple-500 hover:from-indigo-600 hover:to-purple-600 disabled:from-gray-400 disabled:to-gray-400 text-white px-6 py-3 rounded-xl transition-all duration-200 flex items-center gap-2 font-bold shadow-lg hover:shadow-xl transform hover:scale-105 disabled:transform-none disabled:hover:scale-100"
+                    >
+                      <Archive className="w-4 h-4" />
+                      {isArchiving ? 'ZIP作成中...' : `すべてZIPでダウンロード（${completedCount}件）`}
+                    </button>
+                    <label className="flex items-center gap-2 text-xs font-medium text-slate-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={includeManifest}
+                        onChange={(e) => setIncludeManifest(e.target.checked)}
+                      />
+                      マニフェストを含める
+                    </label>
+                  </div>
+                )}
                 <button
                   onClick={handleReset}
                   className="border-2 border-orange-300 bg-gradient-to-r from-orange-100 to-yellow-100 hover:from-orange-200 hover:to-yellow-200 text-orange-700 px-6 py-3 rounded-xl transition-all duration-200 flex items-center gap-2 font-bold shadow-lg hover:shadow-xl transform hover:scale-105"
@@ -819,6 +1869,90 @@ export function ImageOptimizer() {
                 </button>
               </div>
 
+              {/* 画像をPDFにまとめる */}
+              {completedImages.length > 0 && (
+                <div className="mb-6 p-4 rounded-2xl border-2 border-rose-100 bg-gradient-to-br from-rose-50 to-orange-50">
+                  <h3 className="text-sm font-bold bg-gradient-to-r from-rose-600 to-orange-600 bg-clip-text text-transparent mb-3 flex items-center gap-2">
+                    <FileText className="w-4 h-4 text-rose-500" />
+                    画像をPDFにまとめる（{completedImages.length}枚・一覧の順に1ページずつ）
+                  </h3>
+                  <div className="grid md:grid-cols-3 gap-4 mb-4">
+                    <div>
+                      <div className="text-xs font-bold text-rose-700 mb-2">用紙サイズ</div>
+                      <div className="flex flex-wrap gap-2">
+                        {(Object.keys(IMAGE_PDF_PAGE_SIZE_LABELS) as (keyof typeof IMAGE_PDF_PAGE_SIZE_LABELS)[]).map((size) => (
+                          <button
+                            key={size}
+                            onClick={() => setImagePdfOptions(prev => ({ ...prev, pageSize: size }))}
+                            className={`px-3 py-1 rounded-full text-xs font-bold border-2 transition-all duration-200 ${
+                              imagePdfOptions.pageSize === size
+                                ? 'bg-gradient-to-r from-rose-500 to-orange-500 text-white border-transparent'
+                                : 'bg-white/70 text-rose-700 border-rose-200 hover:bg-rose-50'
+                            }`}
+                          >
+                            {IMAGE_PDF_PAGE_SIZE_LABELS[size]}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs font-bold text-rose-700 mb-2">向き</div>
+                      <div className="flex flex-wrap gap-2">
+                        {(Object.keys(IMAGE_PDF_ORIENTATION_LABELS) as (keyof typeof IMAGE_PDF_ORIENTATION_LABELS)[]).map((orientation) => (
+                          <button
+                            key={orientation}
+                            onClick={() => setImagePdfOptions(prev => ({ ...prev, orientation }))}
+                            disabled={imagePdfOptions.pageSize === 'fit'}
+                            className={`px-3 py-1 rounded-full text-xs font-bold border-2 transition-all duration-200 disabled:opacity-40 ${
+                              imagePdfOptions.orientation === orientation
+                                ? 'bg-gradient-to-r from-rose-500 to-orange-500 text-white border-transparent'
+                                : 'bg-white/70 text-rose-700 border-rose-200 hover:bg-rose-50'
+                            }`}
+                          >
+                            {IMAGE_PDF_ORIENTATION_LABELS[orientation]}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs font-bold text-rose-700 mb-2">余白</div>
+                      <div className="flex flex-wrap gap-2">
+                        {IMAGE_PDF_MARGIN_OPTIONS.map((marginMm) => (
+                          <button
+                            key={marginMm}
+                            onClick={() => setImagePdfOptions(prev => ({ ...prev, marginMm }))}
+                            className={`px-3 py-1 rounded-full text-xs font-bold border-2 transition-all duration-200 ${
+                              imagePdfOptions.marginMm === marginMm
+                                ? 'bg-gradient-to-r from-rose-500 to-orange-500 text-white border-transparent'
+                                : 'bg-white/70 text-rose-700 border-rose-200 hover:bg-rose-50'
+                            }`}
+                          >
+                            {marginMm === 0 ? 'なし' : `${marginMm}mm`}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                  <button
+                    onClick={handleCreateImagePdf}
+                    disabled={imagePdfProgress !== null}
+                    className="bg-gradient-to-r from-rose-500 to-orange-500 hover:from-rose-600 hover:to-orange-600 disabled:from-gray-400 disabled:to-gray-400 text-white px-6 py-3 rounded-xl transition-all duration-200 flex items-center gap-2 font-bold shadow-lg hover:shadow-xl transform hover:scale-105 disabled:transform-none disabled:hover:scale-100"
+                  >
+                    <Download className="w-4 h-4" />
+                    {imagePdfProgress ?? `PDFを作成してダウンロード（${completedImages.length}ページ）`}
+                  </button>
+                  {imagePdfError && (
+                    <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-xs text-red-700">
+                      <AlertTriangle className="w-4 h-4 text-red-500" />
+                      <span className="break-all">PDFを作成できませんでした: {imagePdfError}</span>
+                    </div>
+                  )}
+                  <p className="text-xs text-slate-500 mt-2">
+                    各画像は現在の画質・リサイズ設定で圧縮してから配置します（透過PNGはPNGのまま）。
+                  </p>
+                </div>
+              )}
+
               {/* セキュリティスキャン結果表示 */}
               {compressedBlob && (
                 <div className="mb-6">
@@ -837,6 +1971,43 @@ export function ImageOptimizer() {
                       </div>
                     </div>
                     
+                    {selectedItem?.activeContent && selectedItem.activeContent.length > 0 && (
+                      <div className="mt-3 p-3 bg-orange-50 border border-orange-200 rounded-lg">
+                        <div className="flex items-center gap-2 mb-2">
+                          <AlertTriangle className="w-4 h-4 text-orange-600" />
+                          <span className="font-bold text-orange-700">
+                            PDFのアクティブコンテンツ（{selectedItem.activeContent.length}件）
+                          </span>
+                          {selectedItem.pages ? (
+                            <span className="ml-auto text-xs font-bold text-green-600">画像化したため出力には含まれません</span>
+                          ) : (selectedItem.optimizeStats?.removedActiveContent ?? 0) > 0 && (
+                            <span className="ml-auto text-xs font-bold text-green-600">出力から除去済み</span>
+                          )}
+                        </div>
+                        <ul className="text-xs text-orange-700 space-y-1 max-h-40 overflow-y-auto">
+                          {selectedItem.activeContent.map((element, index) => (
+                            <li key={index} className="break-all">
+                              • {PDF_ACTIVE_CONTENT_LABELS[element.kind]}（{element.location}）
+                              {element.detail && <span className="text-orange-500">: {element.detail}</span>}
+                            </li>
+                          ))}
+                        </ul>
+                        {!removeActiveContent && !selectedItem.pages && (
+                          <p className="text-xs text-slate-500 mt-2">
+                            「PDFの圧縮方法」で取り除く設定にすると、これらを除去したPDFを出力します。
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {selectedItem?.appendedData && (
+                      <AppendedDataNotice
+                        report={selectedItem.appendedData}
+                        fileSize={selectedItem.file.size}
+                        onDownloadStripped={handleDownloadStripped}
+                      />
+                    )}
+
                     {scanResults.warnings.length > 0 && (
                       <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
                         <div className="flex items-center gap-2 mb-2">
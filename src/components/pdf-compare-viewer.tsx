@@ -0,0 +1,304 @@
+"use client";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { ChevronLeft, ChevronRight, Loader2, ZoomIn, ZoomOut } from "lucide-react";
+import { PdfRenderer } from '@/lib/pdf-renderer';
+
+interface PdfCompareViewerProps {
+  original: Blob;
+  compressed: Blob;
+  // 出力の各ページに対応する元のページ番号（未指定なら同じ番号）
+  pageOrder?: number[];
+  // 暗号化された元のPDFを開くパスワード
+  password?: string;
+}
+
+interface RenderedPage {
+  url: string;
+  // 表示する幅（CSSピクセル）
+  width: number;
+}
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.5, 2, 3];
+const DEFAULT_ZOOM_INDEX = 2;
+const THUMBNAIL_WIDTH = 56;
+// CSSの1px = 1/96インチ、PDFの1pt = 1/72インチ
+const CSS_PIXELS_PER_POINT = 96 / 72;
+// 拡大時に描画するピクセル数の上限（メモリを使い切らないように）
+const MAX_RENDER_PIXELS = 16 * 1000 * 1000;
+
+/**
+ * PDFを pdf.js で開き、表示している間だけ保持する
+ */
+function usePdfDocument(data: Blob, password?: string): { pdf: PDFDocumentProxy | null, error: boolean } {
+  const [state, setState] = useState<{ pdf: PDFDocumentProxy | null, error: boolean }>({ pdf: null, error: false });
+
+  useEffect(() => {
+    let opened: PDFDocumentProxy | null = null;
+    let cancelled = false;
+    setState({ pdf: null, error: false });
+
+    data.arrayBuffer()
+      .then(buffer => PdfRenderer.open(buffer, password))
+      .then((pdf) => {
+        if (cancelled) {
+          void pdf.destroy();
+          return;
+        }
+        opened = pdf;
+        setState({ pdf, error: false });
+      })
+      .catch((error) => {
+        console.warn('Failed to open PDF for preview:', error);
+        if (!cancelled) setState({ pdf: null, error: true });
+      });
+
+    return () => {
+      cancelled = true;
+      void opened?.destroy();
+    };
+  }, [data, password]);
+
+  return state;
+}
+
+/**
+ * ページを描画して画像URLにする（ページ番号が範囲外なら null）
+ */
+async function renderPage(pdf: PDFDocumentProxy, pageNumber: number, zoom: number): Promise<RenderedPage | null> {
+  if (pageNumber < 1 || pageNumber > pdf.numPages) {
+    return null;
+  }
+
+  const page = await pdf.getPage(pageNumber);
+  const { width, height } = page.getViewport({ scale: 1 });
+  page.cleanup();
+
+  // 高解像度ディスプレイでもにじまないよう、画面の画素密度に合わせて描画する
+  const displayScale = zoom * CSS_PIXELS_PER_POINT;
+  const pixelRatio = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+  const renderScale = Math.min(displayScale * pixelRatio, Math.sqrt(MAX_RENDER_PIXELS / (width * height)));
+
+  // 圧縮による劣化をそのまま確認できるよう、可逆のPNGで表示する
+  const { blob } = await PdfRenderer.renderPageImage(pdf, pageNumber, renderScale, 'image/png');
+  return { url: URL.createObjectURL(blob), width: width * displayScale };
+}
+
+function revoke(pages: (RenderedPage | null)[]) {
+  pages.forEach(page => {
+    if (page) URL.revokeObjectURL(page.url);
+  });
+}
+
+export function PdfCompareViewer({ original, compressed, pageOrder, password }: PdfCompareViewerProps) {
+  const { pdf: originalPdf, error: originalError } = usePdfDocument(original, password);
+  const { pdf: compressedPdf, error: compressedError } = usePdfDocument(compressed);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [zoomIndex, setZoomIndex] = useState(DEFAULT_ZOOM_INDEX);
+  const [pages, setPages] = useState<{ original: RenderedPage | null, compressed: RenderedPage | null } | null>(null);
+  const [thumbnails, setThumbnails] = useState<{ original: string[], compressed: string[] }>({ original: [], compressed: [] });
+  const originalPaneRef = useRef<HTMLDivElement>(null);
+  const compressedPaneRef = useRef<HTMLDivElement>(null);
+
+  const pageCount = compressedPdf?.numPages ?? 0;
+  const zoom = ZOOM_LEVELS[zoomIndex];
+  // 出力のページ番号（1から）に対応する元のページ番号
+  const originalPageNumber = useCallback((index: number) => pageOrder?.[index] ?? index + 1, [pageOrder]);
+
+  // 出力が変わったら先頭のページに戻す
+  useEffect(() => {
+    setPageIndex(0);
+  }, [compressed]);
+
+  // ページ送り用のサムネイル（元と圧縮後を並べて表示）
+  useEffect(() => {
+    if (!originalPdf || !compressedPdf) return;
+    let cancelled = false;
+    const created: string[] = [];
+    setThumbnails({ original: [], compressed: [] });
+
+    (async () => {
+      for (let i = 0; i < compressedPdf.numPages && !cancelled; i++) {
+        for (const [key, pdf, pageNumber] of [
+          ['original', originalPdf, originalPageNumber(i)],
+          ['compressed', compressedPdf, i + 1]
+        ] as const) {
+          if (pageNumber > pdf.numPages) continue;
+          const page = await pdf.getPage(pageNumber);
+          const scale = THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width;
+          page.cleanup();
+          const { blob } = await PdfRenderer.renderPageImage(pdf, pageNumber, scale, 'image/jpeg', 0.7);
+          if (cancelled) return;
+          const url = URL.createObjectURL(blob);
+          created.push(url);
+          setThumbnails(prev => {
+            const next = [...prev[key]];
+            next[i] = url;
+            return { ...prev, [key]: next };
+          });
+        }
+      }
+    })().catch(error => console.warn('Failed to render preview thumbnails:', error));
+
+    return () => {
+      cancelled = true;
+      created.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [originalPdf, compressedPdf, originalPageNumber]);
+
+  // 選択中のページを現在の倍率で描画
+  useEffect(() => {
+    if (!originalPdf || !compressedPdf) return;
+    let cancelled = false;
+    let rendered: (RenderedPage | null)[] = [];
+    setPages(null);
+
+    Promise.all([
+      renderPage(originalPdf, originalPageNumber(pageIndex), zoom),
+      renderPage(compressedPdf, pageIndex + 1, zoom)
+    ]).then(([originalPage, compressedPage]) => {
+      rendered = [originalPage, compressedPage];
+      if (cancelled) {
+        revoke(rendered);
+        return;
+      }
+      setPages({ original: originalPage, compressed: compressedPage });
+    }).catch(error => console.warn('Failed to render preview page:', error));
+
+    return () => {
+      cancelled = true;
+      revoke(rendered);
+    };
+  }, [originalPdf, compressedPdf, pageIndex, zoom, originalPageNumber]);
+
+  // 左右の表示位置をそろえる
+  const syncScroll = (source: HTMLDivElement | null, target: HTMLDivElement | null) => {
+    if (!source || !target) return;
+    target.scrollTop = source.scrollTop;
+    target.scrollLeft = source.scrollLeft;
+  };
+
+  if (originalError || compressedError) {
+    return (
+      <p className="text-xs font-medium text-orange-600 mb-6">⚠️ PDFのプレビューを表示できませんでした</p>
+    );
+  }
+
+  const renderPane = (
+    label: string,
+    page: RenderedPage | null | undefined,
+    paneRef: React.RefObject<HTMLDivElement | null>,
+    otherRef: React.RefObject<HTMLDivElement | null>,
+    borderClass: string
+  ) => (
+    <div>
+      <div className="text-xs font-bold text-slate-600 mb-1">{label}</div>
+      <div
+        ref={paneRef}
+        onScroll={() => syncScroll(paneRef.current, otherRef.current)}
+        className={`h-[28rem] overflow-auto rounded-xl border-2 ${borderClass} bg-slate-100`}
+      >
+        {page ? (
+          <img
+            src={page.url}
+            alt={label}
+            style={{ width: page.width, maxWidth: 'none' }}
+            className="mx-auto bg-white shadow"
+          />
+        ) : (
+          <div className="h-full flex items-center justify-center text-slate-400">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="mb-6 p-4 rounded-2xl border-2 border-teal-100 bg-white/70">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="text-sm font-bold bg-gradient-to-r from-teal-600 to-blue-600 bg-clip-text text-transparent">
+          PDFのプレビュー（元 / 圧縮後）
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setPageIndex(index => Math.max(0, index - 1))}
+            disabled={pageIndex === 0}
+            className="p-1 rounded-lg border-2 border-teal-200 text-teal-700 disabled:opacity-40"
+            aria-label="前のページ"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="text-xs font-bold text-teal-700 min-w-20 text-center">
+            {pageCount > 0 ? `${pageIndex + 1} / ${pageCount}ページ` : '読み込み中...'}
+          </span>
+          <button
+            onClick={() => setPageIndex(index => Math.min(pageCount - 1, index + 1))}
+            disabled={pageIndex >= pageCount - 1}
+            className="p-1 rounded-lg border-2 border-teal-200 text-teal-700 disabled:opacity-40"
+            aria-label="次のページ"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <span className="w-px h-5 bg-teal-200 mx-1" />
+          <button
+            onClick={() => setZoomIndex(index => Math.max(0, index - 1))}
+            disabled={zoomIndex === 0}
+            className="p-1 rounded-lg border-2 border-teal-200 text-teal-700 disabled:opacity-40"
+            aria-label="縮小"
+          >
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setZoomIndex(DEFAULT_ZOOM_INDEX)}
+            className="text-xs font-bold text-teal-700 min-w-12 text-center"
+            title="100%に戻す"
+          >
+            {Math.round(zoom * 100)}%
+          </button>
+          <button
+            onClick={() => setZoomIndex(index => Math.min(ZOOM_LEVELS.length - 1, index + 1))}
+            disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+            className="p-1 rounded-lg border-2 border-teal-200 text-teal-700 disabled:opacity-40"
+            aria-label="拡大"
+          >
+            <ZoomIn className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* ページ送り */}
+      <div className="flex gap-2 overflow-x-auto pb-2 mb-3">
+        {Array.from({ length: pageCount }, (_, index) => (
+          <button
+            key={index}
+            onClick={() => setPageIndex(index)}
+            className={`shrink-0 p-1 rounded-lg border-2 transition-colors duration-150 ${
+              index === pageIndex ? 'border-teal-500 bg-teal-50' : 'border-slate-200 bg-white hover:bg-teal-50'
+            }`}
+          >
+            <div className="flex gap-1">
+              {[thumbnails.original[index], thumbnails.compressed[index]].map((url, side) => (
+                url ? (
+                  <img key={side} src={url} alt="" style={{ width: THUMBNAIL_WIDTH / 2 }} className="h-auto border border-slate-200" />
+                ) : (
+                  <div key={side} style={{ width: THUMBNAIL_WIDTH / 2 }} className="aspect-[3/4] bg-slate-100 animate-pulse" />
+                )
+              ))}
+            </div>
+            <div className="text-[10px] font-bold text-slate-600 mt-0.5">{index + 1}</div>
+          </button>
+        ))}
+      </div>
+
+      {/* 同じページを並べて比較 */}
+      <div className="grid md:grid-cols-2 gap-3">
+        {renderPane(`元（${originalPageNumber(pageIndex)}ページ目）`, pages?.original, originalPaneRef, compressedPaneRef, 'border-gray-200')}
+        {renderPane('圧縮後', pages?.compressed, compressedPaneRef, originalPaneRef, 'border-green-200')}
+      </div>
+      <p className="text-xs text-slate-500 mt-2">
+        左右はスクロール位置が連動します。拡大して文字や図がつぶれていないか確認してからダウンロードしてください。
+      </p>
+    </div>
+  );
+}
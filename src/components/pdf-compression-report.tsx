@@ -0,0 +1,66 @@
+"use client";
+import React from "react";
+import {
+  PDF_OUTPUT_METHOD_LABELS,
+  PDF_PAGE_STATUS_LABELS,
+  PDF_STRATEGY_LABELS,
+  type PdfCompressionReport as PdfCompressionReportData,
+  type PdfPageStatus
+} from '@/lib/pdf-compressor';
+
+interface PdfCompressionReportProps {
+  report: PdfCompressionReportData;
+}
+
+const STATUS_CLASSES: Record<PdfPageStatus, string> = {
+  rasterized: 'text-indigo-600',
+  optimized: 'text-green-600',
+  unchanged: 'text-slate-500',
+  copied: 'text-orange-600'
+};
+
+export function PdfCompressionReport({ report }: PdfCompressionReportProps) {
+  const notCompressed = report.method === 'resave' || report.method === 'original';
+  const switched = (report.method === 'structure' || report.method === 'rasterize') && report.method !== report.requested;
+
+  return (
+    <div className="mt-1 text-xs">
+      <p className={`font-medium ${notCompressed ? 'text-orange-600' : 'text-indigo-600'}`}>
+        ⚙️ 出力の方法: {PDF_OUTPUT_METHOD_LABELS[report.method]}
+        {switched && `（指定: ${PDF_STRATEGY_LABELS[report.requested]}）`}
+      </p>
+
+      {report.method === 'resave' && (
+        <div className="mt-1 p-2 rounded-lg border border-orange-200 bg-orange-50 text-orange-700">
+          <p className="font-bold">⚠️ このPDFは圧縮されていません</p>
+          {report.fallbackError && (
+            <p className="mt-0.5 break-all">原因: {report.fallbackError}</p>
+          )}
+        </div>
+      )}
+
+      {report.warnings.length > 0 && (
+        <ul className="mt-1 space-y-0.5 text-orange-600">
+          {report.warnings.map((warning, index) => (
+            <li key={index}>⚠️ {warning}</li>
+          ))}
+        </ul>
+      )}
+
+      {report.pages.length > 0 && (
+        <details className="mt-1">
+          <summary className="cursor-pointer font-medium text-slate-600">ページごとの結果（{report.pages.length}ページ）</summary>
+          <div className="mt-1 max-h-40 overflow-y-auto rounded-xl border border-slate-100 bg-white/70">
+            {report.pages.map((page, index) => (
+              <div key={index} className="flex items-center gap-3 px-3 py-1 border-b border-slate-50 last:border-b-0">
+                <span className="w-16 shrink-0 font-bold text-slate-700">ページ {page.pageNumber}</span>
+                <span className={`w-28 shrink-0 font-bold ${STATUS_CLASSES[page.status]}`}>{PDF_PAGE_STATUS_LABELS[page.status]}</span>
+                {page.detail && <span className="text-slate-500 break-all">{page.detail}</span>}
+              </div>
+            ))}
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
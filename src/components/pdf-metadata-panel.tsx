@@ -0,0 +1,122 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { Eraser, RotateCcw, Tags } from "lucide-react";
+import {
+  PDF_METADATA_FIELDS,
+  type PdfMetadataField,
+  type PdfMetadataReport,
+  type PdfMetadataValues
+} from '@/lib/pdf-metadata';
+
+interface PdfMetadataPanelProps {
+  // 元のPDFから読み取った文書情報（暗号化されたPDFなどで読めなかった場合は undefined）
+  report?: PdfMetadataReport;
+  // 出力に設定している文書情報（undefined は書き換えない）
+  values?: PdfMetadataValues;
+  onApply: (values: PdfMetadataValues | undefined) => void;
+}
+
+const FIELDS = Object.entries(PDF_METADATA_FIELDS) as [PdfMetadataField, string][];
+
+export function PdfMetadataPanel({ report, values, onApply }: PdfMetadataPanelProps) {
+  const current = values ?? report?.info ?? {};
+  const [draft, setDraft] = useState<PdfMetadataValues>(current);
+
+  // 適用・元に戻した結果を入力欄にも反映
+  const currentKey = JSON.stringify(current);
+  useEffect(() => {
+    setDraft(JSON.parse(currentKey));
+  }, [currentKey]);
+
+  const changed = FIELDS.some(([field]) => (draft[field] ?? '') !== (current[field] ?? ''));
+
+  return (
+    <div className="mb-6 p-4 rounded-2xl border-2 border-violet-100 bg-gradient-to-br from-violet-50 to-fuchsia-50">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="text-sm font-bold bg-gradient-to-r from-violet-600 to-fuchsia-600 bg-clip-text text-transparent flex items-center gap-2">
+          <Tags className="w-4 h-4 text-violet-500" />
+          文書情報（メタデータ）
+        </h3>
+        <span className={`text-xs font-bold px-2 py-0.5 rounded-full ${
+          values ? 'bg-violet-500 text-white' : 'bg-white text-violet-600 border border-violet-200'
+        }`}>
+          {values ? '出力で書き換え' : '書き換えなし'}
+        </span>
+      </div>
+
+      {!report && (
+        <p className="text-xs text-amber-600 mb-3">
+          暗号化されたPDFなどのため、元の文書情報を読み取れませんでした。入力した値は出力に設定されます。
+        </p>
+      )}
+
+      <div className="grid sm:grid-cols-2 gap-3">
+        {FIELDS.map(([field, label]) => {
+          const original = report?.info[field];
+          return (
+            <label key={field} className="block">
+              <span className="text-xs font-bold text-slate-600">{label}</span>
+              <input
+                type="text"
+                value={draft[field] ?? ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, [field]: e.target.value }))}
+                placeholder="（なし）"
+                className="mt-1 w-full px-3 py-1.5 rounded-lg border-2 border-violet-200 bg-white text-slate-700 text-sm"
+              />
+              {values && original && original !== (values[field] ?? '') && (
+                <span className="block mt-0.5 text-[11px] text-slate-400 truncate" title={original}>元: {original}</span>
+              )}
+            </label>
+          );
+        })}
+      </div>
+
+      {report?.xmp && (
+        <details className="mt-3 text-xs">
+          <summary className="cursor-pointer font-bold text-violet-700">
+            XMPメタデータ（{report.xmp.properties.length}項目 / {Math.ceil(report.xmp.bytes / 1024)}KB）
+            {values && ' — 出力では削除'}
+          </summary>
+          <div className="mt-2 max-h-48 overflow-y-auto rounded-xl border border-violet-100 bg-white/70">
+            {report.xmp.properties.map((property, index) => (
+              <div key={index} className="flex gap-3 px-3 py-1 border-b border-violet-50 last:border-b-0">
+                <span className="w-40 shrink-0 font-mono text-violet-700 truncate">{property.name}</span>
+                <span className="text-slate-600 break-all">{property.value}</span>
+              </div>
+            ))}
+          </div>
+        </details>
+      )}
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        <button
+          onClick={() => onApply(draft)}
+          disabled={!changed && values !== undefined}
+          className="px-4 py-1.5 rounded-lg text-sm font-bold text-white bg-gradient-to-r from-violet-500 to-fuchsia-500 shadow disabled:opacity-50"
+        >
+          出力に適用
+        </button>
+        <button
+          onClick={() => onApply({})}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-bold text-violet-700 bg-white border-2 border-violet-200 hover:bg-violet-50"
+        >
+          <Eraser className="w-4 h-4" />
+          すべて消去
+        </button>
+        {values && (
+          <button
+            onClick={() => onApply(undefined)}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-bold text-slate-600 hover:text-slate-800"
+          >
+            <RotateCcw className="w-4 h-4" />
+            書き換えをやめる
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-slate-500 mt-2">
+        適用すると、どの圧縮方法の出力にもこの値を設定し、空欄の項目とXMPメタデータは削除します。
+        書き換えない場合、「ページを画像化」の出力には元の文書情報は引き継がれません。
+      </p>
+    </div>
+  );
+}
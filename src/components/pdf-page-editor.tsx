@@ -0,0 +1,158 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { GripVertical, RotateCcw, Trash2 } from "lucide-react";
+import { PageRange } from '@/lib/page-range';
+
+interface PdfPageEditorProps {
+  pageCount: number;
+  // ページごとのサムネイルURL（添字はページ番号 - 1、描画中は undefined）
+  thumbnails: (string | undefined)[];
+  // 出力するページの並び（undefined は全ページをそのままの順で出力）
+  pageOrder?: number[];
+  disabled?: boolean;
+  onChange: (pageOrder: number[] | undefined) => void;
+}
+
+export function PdfPageEditor({ pageCount, thumbnails, pageOrder, disabled, onChange }: PdfPageEditorProps) {
+  const order = pageOrder ?? Array.from({ length: pageCount }, (_, i) => i + 1);
+  const [rangeInput, setRangeInput] = useState(PageRange.format(order));
+  const [rangeError, setRangeError] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // 並べ替え・削除の結果を入力欄にも反映
+  const orderKey = order.join(',');
+  useEffect(() => {
+    setRangeInput(PageRange.format(orderKey.split(',').map(Number)));
+    setRangeError(null);
+  }, [orderKey]);
+
+  // 全ページをそのままの順で出力する場合は指定なしとして扱う
+  const commit = (next: number[]) => {
+    const isDefault = next.length === pageCount && next.every((page, i) => page === i + 1);
+    onChange(isDefault ? undefined : next);
+  };
+
+  const applyRange = () => {
+    const result = PageRange.parse(rangeInput, pageCount);
+    if (!result.valid) {
+      setRangeError(result.error ?? 'ページ範囲が正しくありません');
+      return;
+    }
+    setRangeError(null);
+    commit(result.pages);
+  };
+
+  const removePage = (index: number) => {
+    if (order.length <= 1) return;
+    commit(order.filter((_, i) => i !== index));
+  };
+
+  const movePage = (from: number, to: number) => {
+    if (from === to) return;
+    const next = [...order];
+    const [page] = next.splice(from, 1);
+    next.splice(to, 0, page);
+    commit(next);
+  };
+
+  return (
+    <div className="mb-6 p-4 rounded-2xl border-2 border-indigo-100 bg-white/70">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="text-sm font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent">
+          出力するページ（{order.length} / {pageCount}ページ）
+        </h3>
+        {pageOrder && (
+          <button
+            onClick={() => onChange(undefined)}
+            disabled={disabled}
+            className="flex items-center gap-1 text-xs font-bold text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+          >
+            <RotateCcw className="w-3 h-3" />
+            全ページに戻す
+          </button>
+        )}
+      </div>
+
+      {/* ページ範囲の入力 */}
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={rangeInput}
+          onChange={(e) => setRangeInput(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') applyRange(); }}
+          placeholder="例: 1-3,7,10-"
+          disabled={disabled}
+          className="flex-1 min-w-40 px-3 py-2 rounded-lg border-2 border-purple-200 bg-white text-slate-700 font-bold text-sm"
+        />
+        <button
+          onClick={applyRange}
+          disabled={disabled}
+          className="px-4 py-2 rounded-lg text-sm font-bold text-white bg-gradient-to-r from-indigo-500 to-purple-500 shadow disabled:opacity-50"
+        >
+          適用
+        </button>
+      </div>
+      {rangeError ? (
+        <p className="text-xs font-medium text-red-600 mt-1">{rangeError}</p>
+      ) : (
+        <p className="text-xs text-slate-500 mt-1">
+          「10-」は10ページ目から最後まで。サムネイルはドラッグで並べ替え、ゴミ箱で削除できます。
+        </p>
+      )}
+
+      {/* サムネイル */}
+      <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3 mt-4 max-h-96 overflow-y-auto">
+        {order.map((pageNumber, index) => (
+          <div
+            key={pageNumber}
+            draggable={!disabled}
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropIndex(index);
+            }}
+            onDragLeave={() => setDropIndex(prev => prev === index ? null : prev)}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (dragIndex !== null) movePage(dragIndex, index);
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            className={`relative group rounded-lg border-2 bg-white p-1 transition-all duration-150 ${
+              dropIndex === index && dragIndex !== index ? 'border-purple-500 scale-105' : 'border-slate-200'
+            } ${dragIndex === index ? 'opacity-40' : ''} ${disabled ? '' : 'cursor-grab'}`}
+          >
+            {thumbnails[pageNumber - 1] ? (
+              <img
+                src={thumbnails[pageNumber - 1]}
+                alt={`ページ ${pageNumber}`}
+                className="w-full h-auto rounded pointer-events-none select-none"
+              />
+            ) : (
+              <div className="w-full aspect-[3/4] rounded bg-gradient-to-br from-indigo-50 to-purple-50 animate-pulse" />
+            )}
+            <div className="flex items-center justify-between mt-1 text-xs font-bold text-indigo-700">
+              <span className="flex items-center gap-0.5">
+                <GripVertical className="w-3 h-3 text-slate-400" />
+                {pageNumber}
+              </span>
+              <button
+                onClick={() => removePage(index)}
+                disabled={disabled || order.length <= 1}
+                title="このページを削除"
+                className="p-0.5 rounded text-slate-400 hover:text-red-500 disabled:opacity-30"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
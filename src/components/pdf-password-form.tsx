@@ -0,0 +1,53 @@
+"use client";
+import React, { useState } from "react";
+import { Lock, Unlock } from "lucide-react";
+
+interface PdfPasswordFormProps {
+  // パスワードが必要な理由（誤りの場合の説明を含む）
+  message?: string;
+  disabled?: boolean;
+  onSubmit: (password: string) => void;
+}
+
+export function PdfPasswordForm({ message, disabled, onSubmit }: PdfPasswordFormProps) {
+  const [password, setPassword] = useState('');
+
+  const submit = () => {
+    if (!password || disabled) return;
+    onSubmit(password);
+    setPassword('');
+  };
+
+  return (
+    <div className="w-full h-64 flex flex-col items-center justify-center gap-3 bg-gradient-to-br from-amber-50 to-yellow-50 p-4">
+      <Lock className="w-10 h-10 text-amber-500" />
+      {message && (
+        <div className="text-amber-700 font-medium text-center text-sm">{message}</div>
+      )}
+      <div className="flex items-center gap-2 w-full max-w-xs">
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') submit(); }}
+          placeholder="PDFのパスワード"
+          autoComplete="off"
+          disabled={disabled}
+          className="flex-1 min-w-0 px-3 py-2 rounded-lg border-2 border-amber-200 bg-white text-slate-700 text-sm"
+        />
+        <button
+          onClick={submit}
+          disabled={disabled || !password}
+          className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-bold text-white bg-gradient-to-r from-amber-500 to-orange-500 shadow disabled:opacity-50"
+        >
+          <Unlock className="w-4 h-4" />
+          解除
+        </button>
+      </div>
+      <p className="text-xs text-slate-500 text-center">
+        パスワードはこの端末内でPDFを開くためだけに使い、送信・保存しません。
+        保護されたPDFはページを画像化して圧縮し、出力にはパスワードを設定しません。
+      </p>
+    </div>
+  );
+}
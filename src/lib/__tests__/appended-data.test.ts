@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { AppendedDataDetector } from '@/lib/appended-data';
+import { FormatValidator } from '@/lib/format-validator';
+import { ZipWriter } from '@/lib/zip-writer';
+import { bytes, jpeg, jpegSegment, mpfJpeg, pdf, png } from './fixtures';
+
+const zip = async () => new Uint8Array(await ZipWriter.createZip([{ name: 'payload.txt', data: bytes('hello') }]).arrayBuffer());
+
+// 構造検証で求めた終端から調べる
+const inspect = (data: Uint8Array, mimeType: string) => {
+  const { end } = FormatValidator.validate(data, mimeType);
+  return AppendedDataDetector.inspect(data, mimeType, end ?? data.length);
+};
+
+describe('AppendedDataDetector.inspect', () => {
+  it('付加データのない画像は null', () => {
+    expect(inspect(png(), 'image/png')).toBeNull();
+    expect(inspect(jpeg(), 'image/jpeg')).toBeNull();
+  });
+
+  it('終端の後の空白・0埋めは付加データとして扱わない', () => {
+    expect(inspect(bytes(png(), '\r\n \t', new Uint8Array(64)), 'image/png')).toBeNull();
+  });
+
+  it('%%EOF の後に付加されたZIPを位置とサイズ付きで報告する', async () => {
+    const document = await pdf();
+    const archive = await zip();
+    const report = inspect(bytes(document, archive), 'application/pdf');
+
+    expect(report).toEqual({
+      offset: document.length,
+      size: archive.length,
+      containers: [{ format: 'ZIP', offset: document.length, removable: true }]
+    });
+  });
+
+  it('IENDの後に付加されたスクリプトを見つける', () => {
+    const image = png();
+    const report = inspect(bytes(image, '\n<script>alert(1)</script>'), 'image/png');
+    expect(report?.size).toBe(26);
+    expect(report?.containers).toEqual([{ format: 'スクリプト', offset: image.length + 1, removable: true }]);
+  });
+
+  it('MPFで宣言された画像は付加データとして扱わず、その後ろのデータだけを報告する', () => {
+    const data = mpfJpeg([jpeg()]);
+    expect(inspect(data, 'image/jpeg')).toBeNull();
+
+    const report = inspect(bytes(data, 'trailing'), 'image/jpeg');
+    expect(report).toEqual({ offset: data.length, size: 8, containers: [] });
+  });
+
+  it('シグネチャのない付加データも報告する', () => {
+    const image = jpeg();
+    const report = inspect(bytes(image, 'random bytes'), 'image/jpeg');
+    expect(report).toEqual({ offset: image.length, size: 12, containers: [] });
+  });
+
+  it('元のデータの内部から始まるZIPは切り詰めでは除けないものとして報告する', async () => {
+    // ZIPのエントリが画像の内部にあり、セントラルディレクトリと終端レコードだけが終端の後にある場合
+    const image = png();
+    const archive = await zip();
+    const data = bytes(image, archive);
+    const end = image.length + 10;
+    const report = AppendedDataDetector.inspect(data, 'image/png', end);
+
+    expect(report?.offset).toBe(end);
+    expect(report?.containers).toContainEqual({ format: 'ZIP', offset: image.length, removable: false });
+  });
+
+  it('先頭1024バイト以内のPDFヘッダーをポリグロットとして報告する', () => {
+    const image = jpeg(1, 1, [jpegSegment(0xFE, '%PDF-1.4 polyglot')]);
+    const report = inspect(image, 'image/jpeg');
+    expect(report?.containers).toEqual([{ format: 'PDF', offset: expect.any(Number), removable: false }]);
+  });
+
+  it('1024バイトより後のPDFヘッダーは報告しない', () => {
+    const image = jpeg(1, 1, [jpegSegment(0xFE, new Uint8Array(1100)), jpegSegment(0xFE, '%PDF-1.4')]);
+    expect(inspect(image, 'image/jpeg')).toBeNull();
+  });
+});
+
+describe('AppendedDataDetector.strip', () => {
+  it('付加データを切り詰めたファイルを返す', async () => {
+    const image = png();
+    const file = new File([bytes(image, 'PK\x03\x04trailing') as BlobPart], 'image.png', { type: 'image/png' });
+    const report = inspect(new Uint8Array(await file.arrayBuffer()), 'image/png')!;
+
+    const stripped = AppendedDataDetector.strip(file, report);
+    expect(stripped.name).toBe('image.png');
+    expect(stripped.type).toBe('image/png');
+    expect(new Uint8Array(await stripped.arrayBuffer())).toEqual(image);
+  });
+
+  it('付加データがなければ元のファイルをそのまま返す', () => {
+    const file = new File([png() as BlobPart], 'image.png', { type: 'image/png' });
+    expect(AppendedDataDetector.strip(file)).toBe(file);
+  });
+});
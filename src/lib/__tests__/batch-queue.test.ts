@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { BatchQueue, type OutputVariant, type QueueItem } from '@/lib/batch-queue';
+import { unzip } from './fixtures';
+
+const item = (name: string, overrides: Partial<QueueItem> = {}): QueueItem => ({
+  ...BatchQueue.createItems([new File(['original data'], name, { type: 'image/png' })])[0],
+  status: 'done',
+  compressedBlob: new Blob(['small'], { type: 'image/png' }),
+  dimensions: { width: 10, height: 20 },
+  ...overrides
+});
+
+const variant = (key: string, type: string, data: string): OutputVariant => ({
+  key,
+  label: key,
+  blob: new Blob([data], { type }),
+  dimensions: { width: 1, height: 1 },
+  sizeGuard: { strategy: 'compressed', originalSize: 13 }
+});
+
+const manifestOf = async (archive: Blob) => {
+  const entries = await unzip(archive);
+  const manifest = entries.find(entry => entry.name === 'manifest.json')!;
+  return JSON.parse(new TextDecoder().decode(manifest.data)).files;
+};
+
+describe('BatchQueue.getOutputFileName', () => {
+  it('出力の形式の拡張子とサービス名を付ける', () => {
+    const webp = variant('instagram', 'image/webp', 'x');
+    expect(BatchQueue.getOutputFileName(item('photo.png'))).toBe('photo.png');
+    expect(BatchQueue.getOutputFileName(item('photo.png'), webp)).toBe('photo_instagram.webp');
+  });
+
+  it('長いファイル名でも拡張子を残す', () => {
+    const name = BatchQueue.getOutputFileName(item(`${'a'.repeat(200)}.png`), variant('twitter', 'image/jpeg', 'x'));
+    expect(name).toBe(`${'a'.repeat(80)}_twitter.jpg`);
+  });
+});
+
+describe('BatchQueue.createArchive', () => {
+  it('サービス別の出力をそれぞれ格納し、マニフェストに記録する', async () => {
+    const items = [
+      item('photo.png', { variants: [variant('instagram', 'image/jpeg', 'ig'), variant('x', 'image/webp', 'xx')] }),
+      item('other.png'),
+      item('failed.png', { status: 'error' })
+    ];
+    const archive = await BatchQueue.createArchive(items, true);
+
+    expect((await unzip(archive)).map(entry => entry.name)).toEqual([
+      'photo_instagram.jpg',
+      'photo_x.webp',
+      'other.png',
+      'manifest.json'
+    ]);
+    expect(await manifestOf(archive)).toEqual([
+      { name: 'photo_instagram.jpg', source: 'photo.png', originalSize: 13, compressedSize: 2, width: 1, height: 1, strategy: 'compressed' },
+      { name: 'photo_x.webp', source: 'photo.png', originalSize: 13, compressedSize: 2, width: 1, height: 1, strategy: 'compressed' },
+      { name: 'other.png', source: 'other.png', originalSize: 13, compressedSize: 5, width: 10, height: 20, strategy: 'compressed' }
+    ]);
+  });
+
+  it('同じ名前になる出力には番号を付ける', async () => {
+    const archive = await BatchQueue.createArchive([item('photo.png'), item('photo.png')], false);
+    expect((await unzip(archive)).map(entry => entry.name)).toEqual(['photo.png', 'photo (2).png']);
+  });
+});
+
+describe('BatchQueue.summarize', () => {
+  it('終了した項目と処理中の項目の進捗から全体の進捗を求める', () => {
+    const summary = BatchQueue.summarize([
+      item('a.png'),
+      item('b.png', { status: 'error' }),
+      item('c.png', { status: 'compressing', progress: 50 }),
+      item('d.png', { status: 'pending' })
+    ]);
+    expect(summary).toEqual({ total: 4, done: 1, failed: 1, locked: 0, remaining: 2, progress: 62.5 });
+  });
+});
@@ -0,0 +1,106 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ClientFileScanner } from '@/lib/client-scanner';
+import { bytes, png, pngChunk } from './fixtures';
+
+const PE_STUB = 'This program cannot be run in DOS mode';
+
+// 部品ごとにチャンクとして読まれるファイル
+const file = (name: string, type: string, ...parts: Uint8Array[]) => new File(parts as BlobPart[], name, { type });
+
+describe('ClientFileScanner.scanFile', () => {
+  beforeAll(() => {
+    // サイトのルールファイルはなく、同梱のルールを使う
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 404 })));
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('問題のない画像は安全と判定する', async () => {
+    const result = await ClientFileScanner.scanFile(file('image.png', 'image/png', png(16, 16)));
+    expect(result).toMatchObject({ safe: true, threats: [], warnings: [], score: 0 });
+  });
+
+  it('チャンクの境界をまたぐ実行ファイルの痕跡を見つける', async () => {
+    const image = png();
+    const stub = bytes(PE_STUB);
+    const result = await ClientFileScanner.scanFile(
+      file('image.png', 'image/png', image, stub.subarray(0, 10), stub.subarray(10)),
+      { trailingOffset: image.length }
+    );
+
+    expect(result.safe).toBe(false);
+    expect(result.matches).toContainEqual(expect.objectContaining({ id: 'pe-executable', scope: 'file', offset: image.length }));
+  });
+
+  it('読み込み済みの内容を渡すとファイルを読み直さない', async () => {
+    const image = png();
+    const data = bytes(image, PE_STUB);
+    const scanned = file('image.png', 'image/png', data);
+    const stream = vi.spyOn(scanned, 'stream');
+    const result = await ClientFileScanner.scanFile(scanned, { data, trailingOffset: image.length });
+
+    expect(stream).not.toHaveBeenCalled();
+    expect(result.matches).toContainEqual(expect.objectContaining({ id: 'pe-executable', offset: image.length }));
+  });
+
+  it('形式の構造から取り出した範囲にもルールを適用する', async () => {
+    const data = png(1, 1, [pngChunk('tEXt', 'Comment\0<script>alert(1)</script>')]);
+    const result = await ClientFileScanner.scanFile(file('image.png', 'image/png', data));
+    expect(result.matches.some(match => match.scope === 'png-text')).toBe(true);
+  });
+
+  it('読み込んだ割合を通知し、最後に1にする', async () => {
+    const progress: number[] = [];
+    await ClientFileScanner.scanFile(
+      file('image.png', 'image/png', png(), new Uint8Array(1000), new Uint8Array(1000)),
+      { onProgress: ratio => progress.push(ratio) }
+    );
+
+    expect(progress.length).toBeGreaterThan(2);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(progress.at(-1)).toBe(1);
+  });
+
+  it('中止すると AbortError で終わる', async () => {
+    const controller = new AbortController();
+    const scan = ClientFileScanner.scanFile(
+      file('image.png', 'image/png', png(), new Uint8Array(1000)),
+      { signal: controller.signal, onProgress: () => controller.abort() }
+    );
+    await expect(scan).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('付加データの高エントロピーの領域だけを報告する', async () => {
+    const noise = new Uint8Array(8192);
+    crypto.getRandomValues(noise);
+    const image = png();
+
+    const inImage = await ClientFileScanner.scanFile(file('image.png', 'image/png', noise, image), { trailingOffset: noise.length + image.length });
+    expect(inImage.warnings.some(warning => warning.includes('高エントロピー'))).toBe(false);
+    expect(inImage.maxEntropy).toBeGreaterThan(7.5);
+
+    const appended = await ClientFileScanner.scanFile(file('image.png', 'image/png', image, noise), { trailingOffset: image.length });
+    expect(appended.warnings.some(warning => warning.includes('高エントロピー'))).toBe(true);
+  });
+});
+
+describe('ClientFileScanner のルールファイル', () => {
+  afterAll(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it('サブパスに配置した場合はその下のルールファイルを読む', async () => {
+    const fetch = vi.fn(async () => new Response(null, { status: 404 }));
+    vi.stubGlobal('fetch', fetch);
+    vi.stubEnv('NEXT_PUBLIC_BASE_PATH', '/compressor');
+    vi.resetModules();
+
+    const { ClientFileScanner: Scanner } = await import('@/lib/client-scanner');
+    await Scanner.scanFile(file('image.png', 'image/png', png()));
+    expect(fetch).toHaveBeenCalledWith('/compressor/scan-rules.json', expect.anything());
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { SlidingEntropy } from '@/lib/entropy';
+import { bytes } from './fixtures';
+
+// 再現できる疑似乱数のバイト列（xorshift）
+const noise = (length: number, seed = 1) => {
+  const data = new Uint8Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    data[i] = state & 0xFF;
+  }
+  return data;
+};
+
+const push = (entropy: SlidingEntropy, data: Uint8Array, chunkSize = data.length) => {
+  for (let offset = 0; offset < data.length; offset += chunkSize) {
+    entropy.push(data.subarray(offset, offset + chunkSize));
+  }
+  return entropy;
+};
+
+describe('SlidingEntropy', () => {
+  it('同じ値だけのデータは0、乱数のデータは8に近い', () => {
+    expect(push(new SlidingEntropy(7.5), new Uint8Array(8192)).max?.entropy).toBe(0);
+    expect(push(new SlidingEntropy(7.5), noise(8192)).max?.entropy).toBeGreaterThan(7.9);
+  });
+
+  it('窓の幅より短いデータは全体を1つの窓とする', () => {
+    expect(new SlidingEntropy(7.5).max).toBeNull();
+    expect(push(new SlidingEntropy(7.5), bytes([0, 1, 2, 3])).max).toEqual({ offset: 0, entropy: 2 });
+  });
+
+  it('チャンクの分け方によらず同じ結果になる', () => {
+    const data = bytes(new Uint8Array(6000), noise(10000), new Uint8Array(3000));
+    const whole = push(new SlidingEntropy(7.5), data);
+    const chunked = push(new SlidingEntropy(7.5), data, 777);
+    expect(chunked.max).toEqual(whole.max);
+    expect(chunked.high).toEqual(whole.high);
+  });
+
+  it('閾値以上の窓のうち from 以降に始まるものを最大 maxRecorded 件記録する', () => {
+    const data = bytes(noise(8192), new Uint8Array(8192), noise(16384, 7));
+    const entropy = push(new SlidingEntropy(7.5, 16384, 3), data);
+
+    expect(entropy.high).toHaveLength(3);
+    expect(entropy.high.map(window => window.offset)).toEqual([16384, 17408, 18432]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { ExifProcessor } from '@/lib/exif';
+import type { AnyCanvasContext } from '@/lib/canvas';
+import { bytes, jpeg, jpegSegment, u16le, u32le } from './fixtures';
+
+// リトルエンディアン（II）のTIFF: IFD0 に向きと撮影者（エントリの外に置く値）を持つ
+function littleEndianTiff(orientation: number, artist: string): Uint8Array {
+  const value = bytes(artist, [0]);
+  const valueOffset = 8 + 2 + 2 * 12 + 4;
+  return bytes(
+    'II', u16le(42), u32le(8),
+    u16le(2),
+    u16le(0x0112), u16le(3), u32le(1), u16le(orientation), [0, 0],
+    u16le(0x013B), u16le(2), u32le(value.length), u32le(valueOffset),
+    u32le(0),
+    value
+  );
+}
+
+const exifSegment = (tiff: Uint8Array) => jpegSegment(0xE1, bytes('Exif\0\0', tiff));
+
+describe('ExifProcessor.read', () => {
+  it('リトルエンディアンのEXIFから向きと文字列を読む', () => {
+    const data = jpeg(1, 1, [exifSegment(littleEndianTiff(6, 'Taro'))]);
+    expect(ExifProcessor.read(data)).toEqual({ orientation: 6, artist: 'Taro', copyright: undefined });
+  });
+
+  it('範囲外の向きは補正不要として扱う', () => {
+    expect(ExifProcessor.read(jpeg(1, 1, [exifSegment(littleEndianTiff(9, 'Taro'))]))?.orientation).toBe(1);
+  });
+
+  it('EXIFがない・JPEGでない・壊れたデータは null', () => {
+    expect(ExifProcessor.read(jpeg())).toBeNull();
+    expect(ExifProcessor.read(bytes('GIF89a'))).toBeNull();
+    expect(ExifProcessor.read(jpeg(1, 1, [exifSegment(bytes('XX', [0, 42]))]))).toBeNull();
+  });
+});
+
+describe('ExifProcessor.createSegment', () => {
+  const data = { orientation: 6, artist: 'Taro', copyright: '(c) 2024', dateTimeOriginal: '2024:05:17 13:45:31' };
+
+  it('指定した項目だけを書き出し、向きは補正済み（1）にする', () => {
+    const segment = ExifProcessor.createSegment(data, ['copyright', 'dateTimeOriginal'])!;
+    const output = ExifProcessor.insertSegment(jpeg(), segment);
+    expect(ExifProcessor.read(output)).toEqual({
+      orientation: 1,
+      artist: undefined,
+      copyright: '(c) 2024',
+      dateTimeOriginal: '2024:05:17 13:45:31'
+    });
+  });
+
+  it('書き出す項目がなければ null', () => {
+    expect(ExifProcessor.createSegment(data, [])).toBeNull();
+    expect(ExifProcessor.createSegment({ orientation: 1 }, ['artist'])).toBeNull();
+  });
+});
+
+describe('ExifProcessor.insertSegment', () => {
+  it('JFIFのAPP0の直後に挿入する', () => {
+    const segment = jpegSegment(0xE1, 'Exif\0\0');
+    const output = ExifProcessor.insertSegment(jpeg(), segment);
+    // SOI(2) + APP0(2 + 16)
+    expect(output.subarray(20, 20 + segment.length)).toEqual(segment);
+    expect(output.length).toBe(jpeg().length + segment.length);
+  });
+});
+
+describe('ExifProcessor の向きの補正', () => {
+  it('向き5〜8では寸法を入れ替える', () => {
+    expect(ExifProcessor.getOrientedSize(40, 30, 3)).toEqual({ width: 40, height: 30 });
+    expect(ExifProcessor.getOrientedSize(40, 30, 6)).toEqual({ width: 30, height: 40 });
+  });
+
+  // 補正前の画像の四隅が、補正後のcanvasのどこに描かれるか
+  const corners = (orientation: number, width: number, height: number) => {
+    let matrix = [1, 0, 0, 1, 0, 0];
+    const ctx = { setTransform: (...values: number[]) => { matrix = values; } } as unknown as AnyCanvasContext;
+    const output = ExifProcessor.getOrientedSize(width, height, orientation);
+    ExifProcessor.applyOrientation(ctx, orientation, output.width, output.height);
+    const [a, b, c, d, e, f] = matrix;
+    return [[0, 0], [width, 0], [0, height]].map(([x, y]) => [a * x + c * y + e, b * x + d * y + f]);
+  };
+
+  it.each([
+    // 左上・右上・左下の行き先
+    [1, [[0, 0], [40, 0], [0, 30]]],
+    [3, [[40, 30], [0, 30], [40, 0]]],
+    // 90°時計回り: 左上は右上へ
+    [6, [[30, 0], [30, 40], [0, 0]]],
+    // 90°反時計回り: 左上は左下へ
+    [8, [[0, 40], [0, 0], [30, 40]]]
+  ])('向き %i の変換で画像がcanvasに収まる', (orientation, expected) => {
+    expect(corners(orientation, 40, 30)).toEqual(expected);
+  });
+});
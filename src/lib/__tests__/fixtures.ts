@@ -0,0 +1,236 @@
+// テスト用のファイルを組み立てる（各形式の最小限の構造だけを持つ）
+
+import { deflateSync } from 'zlib';
+import { PDFDocument, PDFName, PDFString } from 'pdf-lib';
+import { Checksum } from '@/lib/checksum';
+
+type Part = Uint8Array | number[] | string;
+
+/**
+ * バイト列・数値の配列・文字列（1文字1バイト）をつなげる
+ */
+export function bytes(...parts: Part[]): Uint8Array {
+  const arrays = parts.map(part => typeof part === 'string'
+    ? Uint8Array.from(part, char => char.charCodeAt(0))
+    : Uint8Array.from(part));
+  const result = new Uint8Array(arrays.reduce((sum, array) => sum + array.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+}
+
+export const u16le = (value: number) => [value & 0xFF, (value >>> 8) & 0xFF];
+export const u24le = (value: number) => [value & 0xFF, (value >>> 8) & 0xFF, (value >>> 16) & 0xFF];
+export const u32le = (value: number) => [...u16le(value), ...u16le(value >>> 16)];
+export const u32be = (value: number) => [(value >>> 24) & 0xFF, (value >>> 16) & 0xFF, (value >>> 8) & 0xFF, value & 0xFF];
+
+/**
+ * バイト列を1バイトの文字として読む（PDFの中身の確認・書き換え用）
+ */
+export const latin1 = (data: Uint8Array) => Buffer.from(data).toString('latin1');
+export const fromLatin1 = (text: string) => new Uint8Array(Buffer.from(text, 'latin1'));
+
+// ---- ZIP ----
+
+export interface ZipFileEntry {
+  name: string;
+  data: Uint8Array;
+  crc: number;
+  flags: number;
+  time: number;
+  date: number;
+}
+
+/**
+ * セントラルディレクトリからエントリを読み、ローカルファイルヘッダーの先のデータを取り出す
+ */
+export async function unzip(blob: Blob): Promise<ZipFileEntry[]> {
+  const data = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(data.buffer);
+  const end = data.length - 22;
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const entries: ZipFileEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    const nameLength = view.getUint16(position + 28, true);
+    const size = view.getUint32(position + 20, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    entries.push({
+      name: new TextDecoder().decode(data.subarray(position + 46, position + 46 + nameLength)),
+      data: data.subarray(dataStart, dataStart + size),
+      crc: view.getUint32(position + 16, true),
+      flags: view.getUint16(position + 8, true),
+      time: view.getUint16(position + 12, true),
+      date: view.getUint16(position + 14, true)
+    });
+    position += 46 + nameLength;
+  }
+  return entries;
+}
+
+// ---- PNG ----
+
+export function pngChunk(type: string, data: Part = []): Uint8Array {
+  const body = bytes(type, data);
+  return bytes(u32be(body.length - 4), body, u32be(Checksum.crc32(body)));
+}
+
+export function pngHeader(width: number, height: number): Uint8Array {
+  // 8ビットのRGB・インターレースなし
+  return pngChunk('IHDR', [...u32be(width), ...u32be(height), 8, 2, 0, 0, 0]);
+}
+
+/**
+ * IHDR・（追加のチャンク）・IDAT・IEND の並んだPNG
+ */
+export function png(width = 1, height = 1, chunks: Uint8Array[] = []): Uint8Array {
+  const pixels = new Uint8Array(height * (width * 3 + 1));
+  return bytes(
+    [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A],
+    pngHeader(width, height),
+    ...chunks,
+    pngChunk('IDAT', deflateSync(pixels)),
+    pngChunk('IEND')
+  );
+}
+
+/**
+ * APNGのアニメーション制御チャンク
+ */
+export const apngControl = (frames: number) => pngChunk('acTL', [...u32be(frames), ...u32be(0)]);
+
+// ---- JPEG ----
+
+export function jpegSegment(marker: number, data: Part = []): Uint8Array {
+  const body = bytes(data);
+  return bytes([0xFF, marker, (body.length + 2) >>> 8, (body.length + 2) & 0xFF], body);
+}
+
+/**
+ * SOI・APP0・（追加のセグメント）・SOF0・SOS・圧縮データ・EOI の並んだJPEG
+ * 圧縮データには 0xFF00 とリスタートマーカーを含める
+ */
+export function jpeg(width = 1, height = 1, segments: Uint8Array[] = [], afterScan: Uint8Array[] = []): Uint8Array {
+  const frame = [8, height >>> 8, height & 0xFF, width >>> 8, width & 0xFF, 3, 1, 0x11, 0, 2, 0x11, 1, 3, 0x11, 1];
+  const scan = [3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 0x3F, 0];
+  return bytes(
+    [0xFF, 0xD8],
+    jpegSegment(0xE0, 'JFIF\0\x01\x01\0\0\x01\0\x01\0\0'),
+    ...segments,
+    jpegSegment(0xC0, frame),
+    jpegSegment(0xDA, scan),
+    [0x12, 0x34, 0xFF, 0x00, 0x56, 0xFF, 0xD0, 0x78],
+    ...afterScan,
+    [0xFF, 0xD9]
+  );
+}
+
+/**
+ * MPFのAPP2セグメントで後続の画像（Ultra HDRのゲインマップなど）を宣言し、主画像の直後に並べたJPEG
+ * 位置はMPFのTIFFヘッダー（SOI・APP0・APP2のヘッダーと "MPF\0" の後、28バイト目）からの相対位置
+ */
+export function mpfJpeg(images: Uint8Array[], segments: Uint8Array[] = []): Uint8Array {
+  const tiffStart = 28;
+  const app2 = (primarySize: number) => {
+    const entries: number[] = [...u32be(0x030000), ...u32be(primarySize), ...u32be(0), 0, 0, 0, 0];
+    let offset = primarySize - tiffStart;
+    for (const image of images) {
+      entries.push(...u32be(0), ...u32be(image.length), ...u32be(offset), 0, 0, 0, 0);
+      offset += image.length;
+    }
+    // IFD: エントリ1つ（MPEntry、型7 = UNDEFINED）と次のIFDへのオフセット 0
+    return jpegSegment(0xE2, bytes('MPF\0', 'MM', [0, 42], u32be(8), [0, 1, 0xB0, 0x02, 0, 7], u32be(entries.length), u32be(26), u32be(0), entries));
+  };
+  const primarySize = jpeg(1, 1, [app2(0), ...segments]).length;
+  return bytes(jpeg(1, 1, [app2(primarySize), ...segments]), ...images);
+}
+
+// ---- GIF ----
+
+/**
+ * 長さ付きのサブブロックに分けて終端（長さ0）を付ける
+ */
+export function gifSubBlocks(data: Part): Uint8Array {
+  const body = bytes(data);
+  const parts: Part[] = [];
+  for (let offset = 0; offset < body.length; offset += 255) {
+    const block = body.subarray(offset, offset + 255);
+    parts.push([block.length], block);
+  }
+  return bytes(...parts, [0]);
+}
+
+export const gifFrame = (width: number, height: number, left = 0, top = 0) => bytes(
+  [0x2C, ...u16le(left), ...u16le(top), ...u16le(width), ...u16le(height), 0],
+  [2],
+  gifSubBlocks([0x44, 0x01])
+);
+
+export const gifExtension = (label: number, data: Part) => bytes([0x21, label], gifSubBlocks(data));
+
+/**
+ * グローバルカラーテーブル（2色）・ブロック・トレーラーの並んだGIF
+ */
+export function gif(width = 1, height = 1, blocks: Uint8Array[] = [gifFrame(width, height)]): Uint8Array {
+  return bytes('GIF89a', u16le(width), u16le(height), [0x80, 0, 0], [0, 0, 0, 0xFF, 0xFF, 0xFF], ...blocks, [0x3B]);
+}
+
+// ---- WebP ----
+
+export function riffChunk(type: string, data: Part): Uint8Array {
+  const body = bytes(data);
+  return bytes(type, u32le(body.length), body, body.length % 2 ? [0] : []);
+}
+
+export function webp(...chunks: Uint8Array[]): Uint8Array {
+  const body = bytes('WEBP', ...chunks);
+  return bytes('RIFF', u32le(body.length), body);
+}
+
+/**
+ * 非可逆（VP8）のキーフレーム
+ */
+export const vp8 = (width: number, height: number) =>
+  riffChunk('VP8 ', [0x10, 0, 0, 0x9D, 0x01, 0x2A, ...u16le(width), ...u16le(height)]);
+
+/**
+ * 可逆（VP8L）の画像
+ */
+export const vp8l = (width: number, height: number) =>
+  riffChunk('VP8L', [0x2F, ...u32le((width - 1) | ((height - 1) << 14)), 0]);
+
+/**
+ * 拡張形式（VP8X）のヘッダー
+ */
+export const vp8x = (width: number, height: number, animated = false) =>
+  riffChunk('VP8X', [animated ? 0x02 : 0, 0, 0, 0, ...u24le(width - 1), ...u24le(height - 1)]);
+
+export const animatedWebp = (width: number, height: number, frames: number) => webp(
+  vp8x(width, height, true),
+  riffChunk('ANIM', [0, 0, 0, 0, 0, 0]),
+  ...Array.from({ length: frames }, () => riffChunk('ANMF', bytes(new Uint8Array(16), vp8(width, height))))
+);
+
+// ---- PDF ----
+
+/**
+ * 1ページのPDF（objectStreams でクロスリファレンスストリーム形式）
+ * extraStream を指定すると、圧縮しないストリームとしてそのまま書き込む
+ * javaScript を指定すると、開いたときに実行する動作（OpenAction）として書き込む
+ */
+export async function pdf(options: { objectStreams?: boolean, extraStream?: string, javaScript?: string } = {}): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.addPage([200, 200]);
+  if (options.extraStream) {
+    doc.context.register(doc.context.stream(options.extraStream));
+  }
+  if (options.javaScript) {
+    const action = doc.context.obj({ Type: 'Action', S: 'JavaScript', JS: PDFString.of(options.javaScript) });
+    doc.catalog.set(PDFName.of('OpenAction'), doc.context.register(action));
+  }
+  return doc.save({ useObjectStreams: options.objectStreams ?? false });
+}
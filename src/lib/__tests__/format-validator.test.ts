@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import { FormatValidator } from '@/lib/format-validator';
+import {
+  bytes,
+  fromLatin1,
+  gif,
+  gifExtension,
+  jpeg,
+  jpegSegment,
+  latin1,
+  mpfJpeg,
+  pdf,
+  png,
+  pngChunk,
+  riffChunk,
+  u32be,
+  vp8,
+  vp8l,
+  vp8x,
+  webp
+} from './fixtures';
+
+// startxref のオフセットを書き換える
+const shiftStartxref = (data: Uint8Array, shift: number) =>
+  fromLatin1(latin1(data).replace(/startxref\s+(\d+)/, (_, offset) => `startxref\n${Number(offset) + shift}`));
+
+describe('FormatValidator', () => {
+  describe('PNG', () => {
+    it('IENDの直後を終端とする', () => {
+      const data = png();
+      expect(FormatValidator.validate(bytes(data, 'appended'), 'image/png')).toEqual({ valid: true, end: data.length });
+    });
+
+    it('CRCが一致しないチャンクを拒否する', () => {
+      const data = png();
+      data[8 + 8 + 13] ^= 0xFF;
+      const result = FormatValidator.validate(data, 'image/png');
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('IHDRチャンクのCRCが一致しません');
+    });
+
+    it('IENDの前で切れたファイルを拒否する', () => {
+      const data = png();
+      const result = FormatValidator.validate(data.subarray(0, data.length - 12), 'image/png');
+      expect(result.error).toContain('IENDチャンクがありません');
+    });
+
+    it('チャンクの途中で切れたファイルを拒否する', () => {
+      const data = png(1, 1, [pngChunk('tEXt', 'Comment\0hello')]);
+      const result = FormatValidator.validate(data.subarray(0, 50), 'image/png');
+      expect(result.error).toContain('tEXtチャンクが途中で切れています');
+    });
+
+    it('IDATのないファイルを拒否する', () => {
+      const data = bytes(png().subarray(0, 33), pngChunk('IEND'));
+      expect(FormatValidator.validate(data, 'image/png').error).toContain('IDATチャンク）がありません');
+    });
+
+    it('不正なビット深度を拒否する', () => {
+      const data = bytes([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A], pngChunk('IHDR', [...u32be(1), ...u32be(1), 4, 2, 0, 0, 0]));
+      expect(FormatValidator.validate(data, 'image/png').error).toContain('ビット深度 4 を使えません');
+    });
+  });
+
+  describe('JPEG', () => {
+    it('圧縮データ内の 0xFF00 とリスタートマーカーを読み飛ばしてEOIを見つける', () => {
+      const data = jpeg(16, 16, [jpegSegment(0xFE, 'comment')]);
+      expect(FormatValidator.validate(bytes(data, [0, 0]), 'image/jpeg')).toEqual({ valid: true, end: data.length });
+    });
+
+    it('圧縮データの途中で切れたファイルを拒否する', () => {
+      const data = jpeg();
+      const result = FormatValidator.validate(data.subarray(0, data.length - 2), 'image/jpeg');
+      expect(result.error).toContain('画像データの途中でファイルが終わっています');
+    });
+
+    it('SOFnより前のSOSを拒否する', () => {
+      const data = bytes([0xFF, 0xD8], jpegSegment(0xDA, [1, 1, 0, 0, 0x3F, 0]), [0xFF, 0xD9]);
+      expect(FormatValidator.validate(data, 'image/jpeg').error).toContain('SOSマーカーがSOFnより前にあります');
+    });
+
+    it('ファイルの外まで続くセグメントを拒否する', () => {
+      const data = bytes([0xFF, 0xD8, 0xFF, 0xE1, 0x10, 0x00], 'Exif');
+      expect(FormatValidator.validate(data, 'image/jpeg').error).toContain('0xFFE1 セグメントが途中で切れています');
+    });
+
+    it('MPFで宣言された後続の画像（ゲインマップなど）までを終端とする', () => {
+      const gainMap = jpeg(1, 1, [jpegSegment(0xE1, 'http://ns.adobe.com/xap/1.0/\0')]);
+      const data = mpfJpeg([gainMap, jpeg()]);
+      expect(FormatValidator.validate(bytes(data, 'appended'), 'image/jpeg')).toEqual({ valid: true, end: data.length });
+    });
+
+    it('宣言と食い違うMPFの画像は含めない', () => {
+      const data = mpfJpeg([jpeg()]);
+      const primaryEnd = data.length - jpeg().length;
+      // 宣言された位置にJPEGがない
+      const broken = bytes(data.subarray(0, primaryEnd), 'not a jpeg', data.subarray(primaryEnd + 10));
+      expect(FormatValidator.validate(broken, 'image/jpeg').end).toBe(primaryEnd);
+      // 宣言された大きさがファイルの長さを超える
+      expect(FormatValidator.validate(data.subarray(0, -1), 'image/jpeg').end).toBe(primaryEnd);
+    });
+  });
+
+  describe('GIF', () => {
+    it('トレーラーの直後を終端とする', () => {
+      const data = gif(2, 2, [gifExtension(0xFE, 'comment'), bytes(gif(2, 2).subarray(19, -1))]);
+      expect(FormatValidator.validate(data, 'image/gif')).toEqual({ valid: true, end: data.length });
+    });
+
+    it('トレーラーのないファイルを拒否する', () => {
+      const data = gif();
+      expect(FormatValidator.validate(data.subarray(0, data.length - 1), 'image/gif').error).toContain('トレーラー（0x3B）がありません');
+    });
+
+    it('画像ブロックのないファイルを拒否する', () => {
+      expect(FormatValidator.validate(gif(1, 1, []), 'image/gif').error).toContain('画像ブロックがありません');
+    });
+  });
+
+  describe('WebP', () => {
+    it('VP8・VP8Lの画像を受け付ける', () => {
+      expect(FormatValidator.validate(webp(vp8(4, 4)), 'image/webp').valid).toBe(true);
+      expect(FormatValidator.validate(webp(vp8l(4, 4)), 'image/webp').valid).toBe(true);
+    });
+
+    it('RIFFのサイズがファイルの長さを超えるファイルを拒否する', () => {
+      const data = webp(vp8(4, 4));
+      expect(FormatValidator.validate(data.subarray(0, data.length - 2), 'image/webp').error).toContain('ファイルの長さを超えています');
+    });
+
+    it('ANMFのないアニメーションを拒否する', () => {
+      const data = webp(vp8x(4, 4, true), riffChunk('ANIM', [0, 0, 0, 0, 0, 0]));
+      expect(FormatValidator.validate(data, 'image/webp').error).toContain('ANIM / ANMFチャンクがありません');
+    });
+  });
+
+  describe('PDF', () => {
+    it.each([false, true])('最後の %%%%EOF の直後を終端とする（objectStreams: %s）', async (objectStreams) => {
+      const data = await pdf({ objectStreams });
+      const result = FormatValidator.validate(bytes(data, 'PK\x03\x04appended'), 'application/pdf');
+      expect(result).toEqual({ valid: true, end: data.length, encrypted: false });
+    });
+
+    it.each([-3, 7])('startxref のオフセットが %i バイトずれていても近くのクロスリファレンスを見つける', async (shift) => {
+      for (const objectStreams of [false, true]) {
+        const data = shiftStartxref(await pdf({ objectStreams }), shift);
+        expect(FormatValidator.validate(data, 'application/pdf').valid).toBe(true);
+      }
+    });
+
+    it('startxref のオフセットがファイルの範囲外でも最後のトレーラーを使う', async () => {
+      for (const objectStreams of [false, true]) {
+        const data = shiftStartxref(await pdf({ objectStreams }), 100000);
+        expect(FormatValidator.validate(data, 'application/pdf').valid).toBe(true);
+      }
+    });
+
+    it('クロスリファレンスが見つからないファイルを拒否する', () => {
+      const data = fromLatin1('%PDF-1.4\n1 0 obj\n<< >>\nendobj\nstartxref\n9\n%%EOF\n');
+      expect(FormatValidator.validate(data, 'application/pdf').error).toContain('クロスリファレンスがありません');
+    });
+
+    it('startxref のないファイルを拒否する', () => {
+      const data = fromLatin1('%PDF-1.4\n%%EOF\n');
+      expect(FormatValidator.validate(data, 'application/pdf').error).toContain('startxref がありません');
+    });
+
+    it('トレーラーの /Encrypt から暗号化を判断する', async () => {
+      const data = fromLatin1(latin1(await pdf()).replace('trailer\n<<', 'trailer\n<<\n/Encrypt 99 0 R'));
+      expect(FormatValidator.validate(data, 'application/pdf').encrypted).toBe(true);
+    });
+
+    it('本文のストリームにある /Encrypt は暗号化とみなさない', async () => {
+      const data = await pdf({ extraStream: 'BT (/Encrypt 3 0 R) Tj /Encrypt << >> ET' });
+      expect(latin1(data)).toContain('/Encrypt 3 0 R');
+      expect(FormatValidator.validate(data, 'application/pdf').encrypted).toBe(false);
+    });
+  });
+});
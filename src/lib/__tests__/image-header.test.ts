@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ImageHeaderReader,
+  MAX_ANIMATION_PIXELS,
+  MAX_IMAGE_DIMENSION,
+  MAX_IMAGE_PIXELS
+} from '@/lib/image-header';
+import {
+  animatedWebp,
+  apngControl,
+  bytes,
+  gif,
+  gifExtension,
+  gifFrame,
+  jpeg,
+  jpegSegment,
+  png,
+  vp8,
+  vp8l,
+  vp8x,
+  webp
+} from './fixtures';
+
+describe('ImageHeaderReader.read', () => {
+  describe('PNG', () => {
+    it('IHDRの寸法を読む', () => {
+      expect(ImageHeaderReader.read(png(640, 480), 'image/png')).toEqual({ width: 640, height: 480, frames: 1 });
+    });
+
+    it('APNGの acTL からフレーム数を読む', () => {
+      const data = png(32, 16, [apngControl(120)]);
+      expect(ImageHeaderReader.read(data, 'image/png')).toEqual({ width: 32, height: 16, frames: 120 });
+    });
+
+    it('IDATより後の acTL は数えない', () => {
+      const data = png(8, 8);
+      const withLateControl = bytes(data.subarray(0, data.length - 12), apngControl(50), data.subarray(data.length - 12));
+      expect(ImageHeaderReader.read(withLateControl, 'image/png')?.frames).toBe(1);
+    });
+
+    it('IHDRの途中で切れたヘッダーは読めない', () => {
+      expect(ImageHeaderReader.read(png(10, 10).subarray(0, 20), 'image/png')).toBeNull();
+    });
+  });
+
+  describe('JPEG', () => {
+    it('APPnを読み飛ばして SOF0 の寸法を読む', () => {
+      const data = jpeg(1920, 1080, [jpegSegment(0xE1, bytes('Exif\0\0', new Uint8Array(100)))]);
+      expect(ImageHeaderReader.read(data, 'image/jpeg')).toEqual({ width: 1920, height: 1080, frames: 1 });
+    });
+
+    it('SOFnより前に切れたヘッダーは読めない', () => {
+      const data = jpeg(100, 100, [jpegSegment(0xE1, new Uint8Array(100))]);
+      expect(ImageHeaderReader.read(data.subarray(0, 60), 'image/jpeg')).toBeNull();
+    });
+
+    it('高さを DNL で後から指定する形式は読めない', () => {
+      expect(ImageHeaderReader.read(jpeg(100, 0), 'image/jpeg')).toBeNull();
+    });
+  });
+
+  describe('GIF', () => {
+    it('イメージ記述子の数をフレーム数とする', () => {
+      const data = gif(10, 10, [
+        gifExtension(0xFF, bytes('NETSCAPE2.0', [1, 0, 0])),
+        gifFrame(10, 10),
+        gifFrame(10, 10),
+        gifFrame(10, 10)
+      ]);
+      expect(ImageHeaderReader.read(data, 'image/gif')).toEqual({ width: 10, height: 10, frames: 3 });
+    });
+
+    it('論理画面からはみ出すフレームに合わせて寸法を広げる', () => {
+      const data = gif(10, 10, [gifFrame(10, 10), gifFrame(5000, 20, 100, 8)]);
+      expect(ImageHeaderReader.read(data, 'image/gif')).toEqual({ width: 5100, height: 28, frames: 2 });
+    });
+
+    it('途中で切れていても読めた範囲のフレームを数える', () => {
+      const data = gif(10, 10, [gifFrame(10, 10), gifFrame(10, 10)]);
+      expect(ImageHeaderReader.read(data.subarray(0, 40), 'image/gif')?.frames).toBe(1);
+    });
+  });
+
+  describe('WebP', () => {
+    it('VP8・VP8L・VP8Xの寸法を読む', () => {
+      expect(ImageHeaderReader.read(webp(vp8(300, 200)), 'image/webp')).toEqual({ width: 300, height: 200, frames: 1 });
+      expect(ImageHeaderReader.read(webp(vp8l(16383, 2)), 'image/webp')).toEqual({ width: 16383, height: 2, frames: 1 });
+      expect(ImageHeaderReader.read(webp(vp8x(20000, 30000), vp8(1, 1)), 'image/webp')).toEqual({ width: 20000, height: 30000, frames: 1 });
+    });
+
+    it('アニメーションの ANMF の数をフレーム数とする', () => {
+      expect(ImageHeaderReader.read(animatedWebp(64, 64, 5), 'image/webp')).toEqual({ width: 64, height: 64, frames: 5 });
+    });
+
+    it('途中で切れたヘッダーは読めない', () => {
+      expect(ImageHeaderReader.read(webp(vp8(300, 200)).subarray(0, 24), 'image/webp')).toBeNull();
+    });
+  });
+
+  it('対応していない形式は読めない', () => {
+    expect(ImageHeaderReader.read(png(), 'image/bmp')).toBeNull();
+  });
+});
+
+describe('ImageHeaderReader.checkBudget', () => {
+  it('上限ちょうどの画像を受け付ける', () => {
+    expect(ImageHeaderReader.checkBudget({ width: 10000, height: MAX_IMAGE_PIXELS / 10000, frames: 1 }).valid).toBe(true);
+  });
+
+  it('1辺の上限を超える画像を拒否する', () => {
+    const result = ImageHeaderReader.checkBudget({ width: MAX_IMAGE_DIMENSION + 1, height: 1, frames: 1 });
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('1辺');
+  });
+
+  it('画素数の上限を超える画像を拒否する', () => {
+    const result = ImageHeaderReader.checkBudget({ width: 20000, height: 20000, frames: 1 });
+    expect(result.error).toContain('画像の画素数');
+  });
+
+  it('フレームごとには収まっても、アニメーション全体で上限を超える画像を拒否する', () => {
+    const frames = Math.floor(MAX_ANIMATION_PIXELS / (1000 * 1000)) + 1;
+    const result = ImageHeaderReader.checkBudget({ width: 1000, height: 1000, frames });
+    expect(result.error).toContain('アニメーション全体の画素数');
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { DEFAULT_IMAGE_PDF_OPTIONS, ImagePdfBuilder, type ImagePdfOptions } from '@/lib/image-pdf-builder';
+import { jpeg, png } from './fixtures';
+
+const options = (overrides: Partial<ImagePdfOptions>): ImagePdfOptions => ({ ...DEFAULT_IMAGE_PDF_OPTIONS, ...overrides });
+
+describe('ImagePdfBuilder.getPageSize', () => {
+  it('自動では横長の画像を横向きの用紙に置く', () => {
+    expect(ImagePdfBuilder.getPageSize(400, 300, options({}), 0)).toEqual({ width: 841.89, height: 595.28 });
+    expect(ImagePdfBuilder.getPageSize(300, 400, options({ pageSize: 'letter' }), 0)).toEqual({ width: 612, height: 792 });
+  });
+
+  it('向きを指定すると画像の縦横に関わらずその向きにする', () => {
+    expect(ImagePdfBuilder.getPageSize(400, 300, options({ orientation: 'portrait' }), 0)).toEqual({ width: 595.28, height: 841.89 });
+  });
+
+  it('画像に合わせる場合は96dpiの大きさに余白を加える', () => {
+    expect(ImagePdfBuilder.getPageSize(400, 300, options({ pageSize: 'fit' }), 10)).toEqual({ width: 320, height: 245 });
+  });
+});
+
+describe('ImagePdfBuilder.build', () => {
+  it('JPEGとPNGを渡した順に1ページずつ配置する', async () => {
+    const images = [
+      new Blob([jpeg(40, 30) as BlobPart], { type: 'image/jpeg' }),
+      new Blob([png(30, 40) as BlobPart], { type: 'image/png' })
+    ];
+    const messages: string[] = [];
+    const blob = await ImagePdfBuilder.build(images, options({ pageSize: 'fit', marginMm: 0 }), (_, message) => {
+      if (message) messages.push(message);
+    });
+
+    const doc = await PDFDocument.load(await blob.arrayBuffer());
+    expect(doc.getPages().map(page => page.getSize())).toEqual([{ width: 30, height: 22.5 }, { width: 22.5, height: 30 }]);
+    expect(messages).toEqual(['画像 1/2 をPDFに配置中...', '画像 2/2 をPDFに配置中...', 'PDFを保存中...']);
+  });
+
+  it('画像がなければエラー', async () => {
+    await expect(ImagePdfBuilder.build([], DEFAULT_IMAGE_PDF_OPTIONS)).rejects.toThrow('PDFにまとめる画像がありません');
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { OutputFormatResolver, type EncoderSupport } from '@/lib/output-formats';
+
+const ALL: EncoderSupport = { jpeg: true, png: true, webp: true, avif: true };
+const BASIC: EncoderSupport = { jpeg: true, png: true, webp: false, avif: false };
+
+describe('OutputFormatResolver.resolve', () => {
+  it('対応している形式はそのまま使う', () => {
+    expect(OutputFormatResolver.resolve('avif', 'image/jpeg', ALL)).toEqual({ format: 'avif', mimeType: 'image/avif', extension: 'avif' });
+  });
+
+  it('元の形式を指定した場合は入力の形式で出力する', () => {
+    expect(OutputFormatResolver.resolve('original', 'image/webp', ALL).format).toBe('webp');
+    expect(OutputFormatResolver.resolve('original', 'image/png', BASIC).format).toBe('png');
+  });
+
+  it('エンコードできない形式は、PNG入力ならPNG、それ以外はJPEGに代替して理由を付ける', () => {
+    const fromJpeg = OutputFormatResolver.resolve('webp', 'image/jpeg', BASIC);
+    expect(fromJpeg.format).toBe('jpeg');
+    expect(fromJpeg.fallbackReason).toBe('このブラウザはWebPのエンコードに対応していないため、JPEGで出力しました');
+
+    expect(OutputFormatResolver.resolve('avif', 'image/png', BASIC).format).toBe('png');
+  });
+
+  it('エンコードできない元の形式（GIF）は透過を保てるPNGにする', () => {
+    const result = OutputFormatResolver.resolve('original', 'image/gif', ALL);
+    expect(result.format).toBe('png');
+    expect(result.fallbackReason).toBe('元の形式（image/gif）では出力できないため、PNGで出力しました');
+  });
+});
+
+describe('OutputFormatResolver', () => {
+  it('MIMEタイプから拡張子と表示名を求める', () => {
+    expect(OutputFormatResolver.getExtension('image/jpeg')).toBe('jpg');
+    expect(OutputFormatResolver.getExtension('application/pdf')).toBe('pdf');
+    expect(OutputFormatResolver.getExtension('application/octet-stream')).toBe('bin');
+    expect(OutputFormatResolver.getLabel('image/webp')).toBe('WebP');
+    expect(OutputFormatResolver.getLabel('image/gif')).toBe('GIF');
+    expect(OutputFormatResolver.getLabel('image/bmp')).toBe('image/bmp');
+  });
+
+  it('ブラウザの外ではPNGとJPEGだけを対応とみなす', async () => {
+    expect(await OutputFormatResolver.detectEncoderSupport()).toEqual(BASIC);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { PageRange } from '@/lib/page-range';
+
+describe('PageRange.parse', () => {
+  it('範囲と単独のページを指定した順に並べ、重複は最初の1回だけ含める', () => {
+    expect(PageRange.parse('5,1-3,2,8-', 10)).toEqual({ valid: true, pages: [5, 1, 2, 3, 8, 9, 10] });
+    expect(PageRange.parse('-2', 10).pages).toEqual([1, 2]);
+  });
+
+  it('全角の数字・記号と空白を受け付ける', () => {
+    expect(PageRange.parse('１〜３、 ５', 10).pages).toEqual([1, 2, 3, 5]);
+  });
+
+  it.each([
+    ['', 'ページ範囲を入力してください'],
+    ['a', '「a」はページ範囲として解釈できません'],
+    ['-', '「-」はページ範囲として解釈できません'],
+    ['3-11', '「3-11」は範囲外です（1〜10ページ）'],
+    ['0', '「0」は範囲外です（1〜10ページ）'],
+    ['5-3', '「5-3」は範囲外です（1〜10ページ）'],
+    [',', 'ページが選択されていません']
+  ])('%j は無効', (input, error) => {
+    expect(PageRange.parse(input, 10)).toMatchObject({ valid: false, error });
+  });
+});
+
+describe('PageRange.format', () => {
+  it('連続するページを範囲にまとめ、並び順は保つ', () => {
+    expect(PageRange.format([1, 2, 3, 7, 5, 6])).toBe('1-3,7,5-6');
+    expect(PageRange.format([])).toBe('');
+  });
+
+  it('parse の結果を元に戻せる', () => {
+    const { pages } = PageRange.parse('4-6,1,9-', 10);
+    expect(PageRange.parse(PageRange.format(pages), 10).pages).toEqual(pages);
+  });
+});
+
+describe('PageRange.resolve', () => {
+  it('指定がなければ全ページ', () => {
+    expect(PageRange.resolve(undefined, 3)).toEqual([1, 2, 3]);
+  });
+
+  it('範囲外・整数でない・重複したページを除く', () => {
+    expect(PageRange.resolve([3, 0, 1.5, 4, 3, 1], 3)).toEqual([3, 1]);
+  });
+
+  it('出力するページが残らなければエラー', () => {
+    expect(() => PageRange.resolve([], 3)).toThrow('出力するページが選択されていません');
+    expect(() => PageRange.resolve([4], 3)).toThrow('出力するページが選択されていません');
+  });
+});
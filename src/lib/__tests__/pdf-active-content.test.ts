@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDocument, PDFName, PDFString } from 'pdf-lib';
+import { PdfActiveContentScanner } from '@/lib/pdf-active-content';
+import { pdf } from './fixtures';
+
+// 自動実行のJavaScript・リンクの注釈・操作時の動作・埋め込みファイル・フォームを持つPDF
+async function activePdf(): Promise<PDFDocument> {
+  const doc = await PDFDocument.create();
+  const context = doc.context;
+  const page = doc.addPage([200, 200]);
+
+  const openAction = context.obj({ Type: 'Action', S: 'JavaScript', JS: PDFString.of('app.alert("hello")') });
+  doc.catalog.set(PDFName.of('OpenAction'), context.register(openAction));
+
+  const link = context.obj({
+    Type: 'Annot',
+    Subtype: 'Link',
+    Rect: [0, 0, 10, 10],
+    A: { S: 'URI', URI: PDFString.of('https://example.com/') }
+  });
+  page.node.set(PDFName.of('Annots'), context.obj([context.register(link)]));
+  page.node.set(PDFName.of('AA'), context.obj({ O: { S: 'Launch', F: PDFString.of('calc.exe') } }));
+
+  const fileSpec = context.obj({ Type: 'Filespec', F: PDFString.of('payload.exe'), EF: { F: context.register(context.stream('MZ')) } });
+  doc.catalog.set(PDFName.of('Names'), context.obj({ EmbeddedFiles: { Names: [PDFString.of('payload.exe'), context.register(fileSpec)] } }));
+  doc.catalog.set(PDFName.of('AcroForm'), context.obj({ Fields: [] }));
+
+  return PDFDocument.load(await doc.save({ useObjectStreams: true }));
+}
+
+describe('PdfActiveContentScanner.inspect', () => {
+  it('オブジェクトストリーム内も含めて、種類・場所・詳細を列挙する', async () => {
+    const elements = PdfActiveContentScanner.inspect(await activePdf());
+
+    expect(elements).toEqual(expect.arrayContaining([
+      { kind: 'openAction', location: 'カタログ', detail: 'JavaScript' },
+      { kind: 'javascript', location: 'カタログ', detail: 'app.alert("hello")' },
+      { kind: 'acroForm', location: 'カタログ', detail: '入力欄 0個' },
+      { kind: 'uri', location: 'ページ 1 の注釈', detail: 'https://example.com/' },
+      { kind: 'additionalActions', location: 'ページ 1', detail: 'O' },
+      { kind: 'launch', location: 'ページ 1', detail: 'calc.exe' },
+      { kind: 'embeddedFile', location: expect.stringMatching(/^オブジェクト \d+$/), detail: 'payload.exe' }
+    ]));
+    expect(elements).toHaveLength(7);
+  });
+
+  it('アクティブコンテンツがなければ空', async () => {
+    expect(await PdfActiveContentScanner.scan((await pdf()).buffer as ArrayBuffer)).toEqual([]);
+  });
+});
+
+describe('PdfActiveContentScanner.sanitize', () => {
+  it('除去した後は何も検出されない', async () => {
+    const doc = await activePdf();
+    PdfActiveContentScanner.sanitize(doc);
+    expect(PdfActiveContentScanner.inspect(doc)).toEqual([]);
+  });
+});
+
+describe('PdfActiveContentScanner.readJavaScript', () => {
+  it('スクリプトを切り詰めずに取り出す', async () => {
+    const script = `var x = "${'a'.repeat(500)}";`;
+    const data = await pdf({ objectStreams: true, javaScript: script });
+    expect(await PdfActiveContentScanner.readJavaScript(data.buffer as ArrayBuffer)).toEqual([script]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDocument, PDFName } from 'pdf-lib';
+import { PdfMetadataEditor } from '@/lib/pdf-metadata';
+
+const XMP = `<?xpacket begin="" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about="" xmlns:pdf="http://ns.adobe.com/pdf/1.3/" pdf:Producer="Writer &amp; Co">
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">旧タイトル</rdf:li></rdf:Alt></dc:title>
+      <dc:creator><rdf:Seq><rdf:li>山田</rdf:li><rdf:li>佐藤</rdf:li></rdf:Seq></dc:creator>
+      <xmp:CreateDate>2024-05-17T13:45:31+09:00</xmp:CreateDate>
+      <xmpMM:DocumentID>uuid:&#x31;234</xmpMM:DocumentID>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+// 文書情報とXMPを持つPDF
+async function metadataPdf(xmp = XMP): Promise<ArrayBuffer> {
+  const doc = await PDFDocument.create({ updateMetadata: false });
+  doc.addPage([100, 100]);
+  doc.setTitle('旧タイトル');
+  doc.setAuthor('山田');
+  doc.setKeywords(['a', 'b']);
+  const stream = doc.context.stream(new TextEncoder().encode(xmp), { Type: 'Metadata', Subtype: 'XML' });
+  doc.catalog.set(PDFName.of('Metadata'), doc.context.register(stream));
+  const data = await doc.save();
+  return data.buffer as ArrayBuffer;
+}
+
+describe('PdfMetadataEditor.read', () => {
+  it('Info辞書の項目とXMPのプロパティを読む', async () => {
+    const { info, xmp } = await PdfMetadataEditor.read(await metadataPdf());
+
+    expect(info).toEqual({ title: '旧タイトル', author: '山田', keywords: 'a b' });
+    expect(xmp?.bytes).toBe(new TextEncoder().encode(XMP).length);
+    expect(xmp?.properties).toEqual([
+      { name: 'pdf:Producer', value: 'Writer & Co' },
+      { name: 'dc:title', value: '旧タイトル' },
+      { name: 'dc:creator', value: '山田, 佐藤' },
+      { name: 'xmp:CreateDate', value: '2024-05-17T13:45:31+09:00' },
+      { name: 'xmpMM:DocumentID', value: 'uuid:1234' }
+    ]);
+  });
+
+  it('長いXMPの値は切り詰める', async () => {
+    const xmp = `<rdf:Description><dc:description>${'あ'.repeat(300)}</dc:description></rdf:Description>`;
+    const { xmp: report } = await PdfMetadataEditor.read(await metadataPdf(xmp));
+    expect(report?.properties).toEqual([{ name: 'dc:description', value: `${'あ'.repeat(200)}…` }]);
+  });
+
+  it('XMPがなければ null', async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage();
+    const { xmp } = await PdfMetadataEditor.read((await doc.save()).buffer as ArrayBuffer);
+    expect(xmp).toBeNull();
+  });
+});
+
+describe('PdfMetadataEditor.apply', () => {
+  it('指定した値に置き換え、空の項目とXMPを削除する', async () => {
+    const doc = await PDFDocument.load(await metadataPdf(), { updateMetadata: false });
+    PdfMetadataEditor.apply(doc, { title: ' 新しいタイトル ', author: '', subject: '件名' });
+
+    const saved = await doc.save();
+    const { info, xmp } = await PdfMetadataEditor.read(saved.buffer as ArrayBuffer);
+    expect(info).toEqual({ title: '新しいタイトル', subject: '件名' });
+    expect(xmp).toBeNull();
+    expect(Buffer.from(saved).toString('latin1')).not.toContain('xmpmeta');
+  });
+});
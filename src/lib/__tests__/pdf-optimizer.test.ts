@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDocument, PDFName, PDFRef } from 'pdf-lib';
+import { PdfStructureOptimizer } from '@/lib/pdf-optimizer';
+import { bytes, latin1 } from './fixtures';
+
+// 同じ内容ストリームを別々のオブジェクトとして持つページと、どこからも参照されないストリームを持つPDF
+async function duplicatedPdf(pageCount: number): Promise<ArrayBuffer> {
+  const doc = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) {
+    const page = doc.addPage([100 + i * 10, 200]);
+    page.node.set(PDFName.of('Contents'), doc.context.register(doc.context.stream('0 0 m 10 10 l S')));
+  }
+  doc.context.register(doc.context.stream('unreferenced data'));
+  const data = await doc.save({ useObjectStreams: false });
+  return data.buffer as ArrayBuffer;
+}
+
+// 1・2ページ目が中間の /Pages から寸法・回転・リソースを継承するPDF（2ページ目は回転だけ自身で持つ）
+const nestedPdf = () => bytes(
+  '%PDF-1.7\n',
+  '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj\n',
+  '2 0 obj << /Type /Pages /Kids [3 0 R 6 0 R] /Count 3 >> endobj\n',
+  '3 0 obj << /Type /Pages /Parent 2 0 R /Kids [4 0 R 5 0 R] /Count 2 /MediaBox [0 0 200 300] /Rotate 90 /Resources << >> >> endobj\n',
+  '4 0 obj << /Type /Page /Parent 3 0 R >> endobj\n',
+  '5 0 obj << /Type /Page /Parent 3 0 R /Rotate 0 >> endobj\n',
+  '6 0 obj << /Type /Page /Parent 2 0 R /MediaBox [0 0 100 100] /Resources << >> >> endobj\n',
+  'trailer << /Size 7 /Root 1 0 R >>\n%%EOF\n'
+).buffer as ArrayBuffer;
+
+const optimize = async (data: ArrayBuffer, pageOrder?: number[]) => {
+  const { blob, stats } = await PdfStructureOptimizer.optimize(data, { quality: 80, imageDpi: 150, pageOrder });
+  const output = new Uint8Array(await blob.arrayBuffer());
+  return { output, stats, doc: await PDFDocument.load(output) };
+};
+
+describe('PdfStructureOptimizer.optimize', () => {
+  it('同じ内容のストリームを1つにまとめ、参照されないオブジェクトを取り除く', async () => {
+    const { output, stats, doc } = await optimize(await duplicatedPdf(3));
+
+    expect(stats).toMatchObject({ images: 0, recompressed: 0, duplicates: 2, removedActiveContent: 0 });
+    const contents = doc.getPages().map(page => page.node.get(PDFName.of('Contents')));
+    expect(contents[0]).toBeInstanceOf(PDFRef);
+    expect(new Set(contents).size).toBe(1);
+    expect(latin1(output)).not.toContain('unreferenced data');
+  });
+
+  it('指定したページだけを指定した順に出力し、ページごとの集計に元のページ番号を記録する', async () => {
+    const { stats, doc } = await optimize(await duplicatedPdf(3), [3, 1]);
+
+    expect(doc.getPages().map(page => page.getWidth())).toEqual([120, 100]);
+    expect(stats.pages.map(page => page.pageNumber)).toEqual([3, 1]);
+  });
+
+  it('並べ替えても中間の /Pages から継承した寸法と回転を保つ', async () => {
+    const { doc } = await optimize(nestedPdf(), [2, 1, 3]);
+
+    expect(doc.getPages().map(page => page.getSize())).toEqual([
+      { width: 200, height: 300 },
+      { width: 200, height: 300 },
+      { width: 100, height: 100 }
+    ]);
+    expect(doc.getPages().map(page => page.getRotation().angle)).toEqual([0, 90, 0]);
+  });
+});
@@ -0,0 +1,92 @@
+import { inflateSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { FormatValidator } from '@/lib/format-validator';
+import { PngEncoder } from '@/lib/png-encoder';
+import { PngQuantizer } from '@/lib/png-quantizer';
+
+// RGBAの色の配列からピクセル列を作る
+const pixels = (...colors: number[][]) => Uint8ClampedArray.from(colors.flat());
+
+// パレット番号 index の色
+const paletteColor = (palette: Uint8Array, index: number) => Array.from(palette.subarray(index * 4, index * 4 + 4));
+
+// チャンクを種類ごとに取り出す
+function readChunks(data: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(data.buffer, data.byteOffset);
+  const chunks = new Map<string, Uint8Array>();
+  for (let offset = 8; offset < data.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+    chunks.set(type, data.subarray(offset + 8, offset + 8 + length));
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+describe('PngQuantizer.colorsForQuality', () => {
+  it('画質から色数を決め、100%では減色しない', () => {
+    expect(PngQuantizer.colorsForQuality(100)).toBeNull();
+    expect(PngQuantizer.colorsForQuality(10)).toBe(2);
+    expect(PngQuantizer.colorsForQuality(0)).toBe(2);
+    expect(PngQuantizer.colorsForQuality(99)).toBe(243);
+    expect(PngQuantizer.colorsForQuality(55)).toBe(23);
+  });
+});
+
+describe('PngQuantizer.quantize', () => {
+  const red = [255, 0, 0, 255];
+  const blue = [0, 0, 255, 255];
+  const clear = [12, 34, 56, 0];
+
+  it('色数が少ない画像はそのままの色でパレットにする', () => {
+    const { palette, indices } = PngQuantizer.quantize(pixels(red, blue, blue, red), 2, 2, { colors: 16, dither: false });
+    expect(palette.length / 4).toBe(2);
+    expect(Array.from(indices, index => paletteColor(palette, index))).toEqual([red, blue, blue, red]);
+  });
+
+  it('完全に透明なピクセルは番号0の透明色にまとめる', () => {
+    const { palette, indices } = PngQuantizer.quantize(pixels(clear, red, clear, blue), 2, 2, { colors: 3, dither: false });
+    expect(paletteColor(palette, 0)[3]).toBe(0);
+    expect(indices[0]).toBe(0);
+    expect(indices[2]).toBe(0);
+    expect(new Set(indices).size).toBe(3);
+  });
+
+  it('指定した色数を超えない', () => {
+    const gradient = Array.from({ length: 256 }, (_, i) => [i, 255 - i, (i * 7) % 256, 255]);
+    for (const dither of [false, true]) {
+      const { palette, indices } = PngQuantizer.quantize(pixels(...gradient), 16, 16, { colors: 8, dither });
+      expect(palette.length / 4).toBeLessThanOrEqual(8);
+      expect(Math.max(...indices)).toBeLessThan(palette.length / 4);
+    }
+  });
+});
+
+describe('PngEncoder.encodeIndexed', () => {
+  it('色数に応じたビット深度でパレット形式のPNGを書き出す', async () => {
+    const palette = Uint8Array.from([0, 0, 0, 0, 255, 255, 255, 255]);
+    const indices = Uint8Array.from([0, 1, 1, 0, 1, 0, 0, 1, 1]);
+    const data = new Uint8Array(await (await PngEncoder.encodeIndexed(3, 3, palette, indices)).arrayBuffer());
+
+    expect(FormatValidator.validate(data, 'image/png').valid).toBe(true);
+    const chunks = readChunks(data);
+    // 幅3・高さ3・1ビット・インデックスカラー
+    expect(Array.from(chunks.get('IHDR')!.subarray(8, 10))).toEqual([1, 3]);
+    expect(Array.from(chunks.get('PLTE')!)).toEqual([0, 0, 0, 255, 255, 255]);
+    expect(Array.from(chunks.get('tRNS')!)).toEqual([0]);
+    // 各行はフィルタ種別0と、左詰めした1バイト
+    expect(Array.from(inflateSync(chunks.get('IDAT')!))).toEqual([0, 0b01100000, 0, 0b01000000, 0, 0b01100000]);
+  });
+
+  it('不透明なパレットには tRNS を付けない', async () => {
+    const palette = Uint8Array.from({ length: 17 * 4 }, (_, i) => i % 4 === 3 ? 255 : i);
+    const data = new Uint8Array(await (await PngEncoder.encodeIndexed(1, 1, palette, Uint8Array.of(16))).arrayBuffer());
+    const chunks = readChunks(data);
+    expect(chunks.get('IHDR')![8]).toBe(8);
+    expect(chunks.has('tRNS')).toBe(false);
+  });
+
+  it('256色を超えるパレットを拒否する', async () => {
+    await expect(PngEncoder.encodeIndexed(1, 1, new Uint8Array(257 * 4), Uint8Array.of(0))).rejects.toThrow('1 to 256 colors');
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RESIZE_OPTIONS, ResizeCalculator, type ResizeOptions } from '@/lib/resize';
+
+const options = (overrides: Partial<ResizeOptions>): ResizeOptions => ({ ...DEFAULT_RESIZE_OPTIONS, ...overrides });
+const source = { width: 4000, height: 3000 };
+
+describe('ResizeCalculator.calculate', () => {
+  it('既定値は従来どおり1920×1080に縦横比を保って収める', () => {
+    expect(ResizeCalculator.calculate(source, DEFAULT_RESIZE_OPTIONS)).toEqual({ width: 1440, height: 1080 });
+  });
+
+  it('リサイズしない設定では元の寸法のまま', () => {
+    expect(ResizeCalculator.calculate(source, options({ mode: 'none' }))).toEqual(source);
+  });
+
+  it.each([
+    [{ mode: 'width', width: 1000 }, { width: 1000, height: 750 }],
+    [{ mode: 'height', height: 600 }, { width: 800, height: 600 }],
+    [{ mode: 'percent', percent: 25 }, { width: 1000, height: 750 }],
+    [{ mode: 'long-edge', longEdge: 2000 }, { width: 2000, height: 1500 }]
+  ] as const)('%j を縦横比を保って計算する', (overrides, expected) => {
+    expect(ResizeCalculator.calculate(source, options(overrides))).toEqual(expected);
+  });
+
+  it('縦横比を保たない設定では指定した寸法に変形する', () => {
+    expect(ResizeCalculator.calculate(source, options({ mode: 'fit', width: 500, height: 500, lockAspect: false }))).toEqual({ width: 500, height: 500 });
+    expect(ResizeCalculator.calculate(source, options({ mode: 'width', width: 500, lockAspect: false }))).toEqual({ width: 500, height: 3000 });
+  });
+
+  it('拡大しない設定では、縦横比を保ったまま元の寸法までに抑える', () => {
+    expect(ResizeCalculator.calculate(source, options({ mode: 'percent', percent: 200 }))).toEqual(source);
+    expect(ResizeCalculator.calculate(source, options({ mode: 'width', width: 8000 }))).toEqual(source);
+    expect(ResizeCalculator.calculate(source, options({ mode: 'fit', width: 8000, height: 1000, lockAspect: false }))).toEqual({ width: 4000, height: 1000 });
+  });
+
+  it('拡大を許可すれば元より大きくする', () => {
+    expect(ResizeCalculator.calculate(source, options({ mode: 'percent', percent: 150, noUpscale: false }))).toEqual({ width: 6000, height: 4500 });
+  });
+
+  it('1px未満にはしない', () => {
+    expect(ResizeCalculator.calculate({ width: 1000, height: 1 }, options({ mode: 'width', width: 100 }))).toEqual({ width: 100, height: 1 });
+  });
+});
+
+describe('ResizeCalculator.describe', () => {
+  it('設定内容を短く説明する', () => {
+    expect(ResizeCalculator.describe(DEFAULT_RESIZE_OPTIONS)).toBe('1920×1080pxに収める');
+    expect(ResizeCalculator.describe(options({ mode: 'fit', lockAspect: false }))).toBe('1920×1080pxに変形');
+    expect(ResizeCalculator.describe(options({ mode: 'long-edge' }))).toBe('長辺 2048px');
+  });
+});
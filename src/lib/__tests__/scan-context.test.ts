@@ -0,0 +1,123 @@
+import { deflateSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { ScanContextExtractor } from '@/lib/scan-context';
+import {
+  bytes,
+  gif,
+  gifExtension,
+  gifFrame,
+  jpeg,
+  jpegSegment,
+  pdf,
+  png,
+  pngChunk,
+  riffChunk,
+  vp8,
+  vp8x,
+  webp
+} from './fixtures';
+
+const text = (data: Uint8Array) => new TextDecoder().decode(data);
+
+// 範囲の種類と中身の文字列だけを比べる
+const extract = async (data: Uint8Array, mimeType: string) =>
+  (await ScanContextExtractor.extract(data, mimeType)).map(region => ({ scope: region.scope, text: text(region.bytes) }));
+
+describe('ScanContextExtractor.extract', () => {
+  it('PNGの tEXt・zTXt・iTXt を取り出し、圧縮されたテキストを展開する', async () => {
+    const data = png(1, 1, [
+      pngChunk('tEXt', 'Comment\0plain'),
+      pngChunk('zTXt', bytes('Comment\0\0', deflateSync('compressed'))),
+      pngChunk('iTXt', bytes('XML\0\x01\0ja\0\0', deflateSync('international')))
+    ]);
+
+    expect(await extract(data, 'image/png')).toEqual([
+      { scope: 'png-text', text: 'Comment\0plain' },
+      { scope: 'png-text', text: 'Comment' },
+      { scope: 'png-text', text: 'XML\0\x01\0ja\0' },
+      { scope: 'png-text', text: 'compressed' },
+      { scope: 'png-text', text: 'international' }
+    ]);
+  });
+
+  it('範囲のファイル内の位置を記録する', async () => {
+    const data = png(1, 1, [pngChunk('tEXt', 'Comment\0plain')]);
+    const [region] = await ScanContextExtractor.extract(data, 'image/png');
+    expect(region.offset).toBe(8 + 25 + 8);
+    expect(text(data.subarray(region.offset, region.offset! + region.bytes.length))).toBe('Comment\0plain');
+  });
+
+  it('JPEGの COM と APPn を取り出し、圧縮データの後のセグメントも読む', async () => {
+    const data = jpeg(1, 1, [jpegSegment(0xFE, 'comment'), jpegSegment(0xE1, 'Exif\0\0')], [jpegSegment(0xFE, 'after scan')]);
+    expect(await extract(data, 'image/jpeg')).toEqual([
+      { scope: 'jpeg-app', text: 'JFIF\0\x01\x01\0\0\x01\0\x01\0\0' },
+      { scope: 'jpeg-comment', text: 'comment' },
+      { scope: 'jpeg-app', text: 'Exif\0\0' },
+      { scope: 'jpeg-comment', text: 'after scan' }
+    ]);
+  });
+
+  it('GIFのコメント拡張とアプリケーション拡張をサブブロックをつなげて取り出す', async () => {
+    const comment = 'x'.repeat(300);
+    const data = gif(1, 1, [gifExtension(0xFF, 'NETSCAPE2.0'), gifFrame(1, 1), gifExtension(0xFE, comment), gifExtension(0xF9, [0, 0, 0, 0])]);
+    expect(await extract(data, 'image/gif')).toEqual([
+      { scope: 'gif-application', text: 'NETSCAPE2.0' },
+      { scope: 'gif-comment', text: comment }
+    ]);
+  });
+
+  it('WebPの EXIF・XMP チャンクを取り出す', async () => {
+    const data = webp(vp8x(1, 1), vp8(1, 1), riffChunk('EXIF', 'MM\0*'), riffChunk('XMP ', '<x:xmpmeta/>'));
+    expect(await extract(data, 'image/webp')).toEqual([
+      { scope: 'webp-metadata', text: 'MM\0*' },
+      { scope: 'webp-metadata', text: '<x:xmpmeta/>' }
+    ]);
+  });
+
+  it.each([false, true])('PDFのJavaScriptを取り出す（objectStreams: %s）', async (objectStreams) => {
+    const data = await pdf({ objectStreams, javaScript: 'app.alert("hello")' });
+    expect(await extract(data, 'application/pdf')).toEqual([{ scope: 'pdf-javascript', text: 'app.alert("hello")' }]);
+  });
+
+  it('途中で切れたファイルからは読めたところまでを取り出す', async () => {
+    const data = png(1, 1, [pngChunk('tEXt', 'Comment\0first'), pngChunk('tEXt', 'Comment\0second')]);
+    const truncated = data.subarray(0, 8 + 25 + 25 + 8 + 10);
+    expect(await extract(truncated, 'image/png')).toEqual([
+      { scope: 'png-text', text: 'Comment\0first' },
+      { scope: 'png-text', text: 'Comment\0se' }
+    ]);
+  });
+
+  it('範囲を取り出さない形式では空', async () => {
+    expect(await ScanContextExtractor.extract(bytes('plain text'), 'text/plain')).toEqual([]);
+  });
+});
+
+describe('ScanContextExtractor', () => {
+  // chunkSize バイトずつ受け取らせる
+  const extractChunked = async (data: Uint8Array, mimeType: string, chunkSize: number) => {
+    const extractor = new ScanContextExtractor(mimeType);
+    for (let offset = 0; offset < data.length; offset += chunkSize) {
+      extractor.push(data.subarray(offset, offset + chunkSize));
+    }
+    return extractor.finish();
+  };
+
+  it.each([
+    ['image/png', png(1, 1, [pngChunk('tEXt', 'Comment\0plain'), pngChunk('zTXt', bytes('Comment\0\0', deflateSync('compressed')))])],
+    ['image/jpeg', jpeg(1, 1, [jpegSegment(0xFE, 'comment')], [jpegSegment(0xFE, 'after scan')])],
+    ['image/gif', gif(1, 1, [gifFrame(1, 1), gifExtension(0xFE, 'x'.repeat(300))])],
+    ['image/webp', webp(vp8x(1, 1), vp8(1, 1), riffChunk('EXIF', 'MM\0*'))]
+  ])('チャンクの分け方によらず同じ範囲を取り出す（%s）', async (mimeType, data) => {
+    const whole = await ScanContextExtractor.extract(data, mimeType);
+    expect(whole.length).toBeGreaterThan(0);
+    for (const chunkSize of [1, 3, 7]) {
+      expect(await extractChunked(data, mimeType, chunkSize)).toEqual(whole);
+    }
+  });
+
+  it('PDFだけは読み込み後の解析が残る', () => {
+    expect(new ScanContextExtractor('application/pdf').deferred).toBe(true);
+    expect(new ScanContextExtractor('image/png').deferred).toBe(false);
+  });
+});
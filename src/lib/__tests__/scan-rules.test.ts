@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import defaultScanRules from '@/lib/default-scan-rules.json';
+import { ScanRuleEngine, ScanRuleError, type ScanRegion, type ScanRule } from '@/lib/scan-rules';
+import { bytes } from './fixtures';
+
+const rule = (overrides: Partial<ScanRule> = {}): ScanRule => ({
+  id: 'test-rule',
+  description: 'テスト用のルール',
+  severity: 'medium',
+  patterns: [{ string: 'eval(' }],
+  ...overrides
+});
+
+const ruleSet = (...rules: ScanRule[]) => ScanRuleEngine.parse({ thresholds: { warning: 25, threat: 70 }, rules });
+
+// ファイル全体を1つのチャンクとして照合して評価する
+const evaluate = (rules: ScanRule[], data: Uint8Array, mimeType = 'image/png', regions: ScanRegion[] = [], trailingOffset?: number) => {
+  const parsed = ruleSet(...rules);
+  const matcher = ScanRuleEngine.createStreamMatcher(parsed, mimeType, trailingOffset);
+  matcher.push(data);
+  return ScanRuleEngine.evaluate(parsed, regions, mimeType, matcher);
+};
+
+describe('ScanRuleEngine.parse', () => {
+  it('同梱のルールセットを読み込める', () => {
+    expect(ScanRuleEngine.parse(defaultScanRules).rules.length).toBeGreaterThan(0);
+  });
+
+  it.each([
+    [null, 'ルールセットがオブジェクトではありません'],
+    [{ rules: [] }, 'thresholds に warning と threat の数値がありません'],
+    [{ thresholds: { warning: 80, threat: 70 }, rules: [] }, 'warning が threat より大きくなっています'],
+    [{ thresholds: { warning: 25, threat: 70 } }, 'rules が配列ではありません']
+  ])('ルールセットの不正を拒否する（%j）', (json, message) => {
+    expect(() => ScanRuleEngine.parse(json)).toThrow(ScanRuleError);
+    expect(() => ScanRuleEngine.parse(json)).toThrow(message);
+  });
+
+  it.each([
+    [{ id: '' }, '1番目のルールに id がありません'],
+    [{ severity: 'urgent' }, 'severity は'],
+    [{ weight: -1 }, 'weight は0以上の数値です'],
+    [{ scopes: ['png-text', 'exe'] }, 'scopes は'],
+    [{ patterns: [] }, 'patterns がありません'],
+    [{ match: 2 }, 'match は any / all または1〜1の整数です'],
+    [{ patterns: [{ hex: '4D 5A G0' }] }, '16進のバイト列「4D 5A G0」が不正です'],
+    [{ patterns: [{ hex: '?? 5A' }] }, '任意のバイト（??）で始まっています'],
+    [{ patterns: [{ string: '' }] }, 'パターンには空でない string か hex が必要です']
+  ])('ルールの不正を拒否する（%j）', (overrides, message) => {
+    expect(() => ruleSet(rule(overrides as Partial<ScanRule>))).toThrow(message);
+  });
+
+  it('id の重複を拒否する', () => {
+    expect(() => ruleSet(rule(), rule())).toThrow('ルール「test-rule」が重複しています');
+  });
+});
+
+describe('ScanRuleEngine.evaluate', () => {
+  it('一致したルールの重みを合計して判定する', () => {
+    const rules = [
+      rule({ id: 'low', severity: 'low', patterns: [{ string: 'alpha' }] }),
+      rule({ id: 'high', severity: 'high', patterns: [{ string: 'beta' }] }),
+      rule({ id: 'weighted', severity: 'info', weight: 5, patterns: [{ string: 'gamma' }] })
+    ];
+
+    expect(evaluate(rules, bytes('nothing here'))).toEqual({ score: 0, verdict: 'safe', matches: [] });
+    expect(evaluate(rules, bytes('alpha gamma')).verdict).toBe('safe');
+    expect(evaluate(rules, bytes('beta')).verdict).toBe('warning');
+
+    const result = evaluate(rules, bytes('alpha beta gamma'));
+    expect(result.score).toBe(65);
+    // 重みの大きい順に並べる
+    expect(result.matches.map(match => match.id)).toEqual(['high', 'low', 'weighted']);
+    expect(result.matches[0]).toMatchObject({ scope: 'file', offset: 6, weight: 50 });
+  });
+
+  it('スコアが threat 以上なら危険と判定する', () => {
+    expect(evaluate([rule({ severity: 'critical' })], bytes('eval(')).verdict).toBe('threat');
+  });
+
+  it('match の数だけパターンが一致したルールを成立とする', () => {
+    const patterns = [{ string: 'one' }, { string: 'two' }, { string: 'three' }];
+    const data = bytes('one three');
+    expect(evaluate([rule({ patterns })], data).matches).toHaveLength(1);
+    expect(evaluate([rule({ patterns, match: 2 })], data).matches).toHaveLength(1);
+    expect(evaluate([rule({ patterns, match: 'all' })], data).matches).toHaveLength(0);
+  });
+
+  it('16進の ?? は任意の1バイトに一致する', () => {
+    const rules = [rule({ patterns: [{ hex: '4D 5A ?? 00' }] })];
+    expect(evaluate(rules, bytes([0x00, 0x4D, 0x5A, 0x90, 0x00])).matches[0]?.offset).toBe(1);
+    expect(evaluate(rules, bytes([0x4D, 0x5A, 0x90, 0x01])).matches).toHaveLength(0);
+  });
+
+  it('nocase では英字の大文字・小文字を区別しない', () => {
+    const data = bytes('<SCRIPT>');
+    expect(evaluate([rule({ patterns: [{ string: '<script' }] })], data).matches).toHaveLength(0);
+    expect(evaluate([rule({ patterns: [{ string: '<script', nocase: true }] })], data).matches).toHaveLength(1);
+  });
+
+  it('formats に含まれない形式にはルールを適用しない', () => {
+    const rules = [rule({ formats: ['application/pdf'] })];
+    expect(evaluate(rules, bytes('eval('), 'image/png').matches).toHaveLength(0);
+    expect(evaluate(rules, bytes('eval('), 'application/pdf').matches).toHaveLength(1);
+  });
+
+  it('scopes を指定したルールは取り出した範囲だけを調べる', () => {
+    const rules = [rule({ scopes: ['png-text'] })];
+    const data = bytes('eval( in pixels');
+    expect(evaluate(rules, data).matches).toHaveLength(0);
+
+    const regions: ScanRegion[] = [
+      { scope: 'jpeg-comment', offset: 0, bytes: bytes('eval(') },
+      { scope: 'png-text', offset: 40, bytes: bytes('Comment\0eval(') }
+    ];
+    expect(evaluate(rules, data, 'image/png', regions).matches).toEqual([
+      expect.objectContaining({ scope: 'png-text', offset: 48 })
+    ]);
+  });
+
+  it('trailing の範囲は付加データの開始位置より後だけを調べる', () => {
+    const rules = [rule({ scopes: ['trailing'] })];
+    const data = bytes('eval( image data | eval( appended');
+    expect(evaluate(rules, data).matches).toHaveLength(0);
+    expect(evaluate(rules, data, 'image/png', [], 18).matches).toEqual([
+      expect.objectContaining({ scope: 'trailing', offset: 19 })
+    ]);
+  });
+});
+
+describe('ScanStreamMatcher', () => {
+  // 1バイトずつ受け取らせる
+  const pushBytes = (matcher: ReturnType<typeof ScanRuleEngine.createStreamMatcher>, data: Uint8Array) => {
+    data.forEach(value => matcher.push(Uint8Array.of(value)));
+  };
+
+  it('チャンクの境界をまたぐ一致をファイル内の位置付きで見つける', () => {
+    const parsed = ruleSet(rule({ patterns: [{ string: 'This program cannot be run' }, { hex: '4D 5A ?? 00' }], match: 'all' }));
+    const matcher = ScanRuleEngine.createStreamMatcher(parsed, 'image/png');
+    pushBytes(matcher, bytes('xx This program cannot be run', [0x4D, 0x5A, 0x90, 0x00]));
+
+    expect(ScanRuleEngine.evaluate(parsed, [], 'image/png', matcher).matches).toEqual([
+      expect.objectContaining({ id: 'test-rule', scope: 'file', offset: 3 })
+    ]);
+  });
+
+  it('付加データの開始位置をまたいで始まる一致は trailing としない', () => {
+    const parsed = ruleSet(rule({ scopes: ['trailing'] }));
+    const data = bytes('image eval( appended');
+    const matcher = ScanRuleEngine.createStreamMatcher(parsed, 'image/png', 8);
+    pushBytes(matcher, data);
+    expect(ScanRuleEngine.evaluate(parsed, [], 'image/png', matcher).matches).toHaveLength(0);
+  });
+
+  it('付加データの開始位置がなければ trailing の範囲を照合しない', () => {
+    const parsed = ruleSet(rule({ scopes: ['trailing'] }));
+    const matcher = ScanRuleEngine.createStreamMatcher(parsed, 'image/png');
+    matcher.push(bytes('eval('));
+    expect(ScanRuleEngine.evaluate(parsed, [], 'image/png', matcher).matches).toHaveLength(0);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SizeGuard } from '@/lib/size-guard';
+
+const output = (size: number, label = 'output') => ({ blob: new Blob([new Uint8Array(size)]), label });
+const original = new Blob([new Uint8Array(100)]);
+
+describe('SizeGuard.apply', () => {
+  it('元より小さい出力はそのまま採用する', async () => {
+    const run = vi.fn();
+    const result = await SizeGuard.apply(original, output(60), [{ detail: '別の方法', run }], () => output(100, 'original'));
+    expect(result).toMatchObject({ label: 'output', sizeGuard: { strategy: 'compressed', originalSize: 100 } });
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('元以上の大きさなら、元より小さくなる最初の代替の方法を採用する', async () => {
+    const result = await SizeGuard.apply(original, output(100), [
+      { detail: '失敗する方法', run: async () => { throw new Error('failed'); } },
+      { detail: '使えない方法', run: async () => null },
+      { detail: '大きい方法', run: async () => output(120, 'larger') },
+      { detail: '小さい方法', run: async () => output(80, 'smaller') }
+    ], () => output(100, 'original'));
+
+    expect(result).toMatchObject({
+      label: 'smaller',
+      sizeGuard: { strategy: 'alternative', originalSize: 100, rejectedSize: 100, detail: '小さい方法' }
+    });
+  });
+
+  it('どれも小さくならなければ元のファイルを採用する', async () => {
+    const result = await SizeGuard.apply(original, output(150), [], () => output(100, 'original'));
+    expect(result).toMatchObject({ label: 'original', sizeGuard: { strategy: 'original', rejectedSize: 150 } });
+  });
+
+  it('元のファイルで代用できない場合は理由を付けて大きいまま返す', async () => {
+    const result = await SizeGuard.apply(original, output(150), [], { reason: '指定した寸法を保つため' });
+    expect(result).toMatchObject({ label: 'output', sizeGuard: { strategy: 'larger', detail: '指定した寸法を保つため' } });
+    expect(SizeGuard.describe(result.sizeGuard)).toBe('指定した寸法を保つため、元のファイルより大きいまま出力しました');
+  });
+});
+
+describe('SizeGuard.describe', () => {
+  it('採用した方法を説明する（そのまま圧縮できた場合は説明しない）', () => {
+    expect(SizeGuard.describe({ strategy: 'compressed', originalSize: 1 })).toBeNull();
+    expect(SizeGuard.describe({ strategy: 'alternative', originalSize: 1, detail: '画質を下げて再エンコード' }))
+      .toBe('指定どおりの圧縮では元より大きくなったため、画質を下げて再エンコードで圧縮しました');
+    expect(SizeGuard.describe({ strategy: 'original', originalSize: 1 })).toBe('圧縮すると元より大きくなるため、元のファイルをそのまま使用しました');
+  });
+});
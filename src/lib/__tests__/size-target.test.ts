@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { SizeTargetSearch } from '@/lib/size-target';
+
+// 出力サイズが画質と画素数（縮小率の2乗）に比例するとみなしたエンコーダー
+const encoder = (bytesAtFull: number) => {
+  const calls: { quality: number, scale: number }[] = [];
+  const encode = async (quality: number, scale: number) => {
+    calls.push({ quality, scale });
+    return { size: Math.round(bytesAtFull * (quality / 100) * scale * scale), quality, scale };
+  };
+  return { encode, calls };
+};
+
+describe('SizeTargetSearch.search', () => {
+  it('最高画質で収まればそのまま返す', async () => {
+    const { encode, calls } = encoder(1000);
+    const { output, report } = await SizeTargetSearch.search(encode, 2000);
+    expect(output.quality).toBe(100);
+    expect(report).toEqual({ targetBytes: 2000, quality: 100, scale: 1, passes: 1, fitted: true });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('収まる範囲で最も高い画質を二分探索する', async () => {
+    const { encode } = encoder(10000);
+    const { output, report } = await SizeTargetSearch.search(encode, 6000);
+    expect(output.size).toBeLessThanOrEqual(6000);
+    expect(report.fitted).toBe(true);
+    expect(report.scale).toBe(1);
+    expect(report.quality).toBeGreaterThanOrEqual(58);
+  });
+
+  it('最低画質でも収まらなければ縮小する', async () => {
+    const { encode } = encoder(10000);
+    const { output, report } = await SizeTargetSearch.search(encode, 1000);
+    expect(output.size).toBeLessThanOrEqual(1000);
+    expect(report.fitted).toBe(true);
+    expect(report.scale).toBeLessThan(1);
+  });
+
+  it('画質を調整できない形式は縮小だけで合わせる', async () => {
+    const { encode, calls } = encoder(10000);
+    const { report } = await SizeTargetSearch.search(encode, 2500, { qualityAdjustable: false });
+    expect(report.fitted).toBe(true);
+    expect(calls.every(call => call.quality === 100)).toBe(true);
+  });
+
+  it('試行回数の上限に達したら最小の出力を収まらなかったものとして返す', async () => {
+    const { encode, calls } = encoder(10000);
+    const { output, report } = await SizeTargetSearch.search(encode, 1, { maxPasses: 4 });
+    expect(calls).toHaveLength(4);
+    expect(report.fitted).toBe(false);
+    expect(output.size).toBe(Math.min(...calls.map(call => Math.round(10000 * (call.quality / 100) * call.scale * call.scale))));
+  });
+
+  it('縮小率の下限より小さくはしない', async () => {
+    const { encode, calls } = encoder(10000);
+    const { report } = await SizeTargetSearch.search(encode, 1, { minScale: 0.5 });
+    expect(report.fitted).toBe(false);
+    expect(Math.min(...calls.map(call => call.scale))).toBe(0.5);
+  });
+});
+
+describe('SizeTargetSearch.toBytes', () => {
+  it('KB・MBをバイト数に変換する', () => {
+    expect(SizeTargetSearch.toBytes(500, 'KB')).toBe(512000);
+    expect(SizeTargetSearch.toBytes(1.5, 'MB')).toBe(1572864);
+  });
+});
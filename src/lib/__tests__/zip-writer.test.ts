@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { Checksum } from '@/lib/checksum';
+import { ZipWriter } from '@/lib/zip-writer';
+import { bytes, unzip } from './fixtures';
+
+describe('Checksum.crc32', () => {
+  it('標準の検査値と一致する', () => {
+    expect(Checksum.crc32(bytes('123456789'))).toBe(0xCBF43926);
+    expect(Checksum.crc32(new Uint8Array(0))).toBe(0);
+  });
+
+  it('分割したデータを続きから計算できる', () => {
+    const data = bytes('The quick brown fox jumps over the lazy dog');
+    expect(Checksum.crc32(data.subarray(10), Checksum.crc32(data.subarray(0, 10)))).toBe(Checksum.crc32(data));
+  });
+});
+
+describe('ZipWriter.createZip', () => {
+  it('エントリを無圧縮で格納し、CRCとUTF-8のファイル名を記録する', async () => {
+    const first = bytes('first file');
+    const second = bytes([0x89, 0x50, 0x4E, 0x47]);
+    const zip = ZipWriter.createZip([{ name: 'photo.jpg', data: first }, { name: '写真.png', data: second }]);
+    expect(zip.type).toBe('application/zip');
+
+    const entries = await unzip(zip);
+    expect(entries.map(entry => entry.name)).toEqual(['photo.jpg', '写真.png']);
+    expect(entries[0].data).toEqual(first);
+    expect(entries[1].data).toEqual(second);
+    expect(entries[1].crc).toBe(Checksum.crc32(second));
+    expect(entries[1].flags & 0x0800).toBe(0x0800);
+  });
+
+  it('更新日時をMS-DOS形式で記録し、1980年より前は1980年1月1日に丸める', async () => {
+    const [modern, old] = await unzip(ZipWriter.createZip([
+      { name: 'a', data: bytes('a'), lastModified: new Date(2024, 4, 17, 13, 45, 31) },
+      { name: 'b', data: bytes('b'), lastModified: new Date(1970, 0, 1) }
+    ]));
+
+    expect(modern.date).toBe(((2024 - 1980) << 9) | (5 << 5) | 17);
+    expect(modern.time).toBe((13 << 11) | (45 << 5) | 15);
+    expect(old).toMatchObject({ date: (1 << 5) | 1, time: 0 });
+  });
+
+  it('エントリがなければ終端レコードだけのZIPになる', async () => {
+    const zip = ZipWriter.createZip([]);
+    expect(zip.size).toBe(22);
+    expect(await unzip(zip)).toEqual([]);
+  });
+
+  it('従来形式の上限を超えるエントリ数を拒否する', () => {
+    const entries = Array.from({ length: 0x10000 }, (_, i) => ({ name: `${i}`, data: new Uint8Array(0) }));
+    expect(() => ZipWriter.createZip(entries)).toThrow('ファイル数の上限');
+  });
+});
+
+describe('ZipWriter.uniqueName', () => {
+  it('大文字・小文字を区別せずに重複した名前へ番号を付ける', () => {
+    const used = new Set<string>();
+    expect(ZipWriter.uniqueName('photo.jpg', used)).toBe('photo.jpg');
+    expect(ZipWriter.uniqueName('Photo.JPG', used)).toBe('Photo (2).JPG');
+    expect(ZipWriter.uniqueName('photo.jpg', used)).toBe('photo (3).jpg');
+    expect(ZipWriter.uniqueName('.hidden', used)).toBe('.hidden');
+    expect(ZipWriter.uniqueName('.hidden', used)).toBe('.hidden (2)');
+  });
+});
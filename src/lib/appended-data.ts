@@ -0,0 +1,161 @@
+// 形式の終端（JPEGのEOI・PNGのIEND・GIFのトレーラー・PDFの最後の%%EOFなど）の後に付加されたデータと、
+// 別の形式としても読み込める埋め込みデータ（JPEG兼ZIPのようなポリグロット）の検出
+
+export interface EmbeddedContainer {
+  // 形式の表示名（ZIP・PDFなど）
+  format: string;
+  offset: number;
+  // 元の形式のデータより後ろにあり、切り詰めれば取り除けるか
+  removable: boolean;
+}
+
+export interface AppendedDataReport {
+  // 元の形式のデータが終わる位置（付加データの開始位置）
+  offset: number;
+  // 終端の後に付加されたデータのバイト数（0 の場合は埋め込みデータのみ）
+  size: number;
+  containers: EmbeddedContainer[];
+}
+
+interface ContainerSignature {
+  format: string;
+  signature: number[];
+}
+
+const bytesOf = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+// 付加データの中から探す形式のシグネチャ
+const CONTAINER_SIGNATURES: ContainerSignature[] = [
+  { format: 'ZIP', signature: [0x50, 0x4B, 0x03, 0x04] },
+  { format: 'RAR', signature: [...bytesOf('Rar!'), 0x1A, 0x07] },
+  { format: '7z', signature: [0x37, 0x7A, 0xBC, 0xAF, 0x27, 0x1C] },
+  { format: 'gzip', signature: [0x1F, 0x8B, 0x08] },
+  { format: 'PDF', signature: bytesOf('%PDF-') },
+  { format: 'ELF実行ファイル', signature: [0x7F, ...bytesOf('ELF')] },
+  { format: 'PNG', signature: [0x89, ...bytesOf('PNG'), 0x0D, 0x0A, 0x1A, 0x0A] },
+  { format: 'JPEG', signature: [0xFF, 0xD8, 0xFF] },
+  { format: 'GIF', signature: bytesOf('GIF8') },
+  { format: 'HTML', signature: bytesOf('<html') },
+  { format: 'スクリプト', signature: bytesOf('<script') }
+];
+const SIGNATURE_FIRST_BYTES = new Set(CONTAINER_SIGNATURES.map(({ signature }) => signature[0]));
+
+// ZIPの終端レコード（End of Central Directory）
+const ZIP_EOCD_SIGNATURE = [0x50, 0x4B, 0x05, 0x06];
+const ZIP_EOCD_LENGTH = 22;
+// 終端レコードはコメント（最大65535バイト）を含めて末尾に置かれる
+const ZIP_EOCD_SEARCH_LENGTH = ZIP_EOCD_LENGTH + 0xFFFF;
+// PDFリーダーはヘッダーを先頭1024バイト以内から探す
+const PDF_HEADER_SEARCH_LENGTH = 1024;
+// 報告する埋め込みデータの上限
+const MAX_CONTAINERS = 20;
+
+export class AppendedDataDetector {
+
+  /**
+   * 構造検証で求めた終端の位置から付加データと埋め込みデータを調べる（何もなければ null）
+   */
+  static inspect(bytes: Uint8Array, mimeType: string, end: number): AppendedDataReport | null {
+    // 終端の後が空白や0埋めだけの場合は付加データとして扱わない
+    const trailing = bytes.subarray(end);
+    const size = trailing.every(value => value === 0x00 || value === 0x20 || value === 0x0D || value === 0x0A || value === 0x09)
+      ? 0
+      : trailing.length;
+
+    const containers: EmbeddedContainer[] = [];
+    const add = (format: string, offset: number) => {
+      if (containers.length < MAX_CONTAINERS && !containers.some(c => c.format === format && c.offset === offset)) {
+        containers.push({ format, offset, removable: offset >= end });
+      }
+    };
+
+    if (size > 0) {
+      for (let offset = end; offset < bytes.length; offset++) {
+        if (!SIGNATURE_FIRST_BYTES.has(bytes[offset])) continue;
+        const match = CONTAINER_SIGNATURES.find(({ signature }) => this.matches(bytes, offset, signature));
+        if (match) {
+          add(match.format, offset);
+          offset += match.signature.length - 1;
+        }
+      }
+    }
+
+    // ZIPは末尾の終端レコードから読まれるため、画像の内部に埋め込まれていても開ける
+    const zipStart = this.findZipArchive(bytes);
+    if (zipStart !== null) {
+      add('ZIP', zipStart);
+    }
+
+    // PDFは先頭付近にヘッダーがあれば開けるため、画像の途中に埋め込まれていても読まれる
+    if (mimeType !== 'application/pdf') {
+      const pdfHeader = this.indexOf(bytes, bytesOf('%PDF-'), 0, Math.min(bytes.length, PDF_HEADER_SEARCH_LENGTH));
+      if (pdfHeader >= 0) {
+        add('PDF', pdfHeader);
+      }
+    }
+
+    if (size === 0 && containers.length === 0) {
+      return null;
+    }
+    containers.sort((a, b) => a.offset - b.offset);
+    return { offset: end, size, containers };
+  }
+
+  /**
+   * 付加データを切り詰めたファイル（再圧縮はしない）
+   */
+  static strip(file: File, report?: AppendedDataReport): File {
+    if (!report || report.size === 0) {
+      return file;
+    }
+    return new File([file.slice(0, report.offset)], file.name, { type: file.type, lastModified: file.lastModified });
+  }
+
+  /**
+   * 末尾の終端レコードが指すZIPアーカイブの開始位置（ZIPとして読めなければ null）
+   */
+  private static findZipArchive(bytes: Uint8Array): number | null {
+    const searchStart = Math.max(0, bytes.length - ZIP_EOCD_SEARCH_LENGTH);
+    for (let offset = bytes.length - ZIP_EOCD_LENGTH; offset >= searchStart; offset--) {
+      if (!this.matches(bytes, offset, ZIP_EOCD_SIGNATURE)) continue;
+
+      // コメントの長さがファイルの末尾と一致するものだけを終端レコードとみなす
+      const commentLength = this.u16le(bytes, offset + 20);
+      if (offset + ZIP_EOCD_LENGTH + commentLength !== bytes.length) continue;
+
+      // セントラルディレクトリのサイズと位置から、前に付いたデータを除いたアーカイブの開始位置を求める
+      const directorySize = this.u32le(bytes, offset + 12);
+      const directoryOffset = this.u32le(bytes, offset + 16);
+      const directoryStart = offset - directorySize;
+      const start = directoryStart - directoryOffset;
+      if (directoryStart < 0 || start < 0) continue;
+      // セントラルディレクトリが空でなければ、先頭にエントリのシグネチャ（PK 01 02）がある
+      if (directorySize > 0 && !this.matches(bytes, directoryStart, [0x50, 0x4B, 0x01, 0x02])) continue;
+      return start;
+    }
+    return null;
+  }
+
+  private static indexOf(bytes: Uint8Array, signature: number[], from: number, to: number): number {
+    for (let offset = from; offset + signature.length <= to; offset++) {
+      if (this.matches(bytes, offset, signature)) return offset;
+    }
+    return -1;
+  }
+
+  private static matches(bytes: Uint8Array, offset: number, signature: number[]): boolean {
+    if (offset + signature.length > bytes.length) return false;
+    for (let i = 0; i < signature.length; i++) {
+      if (bytes[offset + i] !== signature[i]) return false;
+    }
+    return true;
+  }
+
+  private static u16le(bytes: Uint8Array, offset: number): number {
+    return bytes[offset] | (bytes[offset + 1] << 8);
+  }
+
+  private static u32le(bytes: Uint8Array, offset: number): number {
+    return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+  }
+}
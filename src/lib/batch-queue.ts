@@ -0,0 +1,258 @@
+// バッチ圧縮キューのユーティリティ
+
+import { FileSecurityValidator } from '@/lib/security';
+import { ZipWriter, type ZipEntry } from '@/lib/zip-writer';
+import { OutputFormatResolver } from '@/lib/output-formats';
+import type { SizeTargetReport } from '@/lib/size-target';
+import type { SizeGuardReport, SizeGuardStrategy } from '@/lib/size-guard';
+import type { PdfOptimizeStats } from '@/lib/pdf-optimizer';
+import type { PdfColorMode, PdfCompressionReport, PdfPageResult } from '@/lib/pdf-compressor';
+import type { PdfActiveElement } from '@/lib/pdf-active-content';
+import type { PdfMetadataReport, PdfMetadataValues } from '@/lib/pdf-metadata';
+import type { AppendedDataReport } from '@/lib/appended-data';
+
+export type QueueItemStatus =
+  | 'pending'
+  | 'validating'
+  | 'scanning'
+  | 'compressing'
+  | 'done'
+  | 'locked'
+  | 'error';
+
+export interface CompressionOutput {
+  blob: Blob;
+  dimensions: { width: number; height: number } | null;
+  sourceDimensions?: { width: number; height: number };
+  formatNotice?: string;
+  targetReport?: SizeTargetReport;
+  // PNGを減色した場合のパレットの色数
+  paletteColors?: number;
+  sizeGuard?: SizeGuardReport;
+  // PDFをテキストを保持して圧縮した場合の画像の集計
+  optimizeStats?: PdfOptimizeStats;
+  // PDFを画像化した場合のページごとの結果
+  pages?: PdfPageResult[];
+  // PDFの出力に使った方法と、ページごとの結果・警告
+  pdfReport?: PdfCompressionReport;
+}
+
+// サービスプリセットごとの出力
+export interface OutputVariant extends CompressionOutput {
+  key: string;
+  label: string;
+  preview?: string;
+}
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  status: QueueItemStatus;
+  progress: number;
+  fileType?: 'image' | 'pdf';
+  // ファイルの中身から判定した形式（宣言されたMIMEタイプとは異なる場合がある）
+  mimeType?: string;
+  error?: string;
+  warnings: string[];
+  safe: boolean;
+  originalPreview?: string;
+  compressedBlob?: Blob;
+  compressedPreview?: string;
+  dimensions?: { width: number; height: number } | null;
+  sourceDimensions?: { width: number; height: number };
+  formatNotice?: string;
+  targetReport?: SizeTargetReport;
+  paletteColors?: number;
+  sizeGuard?: SizeGuardReport;
+  optimizeStats?: PdfOptimizeStats;
+  pages?: PdfPageResult[];
+  pdfReport?: PdfCompressionReport;
+  // PDFを画像化する際のページごとの色（利用者が個別に指定したもの）
+  pageColorModes?: PdfColorMode[];
+  // PDFの総ページ数とページごとのサムネイルURL（添字はページ番号 - 1）
+  pageCount?: number;
+  pageThumbnails?: (string | undefined)[];
+  // 出力するページの並び（未指定なら全ページをそのままの順で出力）
+  pageOrder?: number[];
+  // PDFに含まれるJavaScriptなどの実行される要素
+  activeContent?: PdfActiveElement[];
+  // 暗号化されたPDFか、と解除に使うパスワード
+  encrypted?: boolean;
+  password?: string;
+  // 元のPDFの文書情報・XMPと、出力に設定する文書情報（未指定なら書き換えない）
+  pdfMetadata?: PdfMetadataReport;
+  metadata?: PdfMetadataValues;
+  // 終端の後に付加されたデータと、別の形式として読める埋め込みデータ
+  appendedData?: AppendedDataReport;
+  variants?: OutputVariant[];
+}
+
+export interface QueueSummary {
+  total: number;
+  done: number;
+  failed: number;
+  // パスワードの入力を待っている件数
+  locked: number;
+  remaining: number;
+  progress: number;
+}
+
+export interface ManifestEntry {
+  name: string;
+  source: string;
+  originalSize: number;
+  compressedSize: number;
+  width: number | null;
+  height: number | null;
+  strategy: SizeGuardStrategy;
+}
+
+let queueItemCounter = 0;
+
+export class BatchQueue {
+
+  /**
+   * 選択されたファイルからキュー項目を生成
+   */
+  static createItems(files: FileList | File[]): QueueItem[] {
+    return Array.from(files).map((file) => ({
+      id: `${Date.now()}-${queueItemCounter++}`,
+      file,
+      status: 'pending',
+      progress: 0,
+      warnings: [],
+      safe: true
+    }));
+  }
+
+  /**
+   * 処理が終了しているか（成功・失敗・パスワード待ちを問わず）
+   */
+  static isFinished(item: QueueItem): boolean {
+    return item.status === 'done' || item.status === 'error' || item.status === 'locked';
+  }
+
+  /**
+   * キュー全体の進捗を集計
+   */
+  static summarize(items: QueueItem[]): QueueSummary {
+    const total = items.length;
+    const done = items.filter(item => item.status === 'done').length;
+    const failed = items.filter(item => item.status === 'error').length;
+    const locked = items.filter(item => item.status === 'locked').length;
+
+    // 処理中の項目は個別の進捗を加味する
+    const partial = items
+      .filter(item => !this.isFinished(item))
+      .reduce((sum, item) => sum + item.progress / 100, 0);
+
+    return {
+      total,
+      done,
+      failed,
+      locked,
+      remaining: total - done - failed - locked,
+      progress: total === 0 ? 0 : ((done + failed + locked + partial) / total) * 100
+    };
+  }
+
+  /**
+   * 項目が保持するプレビューURLを解放
+   */
+  static revokePreviews(item: QueueItem): void {
+    if (item.originalPreview) {
+      URL.revokeObjectURL(item.originalPreview);
+    }
+    if (item.compressedPreview) {
+      URL.revokeObjectURL(item.compressedPreview);
+    }
+    item.variants?.forEach((variant) => {
+      if (variant.preview) {
+        URL.revokeObjectURL(variant.preview);
+      }
+    });
+    item.pageThumbnails?.forEach((thumbnail) => {
+      if (thumbnail) {
+        URL.revokeObjectURL(thumbnail);
+      }
+    });
+  }
+
+  /**
+   * 圧縮後ファイルの保存名（元のファイル名 + サービス名 + 出力形式の拡張子）
+   */
+  static getOutputFileName(item: QueueItem, variant?: OutputVariant): string {
+    const outputType = (variant ? variant.blob.type : item.compressedBlob?.type) || item.file.type;
+    const extension = OutputFormatResolver.getExtension(outputType);
+    // sanitizeFileName の長さ制限で拡張子が切れないよう、先にベース名を短くする
+    const baseName = item.file.name.replace(/\.[^.]+$/, '').substring(0, 80);
+    const suffix = variant ? `_${variant.key}` : '';
+    return FileSecurityValidator.sanitizeFileName(`${baseName}${suffix}.${extension}`);
+  }
+
+  /**
+   * 完了済みの全項目をZIPアーカイブにまとめる
+   */
+  static async createArchive(items: QueueItem[], includeManifest: boolean): Promise<Blob> {
+    const completed = items.filter(item => item.status === 'done' && item.compressedBlob);
+    const usedNames = new Set<string>();
+    const entries: ZipEntry[] = [];
+    const manifest: ManifestEntry[] = [];
+
+    for (const item of completed) {
+      // サービス別の出力がある場合はそれぞれを格納
+      const outputs: { name: string, output: CompressionOutput }[] = item.variants?.length
+        ? item.variants.map(variant => ({ name: this.getOutputFileName(item, variant), output: variant }))
+        : [{ name: this.getOutputFileName(item), output: { blob: item.compressedBlob!, dimensions: item.dimensions ?? null, sizeGuard: item.sizeGuard } }];
+
+      for (const { name: outputName, output } of outputs) {
+        const name = ZipWriter.uniqueName(outputName, usedNames);
+        entries.push({ name, data: new Uint8Array(await output.blob.arrayBuffer()) });
+        manifest.push({
+          name,
+          source: FileSecurityValidator.sanitizeFileName(item.file.name),
+          originalSize: item.file.size,
+          compressedSize: output.blob.size,
+          width: output.dimensions?.width ?? null,
+          height: output.dimensions?.height ?? null,
+          strategy: output.sizeGuard?.strategy ?? 'compressed'
+        });
+      }
+    }
+
+    if (includeManifest) {
+      const manifestJson = JSON.stringify({
+        generatedAt: new Date().toISOString(),
+        files: manifest
+      }, null, 2);
+      entries.push({
+        name: ZipWriter.uniqueName('manifest.json', usedNames),
+        data: new TextEncoder().encode(manifestJson)
+      });
+    }
+
+    return ZipWriter.createZip(entries);
+  }
+
+  /**
+   * ステータスの表示ラベル
+   */
+  static getStatusLabel(status: QueueItemStatus): string {
+    switch (status) {
+      case 'pending':
+        return '待機中';
+      case 'validating':
+        return 'ファイル検証中';
+      case 'scanning':
+        return 'スキャン中';
+      case 'compressing':
+        return '圧縮中';
+      case 'done':
+        return '完了';
+      case 'locked':
+        return 'パスワード待ち';
+      case 'error':
+        return 'エラー';
+    }
+  }
+}
@@ -0,0 +1,109 @@
+// メインスレッドとWeb Workerの両方で使えるcanvas操作
+
+import type { ImageDimensions } from '@/lib/resize';
+
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type AnyCanvasContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+export type DrawableImage = ImageBitmap | HTMLImageElement;
+
+export class CanvasUtils {
+
+  /**
+   * OffscreenCanvas が使える環境か（Worker内での描画に必要）
+   */
+  static isOffscreenSupported(): boolean {
+    return typeof OffscreenCanvas !== 'undefined'
+      && typeof OffscreenCanvas.prototype.convertToBlob === 'function'
+      && typeof createImageBitmap === 'function';
+  }
+
+  /**
+   * canvas を生成（DOMがない環境では OffscreenCanvas）
+   */
+  static createCanvas(width: number, height: number): AnyCanvas {
+    if (typeof document === 'undefined') {
+      return new OffscreenCanvas(width, height);
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+
+  static getContext(canvas: AnyCanvas): AnyCanvasContext | null {
+    return canvas.getContext('2d') as AnyCanvasContext | null;
+  }
+
+  /**
+   * canvas をエンコードしてBlobを取得
+   */
+  static toBlob(canvas: AnyCanvas, type: string, quality?: number): Promise<Blob> {
+    if (!(typeof HTMLCanvasElement !== 'undefined' && canvas instanceof HTMLCanvasElement)) {
+      return (canvas as OffscreenCanvas).convertToBlob({ type, quality });
+    }
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => {
+          if (blob) {
+            resolve(blob);
+          } else {
+            reject(new Error('Failed to compress image'));
+          }
+        },
+        type,
+        quality
+      );
+    });
+  }
+
+  /**
+   * 描画済みの内容をグレースケールに変換（ITU-R BT.601 の輝度）
+   */
+  static toGrayscale(ctx: AnyCanvasContext, width: number, height: number): void {
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const data = imageData.data;
+    for (let i = 0; i < data.length; i += 4) {
+      const luminance = Math.round(data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114);
+      data[i] = luminance;
+      data[i + 1] = luminance;
+      data[i + 2] = luminance;
+    }
+    ctx.putImageData(imageData, 0, 0);
+  }
+
+  /**
+   * ファイルを描画可能な画像として読み込み
+   * Worker内で resizeTo を指定した場合は、デコード時にその寸法まで縮小する（メインスレッドでは無視）
+   */
+  static async loadImage(file: Blob, resizeTo?: ImageDimensions): Promise<DrawableImage> {
+    if (typeof document === 'undefined') {
+      return resizeTo
+        ? createImageBitmap(file, { resizeWidth: resizeTo.width, resizeHeight: resizeTo.height, resizeQuality: 'high' })
+        : createImageBitmap(file);
+    }
+
+    return new Promise((resolve, reject) => {
+      const img = new Image();
+      const url = URL.createObjectURL(file);
+      img.onload = () => {
+        URL.revokeObjectURL(url);
+        resolve(img);
+      };
+      img.onerror = (error) => {
+        URL.revokeObjectURL(url);
+        reject(error);
+      };
+      img.src = url;
+    });
+  }
+
+  /**
+   * 読み込んだ画像のリソースを解放
+   */
+  static releaseImage(image: DrawableImage): void {
+    if (typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap) {
+      image.close();
+    }
+  }
+}
@@ -0,0 +1,35 @@
+// ZIP・PNGなどで使うチェックサム計算
+
+let crcTable: Uint32Array | null = null;
+
+export class Checksum {
+
+  /**
+   * CRC-32 計算
+   * 分割したデータは前回の戻り値を crc に渡して続きから計算できる
+   */
+  static crc32(data: Uint8Array, crc = 0): number {
+    const table = this.getCrcTable();
+    let value = (crc ^ 0xFFFFFFFF) >>> 0;
+
+    for (let i = 0; i < data.length; i++) {
+      value = table[(value ^ data[i]) & 0xFF] ^ (value >>> 8);
+    }
+
+    return (value ^ 0xFFFFFFFF) >>> 0;
+  }
+
+  private static getCrcTable(): Uint32Array {
+    if (!crcTable) {
+      crcTable = new Uint32Array(256);
+      for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+          c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        }
+        crcTable[n] = c >>> 0;
+      }
+    }
+    return crcTable;
+  }
+}
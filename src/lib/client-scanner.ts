@@ -1,72 +1,96 @@
 // クライアントサイドスキャン機能
 
+import {
+  ScanRuleEngine,
+  SCAN_SCOPE_LABELS,
+  SCAN_SEVERITY_LABELS,
+  type ScanRuleMatch,
+  type ScanRuleSet
+} from '@/lib/scan-rules';
+import { ScanContextExtractor } from '@/lib/scan-context';
+import { SlidingEntropy } from '@/lib/entropy';
+import defaultScanRules from '@/lib/default-scan-rules.json';
+
 export interface ScanResult {
   safe: boolean;
   threats: string[];
   warnings: string[];
+  // 一致したルールの重みの合計と、一致したルール
+  score: number;
+  matches: ScanRuleMatch[];
+  // ファイル内で最もエントロピーが高い窓（1バイトあたりのビット数）
+  maxEntropy: number;
+}
+
+export interface ScanOptions {
+  // シグネチャで判定した形式（形式ごとのルールと範囲の選択に使う）
+  mimeType?: string;
+  // 形式の終端（これ以降の付加データを trailing の範囲として調べる）
+  trailingOffset?: number;
+  // 読み込んだ割合（0〜1）
+  onProgress?: (ratio: number) => void;
+  // 中止した場合は scanFile が AbortError で終わる
+  signal?: AbortSignal;
+  // 検証で読み込み済みのファイルの内容（渡した場合はファイルを読み直さず、PDFの解析にもそのまま使う）
+  data?: Uint8Array;
 }
 
+// 配信するサイトに置くと同梱のルールの代わりに使うルールファイル（ビルドし直さずに調整できる）
+// public に置いたファイルは basePath の下で配信されるため、設定した公開パスを前に付ける
+const SCAN_RULES_URL = `${process.env.NEXT_PUBLIC_BASE_PATH ?? ''}/scan-rules.json`;
+
+// 暗号化・圧縮されたデータとみなすエントロピー（1バイトあたりのビット数）
+const HIGH_ENTROPY_THRESHOLD = 7.5;
+
+// 読み込み済みの内容を照合に渡す単位
+const DATA_CHUNK_SIZE = 1024 * 1024;
+
 export class ClientFileScanner {
-  
-  private static readonly DANGEROUS_PATTERNS = [
-    // JavaScript実行可能コード
-    /<script[^>]*>/i,
-    /javascript:/i,
-    /eval\s*\(/i,
-    /setTimeout\s*\(/i,
-    /setInterval\s*\(/i,
-    
-    // 危険なHTMLタグ
-    /<iframe[^>]*>/i,
-    /<object[^>]*>/i,
-    /<embed[^>]*>/i,
-    /<form[^>]*>/i,
-    
-    // 実行可能ファイルの特徴
-    /MZ[\x00-\xff]{58}PE/,  // PEヘッダー (Windows実行ファイル)
-    /\x7fELF/,              // ELF (Linux実行ファイル)
-    /\xcf\xfa\xed\xfe/,     // Mach-O (macOS実行ファイル)
-  ];
-
-  private static readonly SUSPICIOUS_STRINGS = [
-    'cmd.exe',
-    'powershell',
-    'bash',
-    'sh',
-    '/bin/',
-    'system(',
-    'exec(',
-    'shell_exec',
-    'passthru',
-    'proc_open',
-    'popen',
-    'file_get_contents',
-    'curl_exec',
-    'wget',
-    'download'
-  ];
+
+  private static ruleSet: ScanRuleSet = ScanRuleEngine.parse(defaultScanRules);
+  private static rulesLoading: Promise<void> | null = null;
+
+  /**
+   * サイトに置かれたルールファイルを読み込む（最初のスキャンで1回だけ。ない・不正な場合は同梱のルールを使う）
+   */
+  private static async loadRules(): Promise<void> {
+    try {
+      const response = await fetch(SCAN_RULES_URL, { cache: 'no-cache' });
+      if (!response.ok) return;
+      this.ruleSet = ScanRuleEngine.parse(await response.json());
+    } catch (error) {
+      console.error('Failed to load scan rules, using the bundled rules:', error);
+    }
+  }
 
   /**
    * ファイルの簡易スキャンを実行
    */
-  static async scanFile(file: File): Promise<ScanResult> {
+  static async scanFile(file: File, options: ScanOptions = {}): Promise<ScanResult> {
+    this.rulesLoading ??= this.loadRules();
+    await this.rulesLoading;
+
     const result: ScanResult = {
       safe: true,
       threats: [],
-      warnings: []
+      warnings: [],
+      score: 0,
+      matches: [],
+      maxEntropy: 0
     };
 
     try {
       // ファイル名チェック
       this.scanFileName(file.name, result);
       
-      // ファイル内容チェック（テキスト可能な部分のみ）
-      await this.scanFileContent(file, result);
-      
-      // ファイル構造チェック
-      await this.scanFileStructure(file, result);
+      // ルールによるスキャン（ファイル全体と、形式の構造に沿った範囲ごと）
+      await this.scanWithRules(file, options, result);
 
     } catch (error) {
+      // 中止は呼び出し元に伝える
+      if (options.signal?.aborted) {
+        throw error;
+      }
       console.error('File scan error:', error);
       result.warnings.push('スキャン中にエラーが発生しました');
     }
@@ -103,130 +127,99 @@ export class ClientFileScanner {
   }
 
   /**
-   * ファイル内容スキャン
+   * ルールセットを適用し、スコアに応じて注意・危険と判定
    */
-  private static async scanFileContent(file: File, result: ScanResult): Promise<void> {
-    try {
-      // ファイルサイズが大きすぎる場合は先頭部分のみスキャン
-      const maxScanSize = Math.min(file.size, 1024 * 1024); // 1MB
-      const buffer = await this.readFileBuffer(file, 0, maxScanSize);
-      const content = new TextDecoder('utf-8', { fatal: false }).decode(buffer);
-
-      // 危険なパターンをチェック
-      for (const pattern of this.DANGEROUS_PATTERNS) {
-        if (pattern.test(content)) {
-          result.safe = false;
-          result.threats.push('危険なコードパターンが検出されました');
-          break;
-        }
-      }
-
-      // 疑わしい文字列をチェック
-      const suspiciousCount = this.SUSPICIOUS_STRINGS.filter(str => 
-        content.toLowerCase().includes(str.toLowerCase())
-      ).length;
+  private static async scanWithRules(file: File, options: ScanOptions, result: ScanResult): Promise<void> {
+    const mimeType = options.mimeType ?? file.type;
+    const matcher = ScanRuleEngine.createStreamMatcher(this.ruleSet, mimeType, options.trailingOffset);
+    // 画像やPDFの本体は圧縮されていてエントロピーが高いのが普通のため、付加データの中だけを報告する
+    const entropy = new SlidingEntropy(HIGH_ENTROPY_THRESHOLD, options.trailingOffset ?? Infinity);
+    // メタデータなどの範囲を調べるルールがある場合だけ、同じ読み込みの中で形式の構造から取り出す
+    const scopes = ScanRuleEngine.getScopes(this.ruleSet, mimeType);
+    const extractor = [...scopes].some(scope => scope !== 'file' && scope !== 'trailing')
+      ? new ScanContextExtractor(mimeType, options.data)
+      : null;
+    // PDFは読み込み後の解析が残るため、その分の進捗を残しておく
+    const streamShare = extractor?.deferred ? 0.9 : 1;
+    await this.scanStream(file, [matcher, entropy, ...(extractor ? [extractor] : [])], {
+      ...options,
+      onProgress: ratio => options.onProgress?.(ratio * streamShare)
+    });
 
-      if (suspiciousCount > 2) {
-        result.warnings.push('疑わしいコマンドが複数検出されました');
-      }
+    options.signal?.throwIfAborted();
+    const regions = extractor ? await extractor.finish() : [];
+    options.signal?.throwIfAborted();
+    options.onProgress?.(1);
 
-      // 高エントロピーチェック（暗号化・難読化の可能性）
-      const entropy = this.calculateEntropy(content.slice(0, 1000));
-      if (entropy > 7.5) {
-        result.warnings.push('高エントロピーコンテンツが検出されました（暗号化・難読化の可能性）');
-      }
+    const evaluation = ScanRuleEngine.evaluate(this.ruleSet, regions, mimeType, matcher);
+    result.score = evaluation.score;
+    result.matches = evaluation.matches;
+    result.maxEntropy = entropy.max?.entropy ?? 0;
 
-    } catch (error) {
-      // テキストとして読み込めない場合は正常
+    // 閾値に満たない一致は報告しない（偶然の一致による誤検知を避ける）
+    const descriptions = evaluation.matches.map(match => this.describeMatch(match));
+    if (evaluation.verdict === 'threat') {
+      result.safe = false;
+      result.threats.push(...descriptions);
+    } else if (evaluation.verdict === 'warning') {
+      result.warnings.push(...descriptions);
     }
-  }
 
-  /**
-   * ファイル構造スキャン
-   */
-  private static async scanFileStructure(file: File, result: ScanResult): Promise<void> {
-    try {
-      const headerSize = Math.min(file.size, 512);
-      const buffer = await this.readFileBuffer(file, 0, headerSize);
-      const bytes = new Uint8Array(buffer);
-
-      // ZIPアーカイブ内の実行ファイルチェック
-      if (this.isZipFile(bytes)) {
-        result.warnings.push('アーカイブファイルが検出されました');
-      }
-
-      // 隠されたデータストリーム
-      if (this.hasHiddenStreams(bytes)) {
-        result.warnings.push('隠しデータストリームの可能性があります');
-      }
-
-    } catch (error) {
-      // エラーは無視
+    const [high] = entropy.high;
+    if (high) {
+      result.warnings.push(
+        `付加データに高エントロピーの領域があります（オフセット ${high.offset}・${high.entropy.toFixed(2)}ビット/バイト。暗号化・圧縮されたデータの可能性）`
+      );
     }
   }
 
   /**
-   * ファイルバッファ読み込み
+   * ファイル全体をチャンクに分けて読み、照合・エントロピーの計算・範囲の取り出しを進める
    */
-  private static readFileBuffer(file: File, start: number, length: number): Promise<ArrayBuffer> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as ArrayBuffer);
-      reader.onerror = reject;
-      
-      const blob = file.slice(start, start + length);
-      reader.readAsArrayBuffer(blob);
-    });
+  private static async scanStream(
+    file: File,
+    consumers: { push(chunk: Uint8Array): void }[],
+    options: ScanOptions
+  ): Promise<void> {
+    let position = 0;
+    for await (const chunk of this.readChunks(file, options)) {
+      consumers.forEach(consumer => consumer.push(chunk));
+      position += chunk.length;
+      options.onProgress?.(file.size > 0 ? position / file.size : 1);
+    }
   }
 
   /**
-   * エントロピー計算
+   * 読み込み済みの内容があればその一部分を、なければファイルを読みながら順に返す
    */
-  private static calculateEntropy(text: string): number {
-    const freq: Record<string, number> = {};
-    
-    for (const char of text) {
-      freq[char] = (freq[char] || 0) + 1;
+  private static async *readChunks(file: File, options: ScanOptions): AsyncGenerator<Uint8Array> {
+    const { data, signal } = options;
+    if (data) {
+      for (let offset = 0; offset < data.length; offset += DATA_CHUNK_SIZE) {
+        signal?.throwIfAborted();
+        yield data.subarray(offset, offset + DATA_CHUNK_SIZE);
+        // 読み込み済みでも、チャンクごとに進捗の表示と中止の操作を反映させる
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+      return;
     }
 
-    let entropy = 0;
-    const len = text.length;
-
-    for (const count of Object.values(freq)) {
-      const p = count / len;
-      entropy -= p * Math.log2(p);
+    const reader = file.stream().getReader();
+    try {
+      while (true) {
+        signal?.throwIfAborted();
+        const { done, value } = await reader.read();
+        if (done) return;
+        yield value;
+      }
+    } finally {
+      void reader.cancel().catch(() => undefined);
     }
-
-    return entropy;
-  }
-
-  /**
-   * ZIPファイル判定
-   */
-  private static isZipFile(bytes: Uint8Array): boolean {
-    // ZIP signature: PK
-    return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4B;
   }
 
-  /**
-   * 隠しデータストリーム検出
-   */
-  private static hasHiddenStreams(bytes: Uint8Array): boolean {
-    // NTFS Alternative Data Stream signature
-    const adsPattern = [0x3A, 0x24, 0x44, 0x41, 0x54, 0x41]; // :$DATA
-    
-    for (let i = 0; i < bytes.length - adsPattern.length; i++) {
-      let match = true;
-      for (let j = 0; j < adsPattern.length; j++) {
-        if (bytes[i + j] !== adsPattern[j]) {
-          match = false;
-          break;
-        }
-      }
-      if (match) return true;
-    }
-    
-    return false;
+  private static describeMatch(match: ScanRuleMatch): string {
+    const position = match.offset !== undefined ? `・オフセット ${match.offset}` : '';
+    return `${match.description}（${SCAN_SCOPE_LABELS[match.scope]}${position}・重大度 ${SCAN_SEVERITY_LABELS[match.severity]}）`;
   }
 
   /**
@@ -238,7 +231,8 @@ export class ClientFileScanner {
     }
 
     if (!result.safe) {
-      return `⚠️ 危険な要素が検出されました: ${result.threats.join(', ')}`;
+      const score = result.score > 0 ? `（スコア ${result.score}）` : '';
+      return `⚠️ 危険な要素が検出されました${score}: ${result.threats.join(', ')}`;
     }
 
     if (result.warnings.length > 0) {
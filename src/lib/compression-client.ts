@@ -0,0 +1,196 @@
+// 圧縮処理の呼び出し口
+// Web Worker（OffscreenCanvas）で実行し、Workerを使えない環境ではメインスレッドで実行する
+// （圧縮そのものの失敗はメインスレッドで同じ処理をやり直しても変わらないため、そのまま伝える）
+
+import {
+  ImageCompressor,
+  type ImageCompressionOptions,
+  type ImageCompressionResult
+} from '@/lib/image-compressor';
+import {
+  PdfCompressor,
+  type PdfCompressionOptions,
+  type PdfCompressionResult,
+  type ProgressCallback
+} from '@/lib/pdf-compressor';
+import {
+  PdfPageExporter,
+  type PdfPageExportOptions,
+  type PdfPageImage
+} from '@/lib/pdf-page-exporter';
+import { PdfPasswordError, type PdfPasswordReason } from '@/lib/pdf-renderer';
+import { CanvasUtils } from '@/lib/canvas';
+
+export type CompressionRequest =
+  | { id: number; kind: 'image'; file: File; options: ImageCompressionOptions }
+  | { id: number; kind: 'pdf'; data: ArrayBuffer; options: PdfCompressionOptions }
+  | { id: number; kind: 'pdf-pages'; data: ArrayBuffer; options: PdfPageExportOptions };
+
+type CompressionResult = ImageCompressionResult | PdfCompressionResult | PdfPageImage[];
+
+export type CompressionResponse =
+  | { id: number; type: 'progress'; progress: number; message?: string }
+  | { id: number; type: 'result'; result: CompressionResult }
+  | { id: number; type: 'error'; message: string; passwordReason?: PdfPasswordReason; unavailable?: boolean };
+
+type RequestPayload =
+  | Omit<Extract<CompressionRequest, { kind: 'image' }>, 'id'>
+  | Omit<Extract<CompressionRequest, { kind: 'pdf' }>, 'id'>
+  | Omit<Extract<CompressionRequest, { kind: 'pdf-pages' }>, 'id'>;
+
+interface PendingRequest {
+  resolve: (result: CompressionResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * Workerで圧縮できない場合のエラー（読み込めない・Worker内で OffscreenCanvas が使えない）
+ */
+export class WorkerUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkerUnavailableError';
+  }
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let requestCounter = 0;
+const pendingRequests = new Map<number, PendingRequest>();
+
+export class CompressionClient {
+
+  /**
+   * Worker での圧縮が使えるか
+   */
+  static isWorkerAvailable(): boolean {
+    return !workerFailed
+      && typeof Worker !== 'undefined'
+      && CanvasUtils.isOffscreenSupported();
+  }
+
+  /**
+   * 画像を圧縮
+   */
+  static async compressImage(
+    file: File,
+    options: ImageCompressionOptions
+  ): Promise<ImageCompressionResult> {
+    if (this.isWorkerAvailable()) {
+      try {
+        return await this.run({ kind: 'image', file, options }) as ImageCompressionResult;
+      } catch (error) {
+        if (!(error instanceof WorkerUnavailableError)) throw error;
+        console.warn('Compression worker unavailable, compressing image on main thread:', error);
+      }
+    }
+
+    return ImageCompressor.compress(file, options);
+  }
+
+  /**
+   * PDFを圧縮
+   */
+  static async compressPDF(
+    file: File,
+    options: PdfCompressionOptions,
+    onProgress: ProgressCallback = () => {}
+  ): Promise<PdfCompressionResult> {
+    const data = await file.arrayBuffer();
+
+    if (this.isWorkerAvailable()) {
+      try {
+        return await this.run({ kind: 'pdf', data, options }, onProgress) as PdfCompressionResult;
+      } catch (error) {
+        if (!(error instanceof WorkerUnavailableError)) throw error;
+        console.warn('Compression worker unavailable, compressing PDF on main thread:', error);
+      }
+    }
+
+    return PdfCompressor.compress(data, options, onProgress);
+  }
+
+  /**
+   * PDFの各ページを画像として書き出す
+   */
+  static async exportPdfPages(
+    file: File,
+    options: PdfPageExportOptions,
+    onProgress: ProgressCallback = () => {}
+  ): Promise<PdfPageImage[]> {
+    const data = await file.arrayBuffer();
+
+    if (this.isWorkerAvailable()) {
+      try {
+        return await this.run({ kind: 'pdf-pages', data, options }, onProgress) as PdfPageImage[];
+      } catch (error) {
+        if (!(error instanceof WorkerUnavailableError)) throw error;
+        console.warn('Compression worker unavailable, exporting PDF pages on main thread:', error);
+      }
+    }
+
+    return PdfPageExporter.export(data, options, onProgress);
+  }
+
+  /**
+   * Worker にリクエストを送信して結果を待つ
+   */
+  private static run(
+    payload: RequestPayload,
+    onProgress?: ProgressCallback
+  ): Promise<CompressionResult> {
+    const target = this.getWorker();
+    const id = ++requestCounter;
+
+    return new Promise((resolve, reject) => {
+      pendingRequests.set(id, { resolve, reject, onProgress });
+      target.postMessage({ ...payload, id } as CompressionRequest);
+    });
+  }
+
+  private static getWorker(): Worker {
+    if (worker) {
+      return worker;
+    }
+
+    const created = new Worker(new URL('./compression.worker.ts', import.meta.url), { type: 'module' });
+
+    created.onmessage = (event: MessageEvent<CompressionResponse>) => {
+      const response = event.data;
+      const request = pendingRequests.get(response.id);
+      if (!request) return;
+
+      switch (response.type) {
+        case 'progress':
+          request.onProgress?.(response.progress, response.message);
+          break;
+        case 'result':
+          pendingRequests.delete(response.id);
+          request.resolve(response.result);
+          break;
+        case 'error':
+          pendingRequests.delete(response.id);
+          request.reject(response.passwordReason
+            ? new PdfPasswordError(response.passwordReason)
+            : response.unavailable ? new WorkerUnavailableError(response.message) : new Error(response.message));
+          break;
+      }
+    };
+
+    // Worker自体が読み込めない場合は以降メインスレッドで処理する
+    created.onerror = (event) => {
+      event.preventDefault();
+      workerFailed = true;
+      created.terminate();
+      worker = null;
+
+      const error = new WorkerUnavailableError(event.message || 'Compression worker failed to load');
+      pendingRequests.forEach(request => request.reject(error));
+      pendingRequests.clear();
+    };
+
+    worker = created;
+    return created;
+  }
+}
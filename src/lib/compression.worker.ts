@@ -0,0 +1,54 @@
+// 圧縮処理を実行する Web Worker
+
+import { ImageCompressor } from '@/lib/image-compressor';
+import { PdfCompressor } from '@/lib/pdf-compressor';
+import { PdfPageExporter } from '@/lib/pdf-page-exporter';
+import { PdfPasswordError } from '@/lib/pdf-renderer';
+import { CanvasUtils } from '@/lib/canvas';
+import type { CompressionRequest, CompressionResponse } from '@/lib/compression-client';
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<CompressionRequest>) => void) | null;
+  postMessage(message: CompressionResponse): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+scope.onmessage = async (event) => {
+  const request = event.data;
+
+  // Worker内で描画できない環境では、メインスレッドで処理するよう伝える
+  if (!CanvasUtils.isOffscreenSupported()) {
+    scope.postMessage({ id: request.id, type: 'error', message: 'OffscreenCanvas is not available in the worker', unavailable: true });
+    return;
+  }
+
+  try {
+    if (request.kind === 'image') {
+      const result = await ImageCompressor.compress(request.file, request.options);
+      scope.postMessage({ id: request.id, type: 'result', result });
+    } else if (request.kind === 'pdf-pages') {
+      const result = await PdfPageExporter.export(
+        request.data,
+        request.options,
+        (progress, message) => scope.postMessage({ id: request.id, type: 'progress', progress, message })
+      );
+      scope.postMessage({ id: request.id, type: 'result', result });
+    } else {
+      const result = await PdfCompressor.compress(
+        request.data,
+        request.options,
+        (progress, message) => scope.postMessage({ id: request.id, type: 'progress', progress, message })
+      );
+      scope.postMessage({ id: request.id, type: 'result', result });
+    }
+  } catch (error) {
+    scope.postMessage({
+      id: request.id,
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      // パスワードの誤りなどはメインスレッドで同じエラーとして扱う
+      passwordReason: error instanceof PdfPasswordError ? error.reason : undefined
+    });
+  }
+};
@@ -0,0 +1,92 @@
+// バイト列のシャノンエントロピー（1バイトあたりのビット数。0〜8）
+// チャンクごとに受け取りながら、一定の幅の窓をずらして計算する
+
+// 窓の幅と、エントロピーを計算する間隔
+const WINDOW_SIZE = 4096;
+const WINDOW_STEP = 1024;
+
+export interface EntropyWindow {
+  // 窓の開始位置
+  offset: number;
+  entropy: number;
+}
+
+export class SlidingEntropy {
+  // count × log2(count) の表（窓の中の出現回数から計算するため）
+  private static table: Float64Array | null = null;
+
+  private readonly counts = new Uint32Array(256);
+  private readonly ring = new Uint8Array(WINDOW_SIZE);
+  // 受け取ったバイト数
+  private position = 0;
+  private maxWindow: EntropyWindow | null = null;
+  private readonly highWindows: EntropyWindow[] = [];
+
+  /**
+   * threshold 以上の窓のうち、from 以降に始まるものを記録する（付加データの範囲など）
+   */
+  constructor(private readonly threshold: number, private readonly from = 0, private readonly maxRecorded = 10) {}
+
+  push(chunk: Uint8Array): void {
+    const { counts, ring } = this;
+    for (let i = 0; i < chunk.length; i++) {
+      const slot = this.position % WINDOW_SIZE;
+      if (this.position >= WINDOW_SIZE) {
+        counts[ring[slot]]--;
+      }
+      ring[slot] = chunk[i];
+      counts[chunk[i]]++;
+      this.position++;
+
+      if (this.position >= WINDOW_SIZE && (this.position - WINDOW_SIZE) % WINDOW_STEP === 0) {
+        this.record(this.position - WINDOW_SIZE, this.calculate(WINDOW_SIZE));
+      }
+    }
+  }
+
+  /**
+   * 最もエントロピーが高い窓（窓の幅より短いデータは全体を1つの窓とする）
+   */
+  get max(): EntropyWindow | null {
+    if (this.maxWindow || this.position === 0) {
+      return this.maxWindow;
+    }
+    return { offset: 0, entropy: this.calculate(this.position) };
+  }
+
+  /**
+   * threshold 以上の窓（from 以降に始まるもの。最大 maxRecorded 件）
+   */
+  get high(): EntropyWindow[] {
+    return this.highWindows;
+  }
+
+  private record(offset: number, entropy: number): void {
+    if (!this.maxWindow || entropy > this.maxWindow.entropy) {
+      this.maxWindow = { offset, entropy };
+    }
+    if (entropy >= this.threshold && offset >= this.from && this.highWindows.length < this.maxRecorded) {
+      this.highWindows.push({ offset, entropy });
+    }
+  }
+
+  private calculate(length: number): number {
+    const table = SlidingEntropy.getTable();
+    let sum = 0;
+    for (let value = 0; value < 256; value++) {
+      sum += table[this.counts[value]];
+    }
+    // H = log2(n) - Σ c log2(c) / n
+    return Math.log2(length) - sum / length;
+  }
+
+  private static getTable(): Float64Array {
+    if (!this.table) {
+      this.table = new Float64Array(WINDOW_SIZE + 1);
+      for (let count = 1; count <= WINDOW_SIZE; count++) {
+        this.table[count] = count * Math.log2(count);
+      }
+    }
+    return this.table;
+  }
+}
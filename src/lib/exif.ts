@@ -0,0 +1,340 @@
+// JPEGのEXIF（APP1）の読み取り・書き出しと向きの補正
+
+import { CanvasUtils, type AnyCanvasContext } from '@/lib/canvas';
+
+export type ExifMetadataField = 'artist' | 'copyright' | 'dateTimeOriginal';
+
+export interface ExifData {
+  // 1〜8（1 = 補正不要）
+  orientation: number;
+  artist?: string;
+  copyright?: string;
+  // 撮影日時（"YYYY:MM:DD HH:MM:SS"）
+  dateTimeOriginal?: string;
+}
+
+export const EXIF_METADATA_FIELDS: Record<ExifMetadataField, string> = {
+  copyright: '著作権',
+  artist: '撮影者',
+  dateTimeOriginal: '撮影日時'
+};
+
+// EXIFは先頭のAPPセグメントにあるため、先頭部分だけ読めば足りる
+export const EXIF_SCAN_LENGTH = 256 * 1024;
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_ARTIST = 0x013B;
+const TAG_COPYRIGHT = 0x8298;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+// 型ごとの1要素あたりのバイト数
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  data: Uint8Array;
+}
+
+let orientationAppliedByBrowser: Promise<boolean> | null = null;
+
+export class ExifProcessor {
+
+  /**
+   * JPEGのバイト列からEXIFを読み取る（EXIFがない・壊れている場合は null）
+   */
+  static read(bytes: Uint8Array): ExifData | null {
+    if (bytes.length < 4 || bytes[0] !== 0xFF || bytes[1] !== 0xD8) {
+      return null;
+    }
+
+    let offset = 2;
+    while (offset + 4 <= bytes.length) {
+      if (bytes[offset] !== 0xFF) {
+        return null;
+      }
+      const marker = bytes[offset + 1];
+      // 詰め物の 0xFF は読み飛ばす
+      if (marker === 0xFF) {
+        offset++;
+        continue;
+      }
+      // 画像データ（SOS）またはEOIに達したら終了
+      if (marker === 0xDA || marker === 0xD9) {
+        return null;
+      }
+
+      const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+      if (length < 2) {
+        return null;
+      }
+
+      if (marker === 0xE1 && this.hasExifHeader(bytes, offset + 4)) {
+        const start = offset + 4 + EXIF_HEADER.length;
+        const end = Math.min(bytes.length, offset + 2 + length);
+        try {
+          return this.parseTiff(bytes.subarray(start, end));
+        } catch {
+          return null;
+        }
+      }
+
+      offset += 2 + length;
+    }
+
+    return null;
+  }
+
+  /**
+   * 指定した項目だけを含むEXIF（APP1）セグメントを作成
+   * 画素は補正済みのため、向きは常に1（補正不要）として書き出す
+   */
+  static createSegment(data: ExifData, fields: ExifMetadataField[]): Uint8Array | null {
+    const text = (value: string) => new TextEncoder().encode(`${value}\0`);
+    const ascii = (tag: number, value: string): IfdEntry => {
+      const encoded = text(value);
+      return { tag, type: TYPE_ASCII, count: encoded.length, data: encoded };
+    };
+
+    const ifd0: IfdEntry[] = [];
+    const exifIfd: IfdEntry[] = [];
+
+    if (fields.includes('artist') && data.artist) {
+      ifd0.push(ascii(TAG_ARTIST, data.artist));
+    }
+    if (fields.includes('copyright') && data.copyright) {
+      ifd0.push(ascii(TAG_COPYRIGHT, data.copyright));
+    }
+    if (fields.includes('dateTimeOriginal') && data.dateTimeOriginal) {
+      exifIfd.push(ascii(TAG_DATE_TIME_ORIGINAL, data.dateTimeOriginal));
+    }
+
+    if (ifd0.length === 0 && exifIfd.length === 0) {
+      return null;
+    }
+
+    ifd0.push({ tag: TAG_ORIENTATION, type: TYPE_SHORT, count: 1, data: new Uint8Array([0, 1]) });
+
+    // IFD0 の直後に Exif IFD を配置する（TIFFヘッダー8バイト + IFD0）
+    const exifPointer = new Uint8Array(4);
+    if (exifIfd.length > 0) {
+      ifd0.push({ tag: TAG_EXIF_IFD, type: TYPE_LONG, count: 1, data: exifPointer });
+    }
+    ifd0.sort((a, b) => a.tag - b.tag);
+
+    const ifd0Size = this.getIfdSize(ifd0);
+    new DataView(exifPointer.buffer).setUint32(0, 8 + ifd0Size);
+
+    const tiffHeader = new Uint8Array([0x4D, 0x4D, 0x00, 0x2A, 0x00, 0x00, 0x00, 0x08]); // "MM", 42, IFD0は8バイト目
+    const parts = [tiffHeader, this.writeIfd(ifd0, 8)];
+    if (exifIfd.length > 0) {
+      parts.push(this.writeIfd(exifIfd, 8 + ifd0Size));
+    }
+
+    const tiffLength = parts.reduce((sum, part) => sum + part.length, 0);
+    const segmentLength = 2 + EXIF_HEADER.length + tiffLength;
+    if (segmentLength > 0xFFFF) {
+      return null;
+    }
+
+    const segment = new Uint8Array(2 + segmentLength);
+    segment[0] = 0xFF;
+    segment[1] = 0xE1;
+    segment[2] = segmentLength >> 8;
+    segment[3] = segmentLength & 0xFF;
+    segment.set(EXIF_HEADER, 4);
+    let position = 4 + EXIF_HEADER.length;
+    for (const part of parts) {
+      segment.set(part, position);
+      position += part.length;
+    }
+    return segment;
+  }
+
+  /**
+   * JPEGにセグメントを挿入（SOIとJFIFのAPP0の直後）
+   */
+  static insertSegment(jpeg: Uint8Array, segment: Uint8Array): Uint8Array {
+    let insertAt = 2;
+    if (jpeg[2] === 0xFF && jpeg[3] === 0xE0) {
+      insertAt = 4 + ((jpeg[4] << 8) | jpeg[5]);
+    }
+
+    const output = new Uint8Array(jpeg.length + segment.length);
+    output.set(jpeg.subarray(0, insertAt), 0);
+    output.set(segment, insertAt);
+    output.set(jpeg.subarray(insertAt), insertAt + segment.length);
+    return output;
+  }
+
+  /**
+   * 向きを反映した寸法
+   */
+  static getOrientedSize(width: number, height: number, orientation: number): { width: number, height: number } {
+    return orientation >= 5 ? { width: height, height: width } : { width, height };
+  }
+
+  /**
+   * 向きの補正をcanvasの変換として設定
+   * width / height は補正後（出力canvas）の寸法。描画時は補正前の向きの寸法で描く
+   */
+  static applyOrientation(ctx: AnyCanvasContext, orientation: number, width: number, height: number): void {
+    switch (orientation) {
+      case 2: ctx.setTransform(-1, 0, 0, 1, width, 0); break;
+      case 3: ctx.setTransform(-1, 0, 0, -1, width, height); break;
+      case 4: ctx.setTransform(1, 0, 0, -1, 0, height); break;
+      case 5: ctx.setTransform(0, 1, 1, 0, 0, 0); break;
+      case 6: ctx.setTransform(0, 1, -1, 0, width, 0); break;
+      case 7: ctx.setTransform(0, -1, -1, 0, width, height); break;
+      case 8: ctx.setTransform(0, -1, 1, 0, 0, height); break;
+    }
+  }
+
+  /**
+   * ブラウザが画像の読み込み時にEXIFの向きを自動で反映するか
+   * 2×1 のJPEGに向き6（90°回転）を付けて読み込み、寸法が入れ替わるかで判定する
+   */
+  static isOrientationAppliedByBrowser(): Promise<boolean> {
+    if (!orientationAppliedByBrowser) {
+      orientationAppliedByBrowser = this.detectOrientationSupport();
+    }
+    return orientationAppliedByBrowser;
+  }
+
+  private static async detectOrientationSupport(): Promise<boolean> {
+    try {
+      const canvas = CanvasUtils.createCanvas(2, 1);
+      const jpeg = new Uint8Array(await (await CanvasUtils.toBlob(canvas, 'image/jpeg', 0.5)).arrayBuffer());
+      const tiff = new Uint8Array([
+        0x4D, 0x4D, 0x00, 0x2A, 0x00, 0x00, 0x00, 0x08,
+        0x00, 0x01,
+        0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00,
+        0x00, 0x00, 0x00, 0x00
+      ]);
+      const segmentLength = 2 + EXIF_HEADER.length + tiff.length;
+      const segment = new Uint8Array([0xFF, 0xE1, segmentLength >> 8, segmentLength & 0xFF, ...EXIF_HEADER, ...tiff]);
+
+      const probe = new Blob([this.insertSegment(jpeg, segment) as BlobPart], { type: 'image/jpeg' });
+      const image = await CanvasUtils.loadImage(probe);
+      const applied = image.width === 1 && image.height === 2;
+      CanvasUtils.releaseImage(image);
+      return applied;
+    } catch {
+      // 判定できない場合は現行ブラウザの既定動作（自動で反映）とみなす
+      return true;
+    }
+  }
+
+  private static hasExifHeader(bytes: Uint8Array, offset: number): boolean {
+    return EXIF_HEADER.every((byte, i) => bytes[offset + i] === byte);
+  }
+
+  private static parseTiff(tiff: Uint8Array): ExifData {
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+    const littleEndian = tiff[0] === 0x49 && tiff[1] === 0x49;
+    if (!littleEndian && !(tiff[0] === 0x4D && tiff[1] === 0x4D)) {
+      throw new Error('Invalid TIFF byte order');
+    }
+    if (view.getUint16(2, littleEndian) !== 42) {
+      throw new Error('Invalid TIFF header');
+    }
+
+    const result: ExifData = { orientation: 1 };
+    const ifd0 = this.readIfd(view, view.getUint32(4, littleEndian), littleEndian);
+
+    const orientation = ifd0.get(TAG_ORIENTATION);
+    if (orientation && orientation.type === TYPE_SHORT) {
+      const value = view.getUint16(orientation.valueOffset, littleEndian);
+      result.orientation = value >= 1 && value <= 8 ? value : 1;
+    }
+    result.artist = this.readAscii(tiff, ifd0.get(TAG_ARTIST));
+    result.copyright = this.readAscii(tiff, ifd0.get(TAG_COPYRIGHT));
+
+    const exifPointer = ifd0.get(TAG_EXIF_IFD);
+    if (exifPointer && exifPointer.type === TYPE_LONG) {
+      const exifIfd = this.readIfd(view, view.getUint32(exifPointer.valueOffset, littleEndian), littleEndian);
+      result.dateTimeOriginal = this.readAscii(tiff, exifIfd.get(TAG_DATE_TIME_ORIGINAL));
+    }
+
+    return result;
+  }
+
+  /**
+   * IFDのエントリを読み取る（値の位置を解決して返す）
+   */
+  private static readIfd(view: DataView, offset: number, littleEndian: boolean) {
+    const entries = new Map<number, { type: number, count: number, valueOffset: number }>();
+    if (offset + 2 > view.byteLength) {
+      return entries;
+    }
+
+    const count = view.getUint16(offset, littleEndian);
+    for (let i = 0; i < count; i++) {
+      const entryOffset = offset + 2 + i * 12;
+      if (entryOffset + 12 > view.byteLength) break;
+
+      const tag = view.getUint16(entryOffset, littleEndian);
+      const type = view.getUint16(entryOffset + 2, littleEndian);
+      const valueCount = view.getUint32(entryOffset + 4, littleEndian);
+      const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+      // 4バイト以下の値はエントリ内に直接格納される
+      const valueOffset = size <= 4 ? entryOffset + 8 : view.getUint32(entryOffset + 8, littleEndian);
+      if (valueOffset + size > view.byteLength) continue;
+
+      entries.set(tag, { type, count: valueCount, valueOffset });
+    }
+    return entries;
+  }
+
+  private static readAscii(
+    tiff: Uint8Array,
+    entry: { type: number, count: number, valueOffset: number } | undefined
+  ): string | undefined {
+    if (!entry || entry.type !== TYPE_ASCII) {
+      return undefined;
+    }
+    const raw = tiff.subarray(entry.valueOffset, entry.valueOffset + entry.count);
+    const end = raw.indexOf(0);
+    const value = new TextDecoder().decode(end >= 0 ? raw.subarray(0, end) : raw).trim();
+    return value || undefined;
+  }
+
+  private static getIfdSize(entries: IfdEntry[]): number {
+    const dataSize = entries.reduce((sum, entry) => sum + (entry.data.length > 4 ? entry.data.length + (entry.data.length % 2) : 0), 0);
+    return 2 + entries.length * 12 + 4 + dataSize;
+  }
+
+  /**
+   * IFDを書き出す（offset はTIFFヘッダー先頭からの位置、ビッグエンディアン）
+   */
+  private static writeIfd(entries: IfdEntry[], offset: number): Uint8Array {
+    const output = new Uint8Array(this.getIfdSize(entries));
+    const view = new DataView(output.buffer);
+    view.setUint16(0, entries.length);
+
+    let dataOffset = 2 + entries.length * 12 + 4;
+    entries.forEach((entry, i) => {
+      const entryOffset = 2 + i * 12;
+      view.setUint16(entryOffset, entry.tag);
+      view.setUint16(entryOffset + 2, entry.type);
+      view.setUint32(entryOffset + 4, entry.count);
+      if (entry.data.length <= 4) {
+        output.set(entry.data, entryOffset + 8);
+      } else {
+        view.setUint32(entryOffset + 8, offset + dataOffset);
+        output.set(entry.data, dataOffset);
+        // 値は偶数バイト境界に揃える
+        dataOffset += entry.data.length + (entry.data.length % 2);
+      }
+    });
+    // 次のIFDなし（末尾4バイトは0のまま）
+    return output;
+  }
+}
@@ -0,0 +1,589 @@
+// ファイル形式ごとの構造検証
+// 先頭のマジックナンバーだけでなく、各形式の仕様どおりにチャンク・マーカー・ブロックをたどって確認する
+
+import { Checksum } from '@/lib/checksum';
+
+export interface FormatValidationResult {
+  valid: boolean;
+  // 不正と判断した理由（どの部分がどう不正か）
+  error?: string;
+  // 形式としてのデータが終わる位置（EOI・IEND・トレーラー・%%EOFの直後。これ以降は付加されたデータ）
+  end?: number;
+  // PDFのトレーラー（またはクロスリファレンスストリームの辞書）に暗号化辞書（/Encrypt）があるか
+  encrypted?: boolean;
+}
+
+// 形式ごとの表示名
+const FORMAT_NAMES: Record<string, string> = {
+  'image/jpeg': 'JPEG',
+  'image/png': 'PNG',
+  'image/gif': 'GIF',
+  'image/webp': 'WebP',
+  'application/pdf': 'PDF'
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+// PNGのチャンク長・寸法の上限（2^31 - 1）
+const PNG_MAX_VALUE = 0x7FFFFFFF;
+// カラータイプごとに許可されるビット深度
+const PNG_BIT_DEPTHS: Record<number, number[]> = {
+  0: [1, 2, 4, 8, 16],
+  2: [8, 16],
+  3: [1, 2, 4, 8],
+  4: [8, 16],
+  6: [8, 16]
+};
+
+// SOFn のうち DHT（C4）・JPG（C8）・DAC（CC）は除く
+const JPEG_SOF_MARKERS = new Set([0xC0, 0xC1, 0xC2, 0xC3, 0xC5, 0xC6, 0xC7, 0xC9, 0xCA, 0xCB, 0xCD, 0xCE, 0xCF]);
+const JPEG_SOI = 0xD8;
+const JPEG_EOI = 0xD9;
+const JPEG_SOS = 0xDA;
+const JPEG_TEM = 0x01;
+const JPEG_APP2 = 0xE2;
+// MPF（Multi-Picture Format）のMPインデックスIFDで、含まれる画像の大きさと位置を並べたタグ
+const MPF_ENTRY_TAG = 0xB002;
+const MPF_ENTRY_LENGTH = 16;
+
+const GIF_IMAGE_DESCRIPTOR = 0x2C;
+const GIF_EXTENSION = 0x21;
+const GIF_TRAILER = 0x3B;
+
+// startxref の後に オフセットと %%EOF を探す範囲
+const PDF_STARTXREF_LENGTH = 64;
+// startxref のオフセットがずれている場合に、クロスリファレンスを探す前後の範囲
+const PDF_XREF_SEARCH_WINDOW = 1024;
+
+class FormatError extends Error {}
+
+export class FormatValidator {
+
+  /**
+   * シグネチャで判定した形式に応じて構造を検証
+   */
+  static validate(bytes: Uint8Array, mimeType: string): FormatValidationResult {
+    const name = FORMAT_NAMES[mimeType];
+    if (!name) {
+      return { valid: false, error: 'サポートされていないファイル形式です' };
+    }
+
+    try {
+      let end = bytes.length;
+      let encrypted: boolean | undefined;
+      switch (mimeType) {
+        case 'image/jpeg': end = this.checkJpeg(bytes); break;
+        case 'image/png': end = this.checkPng(bytes); break;
+        case 'image/gif': end = this.checkGif(bytes); break;
+        case 'image/webp': end = this.checkWebp(bytes); break;
+        case 'application/pdf': ({ end, encrypted } = this.checkPdf(bytes)); break;
+      }
+      return { valid: true, end, encrypted };
+    } catch (error) {
+      if (error instanceof FormatError) {
+        return { valid: false, error: `${name}の構造が不正です: ${error.message}` };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * RIFFヘッダー・WEBP識別子とチャンクの並びを確認
+   */
+  private static checkWebp(bytes: Uint8Array): number {
+    this.require(bytes.length >= 20, 'RIFFヘッダーが途中で切れています');
+    this.require(this.ascii(bytes, 0, 4) === 'RIFF', 'RIFFヘッダーがありません');
+    this.require(this.ascii(bytes, 8, 4) === 'WEBP', `RIFFの形式が「${this.ascii(bytes, 8, 4)}」でWebPではありません`);
+
+    const riffSize = this.u32le(bytes, 4);
+    this.require(riffSize >= 12, `RIFFのサイズ（${riffSize}バイト）が小さすぎます`);
+    this.require(riffSize + 8 <= bytes.length, `RIFFのサイズ（${riffSize}バイト）がファイルの長さを超えています`);
+
+    const end = riffSize + 8;
+    const chunks: string[] = [];
+    let offset = 12;
+    while (offset < end) {
+      this.require(offset + 8 <= end, `チャンクのヘッダーが途中で切れています（オフセット ${offset}）`);
+      const type = this.ascii(bytes, offset, 4);
+      const size = this.u32le(bytes, offset + 4);
+      const dataStart = offset + 8;
+      this.require(dataStart + size <= end, `${type}チャンクのサイズ（${size}バイト）がRIFFの範囲を超えています（オフセット ${offset}）`);
+
+      if (chunks.length === 0) {
+        this.require(['VP8 ', 'VP8L', 'VP8X'].includes(type), `最初のチャンクが「${type}」で、VP8 / VP8L / VP8X ではありません`);
+      }
+      if (type === 'VP8 ') {
+        // キーフレームの開始コード 9D 01 2A
+        this.require(
+          size >= 10 && (bytes[dataStart] & 0x01) === 0
+            && bytes[dataStart + 3] === 0x9D && bytes[dataStart + 4] === 0x01 && bytes[dataStart + 5] === 0x2A,
+          `VP8のキーフレームヘッダーが不正です（オフセット ${offset}）`
+        );
+      } else if (type === 'VP8L') {
+        this.require(size >= 5 && bytes[dataStart] === 0x2F, `VP8Lのシグネチャ（0x2F）がありません（オフセット ${offset}）`);
+      } else if (type === 'VP8X') {
+        this.require(size >= 10, `VP8Xチャンクが短すぎます（${size}バイト）`);
+      }
+
+      chunks.push(type);
+      // チャンクは偶数バイトに揃えられる
+      offset = dataStart + size + (size % 2);
+    }
+
+    if (chunks[0] === 'VP8X') {
+      const animated = (bytes[20] & 0x02) !== 0;
+      if (animated) {
+        this.require(chunks.includes('ANIM') && chunks.includes('ANMF'), 'アニメーションの指定があるのにANIM / ANMFチャンクがありません');
+      } else {
+        this.require(chunks.includes('VP8 ') || chunks.includes('VP8L'), '画像データ（VP8 / VP8Lチャンク）がありません');
+      }
+    }
+    return end;
+  }
+
+  /**
+   * チャンクをたどってCRCを確認し、IHDR・IDAT・IENDの有無と順序を確認
+   */
+  private static checkPng(bytes: Uint8Array): number {
+    this.require(PNG_SIGNATURE.every((value, i) => bytes[i] === value), 'PNGシグネチャが不正です');
+
+    let offset = PNG_SIGNATURE.length;
+    let index = 0;
+    let colorType = -1;
+    let hasPalette = false;
+    let idatState: 'none' | 'reading' | 'done' = 'none';
+
+    while (true) {
+      this.require(offset + 12 <= bytes.length, `IENDチャンクがありません（オフセット ${offset} でファイルが終わっています）`);
+      const length = this.u32be(bytes, offset);
+      const type = this.ascii(bytes, offset + 4, 4);
+      this.require(/^[A-Za-z]{4}$/.test(type), `チャンクの種類が不正です（オフセット ${offset}）`);
+      this.require(length <= PNG_MAX_VALUE, `${type}チャンクの長さが上限を超えています（オフセット ${offset}）`);
+
+      const dataStart = offset + 8;
+      const crcOffset = dataStart + length;
+      this.require(crcOffset + 4 <= bytes.length, `${type}チャンクが途中で切れています（オフセット ${offset}）`);
+      const crc = Checksum.crc32(bytes.subarray(offset + 4, crcOffset));
+      this.require(crc === this.u32be(bytes, crcOffset), `${type}チャンクのCRCが一致しません（オフセット ${offset}）`);
+
+      if (index === 0) {
+        this.require(type === 'IHDR', `最初のチャンクが「${type}」で、IHDRではありません`);
+        colorType = this.checkPngHeader(bytes.subarray(dataStart, crcOffset));
+      } else {
+        this.require(type !== 'IHDR', `IHDRチャンクが複数あります（オフセット ${offset}）`);
+      }
+
+      if (type === 'PLTE') {
+        this.require(idatState === 'none', `PLTEチャンクがIDATの後にあります（オフセット ${offset}）`);
+        this.require(length > 0 && length % 3 === 0 && length <= 768, `PLTEチャンクの長さ（${length}バイト）が不正です`);
+        hasPalette = true;
+      } else if (type === 'IDAT') {
+        this.require(idatState !== 'done', `IDATチャンクが連続していません（オフセット ${offset}）`);
+        this.require(colorType !== 3 || hasPalette, 'パレット形式なのにPLTEチャンクがIDATより前にありません');
+        idatState = 'reading';
+      } else if (idatState === 'reading') {
+        idatState = 'done';
+      }
+
+      if (type === 'IEND') {
+        this.require(length === 0, `IENDチャンクにデータがあります（${length}バイト）`);
+        this.require(idatState !== 'none', '画像データ（IDATチャンク）がありません');
+        return crcOffset + 4;
+      }
+
+      offset = crcOffset + 4;
+      index++;
+    }
+  }
+
+  /**
+   * IHDRの寸法・ビット深度・カラータイプを確認してカラータイプを返す
+   */
+  private static checkPngHeader(data: Uint8Array): number {
+    this.require(data.length === 13, `IHDRチャンクの長さ（${data.length}バイト）が13バイトではありません`);
+    const width = this.u32be(data, 0);
+    const height = this.u32be(data, 4);
+    const [bitDepth, colorType, compression, filter, interlace] = data.subarray(8);
+
+    this.require(width > 0 && height > 0 && width <= PNG_MAX_VALUE && height <= PNG_MAX_VALUE, `画像の寸法（${width}×${height}）が不正です`);
+    this.require(PNG_BIT_DEPTHS[colorType] !== undefined, `カラータイプ（${colorType}）が不正です`);
+    this.require(PNG_BIT_DEPTHS[colorType].includes(bitDepth), `カラータイプ ${colorType} ではビット深度 ${bitDepth} を使えません`);
+    this.require(compression === 0 && filter === 0, '圧縮方式またはフィルタ方式が不正です');
+    this.require(interlace === 0 || interlace === 1, `インターレース方式（${interlace}）が不正です`);
+    return colorType;
+  }
+
+  /**
+   * SOIからEOIまでマーカーをたどり、SOFnとSOSの有無を確認
+   * MPF（複数画像・Ultra HDRのゲインマップなど）で宣言された後続の画像もファイルの一部とする
+   */
+  private static checkJpeg(bytes: Uint8Array, allowMpf = true): number {
+    this.require(bytes[0] === 0xFF && bytes[1] === JPEG_SOI, 'SOIマーカーがありません');
+
+    let offset = 2;
+    let hasFrame = false;
+    let hasScan = false;
+    let mpfImages: { offset: number, size: number }[] = [];
+
+    while (true) {
+      this.require(offset + 2 <= bytes.length, 'EOIマーカーがありません（ファイルが途中で切れています）');
+      this.require(bytes[offset] === 0xFF, `マーカーがあるべき位置に 0x${this.hex(bytes[offset])} があります（オフセット ${offset}）`);
+
+      // 詰め物の 0xFF は読み飛ばす
+      let marker = bytes[offset + 1];
+      while (marker === 0xFF && offset + 2 < bytes.length) {
+        offset++;
+        marker = bytes[offset + 1];
+      }
+
+      if (marker === JPEG_EOI) {
+        this.require(hasFrame, 'フレームヘッダー（SOFnマーカー）がありません');
+        this.require(hasScan, '画像データ（SOSマーカー）がありません');
+        return this.skipMpfImages(bytes, offset + 2, mpfImages);
+      }
+      this.require(marker !== JPEG_SOI, `SOIマーカーが重複しています（オフセット ${offset}）`);
+      this.require(marker !== 0x00 && !(marker >= 0xD0 && marker <= 0xD7), `スキャンの外に 0xFF${this.hex(marker)} があります（オフセット ${offset}）`);
+
+      if (marker === JPEG_TEM) {
+        offset += 2;
+        continue;
+      }
+
+      this.require(offset + 4 <= bytes.length, `0xFF${this.hex(marker)} セグメントが途中で切れています（オフセット ${offset}）`);
+      const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+      const segmentEnd = offset + 2 + length;
+      this.require(length >= 2, `0xFF${this.hex(marker)} セグメントの長さ（${length}）が不正です（オフセット ${offset}）`);
+      this.require(segmentEnd <= bytes.length, `0xFF${this.hex(marker)} セグメントが途中で切れています（オフセット ${offset}）`);
+
+      if (JPEG_SOF_MARKERS.has(marker)) {
+        this.require(!hasFrame, `SOFnマーカーが複数あります（オフセット ${offset}）`);
+        this.checkJpegFrame(bytes.subarray(offset + 4, segmentEnd), offset);
+        hasFrame = true;
+      }
+
+      if (allowMpf && marker === JPEG_APP2 && this.ascii(bytes, offset + 4, 4) === 'MPF\0') {
+        mpfImages = this.readMpfImages(bytes, offset + 8, segmentEnd);
+      }
+
+      if (marker !== JPEG_SOS) {
+        offset = segmentEnd;
+        continue;
+      }
+
+      this.require(hasFrame, `SOSマーカーがSOFnより前にあります（オフセット ${offset}）`);
+      hasScan = true;
+      offset = this.skipEntropyData(bytes, segmentEnd);
+    }
+  }
+
+  /**
+   * MPFのMPインデックスIFDから、主画像以外の画像の位置（ファイルの先頭から）と大きさを読む
+   * 位置はMPFのTIFFヘッダー（エンディアンの指定）からの相対位置で、主画像は 0
+   */
+  private static readMpfImages(bytes: Uint8Array, tiffStart: number, segmentEnd: number): { offset: number, size: number }[] {
+    const order = this.ascii(bytes, tiffStart, 2);
+    if ((order !== 'II' && order !== 'MM') || tiffStart + 8 > segmentEnd) return [];
+    const u16 = (offset: number) => order === 'II' ? this.u16le(bytes, offset) : (bytes[offset] << 8) | bytes[offset + 1];
+    const u32 = (offset: number) => order === 'II' ? this.u32le(bytes, offset) : this.u32be(bytes, offset);
+
+    const ifd = tiffStart + u32(tiffStart + 4);
+    if (ifd + 2 > segmentEnd) return [];
+    for (let i = 0, count = u16(ifd); i < count; i++) {
+      const entry = ifd + 2 + i * 12;
+      if (entry + 12 > segmentEnd) break;
+      if (u16(entry) !== MPF_ENTRY_TAG) continue;
+
+      const images: { offset: number, size: number }[] = [];
+      const entriesStart = tiffStart + u32(entry + 8);
+      for (let j = 0; j < Math.floor(u32(entry + 4) / MPF_ENTRY_LENGTH); j++) {
+        const image = entriesStart + j * MPF_ENTRY_LENGTH;
+        if (image + MPF_ENTRY_LENGTH > segmentEnd) break;
+        const dataOffset = u32(image + 8);
+        if (dataOffset > 0) {
+          images.push({ offset: tiffStart + dataOffset, size: u32(image + 4) });
+        }
+      }
+      return images;
+    }
+    return [];
+  }
+
+  /**
+   * 主画像の直後から隙間なく続き、JPEGとして読めるMPFの画像の終わりまで進める
+   * 宣言と食い違う画像やその後ろのデータは、付加されたデータとして扱われるよう含めない
+   */
+  private static skipMpfImages(bytes: Uint8Array, end: number, images: { offset: number, size: number }[]): number {
+    for (const image of [...images].sort((a, b) => a.offset - b.offset)) {
+      if (image.offset !== end || image.offset + image.size > bytes.length) break;
+      try {
+        end = image.offset + this.checkJpeg(bytes.subarray(image.offset, image.offset + image.size), false);
+      } catch (error) {
+        if (error instanceof FormatError) break;
+        throw error;
+      }
+    }
+    return end;
+  }
+
+  /**
+   * フレームヘッダーの寸法と色成分の数を確認
+   */
+  private static checkJpegFrame(data: Uint8Array, offset: number): void {
+    this.require(data.length >= 6, `SOFnセグメントが短すぎます（オフセット ${offset}）`);
+    const width = (data[3] << 8) | data[4];
+    const components = data[5];
+    // 高さは DNL マーカーで後から指定できるため 0 を許可する
+    this.require(width > 0, `画像の幅が0です（オフセット ${offset}）`);
+    this.require(components >= 1 && components <= 4, `色成分の数（${components}）が不正です（オフセット ${offset}）`);
+    this.require(data.length === 6 + components * 3, `SOFnセグメントの長さが色成分の数と一致しません（オフセット ${offset}）`);
+  }
+
+  /**
+   * 圧縮データを読み飛ばし、次のマーカーの位置を返す（0xFF00 とリスタートマーカーはデータの一部）
+   */
+  private static skipEntropyData(bytes: Uint8Array, offset: number): number {
+    for (let i = offset; i + 1 < bytes.length; i++) {
+      if (bytes[i] !== 0xFF) continue;
+      const next = bytes[i + 1];
+      if (next === 0x00 || next === 0xFF || (next >= 0xD0 && next <= 0xD7)) continue;
+      return i;
+    }
+    throw new FormatError('EOIマーカーがありません（画像データの途中でファイルが終わっています）');
+  }
+
+  /**
+   * 論理画面記述子・カラーテーブル・ブロックをたどってトレーラーを確認
+   */
+  private static checkGif(bytes: Uint8Array): number {
+    const version = this.ascii(bytes, 0, 6);
+    this.require(version === 'GIF87a' || version === 'GIF89a', `ヘッダー（${version}）が GIF87a / GIF89a ではありません`);
+    this.require(bytes.length >= 13, '論理画面記述子が途中で切れています');
+
+    const width = this.u16le(bytes, 6);
+    const height = this.u16le(bytes, 8);
+    this.require(width > 0 && height > 0, `論理画面の寸法（${width}×${height}）が不正です`);
+
+    let offset = 13 + this.gifColorTableSize(bytes[10]);
+    let images = 0;
+
+    while (true) {
+      this.require(offset < bytes.length, 'トレーラー（0x3B）がありません（ファイルが途中で切れています）');
+      const block = bytes[offset];
+
+      if (block === GIF_TRAILER) {
+        this.require(images > 0, '画像ブロックがありません');
+        return offset + 1;
+      }
+
+      if (block === GIF_EXTENSION) {
+        this.require(offset + 2 <= bytes.length, `拡張ブロックが途中で切れています（オフセット ${offset}）`);
+        offset = this.skipGifSubBlocks(bytes, offset + 2);
+      } else if (block === GIF_IMAGE_DESCRIPTOR) {
+        this.require(offset + 10 <= bytes.length, `イメージ記述子が途中で切れています（オフセット ${offset}）`);
+        const imageWidth = this.u16le(bytes, offset + 5);
+        const imageHeight = this.u16le(bytes, offset + 7);
+        this.require(imageWidth > 0 && imageHeight > 0, `フレームの寸法（${imageWidth}×${imageHeight}）が不正です（オフセット ${offset}）`);
+
+        offset += 10 + this.gifColorTableSize(bytes[offset + 9]);
+        this.require(offset < bytes.length, 'LZWの最小符号長がありません（ファイルが途中で切れています）');
+        const minCodeSize = bytes[offset];
+        this.require(minCodeSize >= 1 && minCodeSize <= 11, `LZWの最小符号長（${minCodeSize}）が不正です（オフセット ${offset}）`);
+        offset = this.skipGifSubBlocks(bytes, offset + 1);
+        images++;
+      } else {
+        throw new FormatError(`不明なブロック 0x${this.hex(block)} があります（オフセット ${offset}）`);
+      }
+    }
+  }
+
+  // 記述子のフラグからカラーテーブルのバイト数を求める
+  private static gifColorTableSize(flags: number): number {
+    return flags & 0x80 ? 3 * (1 << ((flags & 0x07) + 1)) : 0;
+  }
+
+  // 長さ付きのサブブロックを終端（長さ0）まで読み飛ばす
+  private static skipGifSubBlocks(bytes: Uint8Array, offset: number): number {
+    while (true) {
+      this.require(offset < bytes.length, `データブロックが途中で切れています（オフセット ${offset}）`);
+      const size = bytes[offset];
+      if (size === 0) return offset + 1;
+      offset += 1 + size;
+    }
+  }
+
+  /**
+   * 末尾の startxref が指すクロスリファレンス（表またはストリーム）とトレーラーを確認
+   * 暗号化の有無はトレーラーの /Encrypt だけで判断する（本文の文字列・ストリーム内の同じ文字の並びは無関係）
+   */
+  private static checkPdf(bytes: Uint8Array): { end: number, encrypted: boolean } {
+    const head = this.ascii(bytes, 0, 8);
+    this.require(/^%PDF-[12]\.\d$/.test(head), `ヘッダー（${head.trim()}）のバージョン表記が不正です`);
+
+    // %%EOF の後にデータが付加されていても見つけられるよう、最後の startxref を末尾から探す
+    const startxrefIndex = this.lastIndexOf(bytes, 'startxref');
+    this.require(startxrefIndex >= 0, '末尾に startxref がありません');
+
+    const match = /^startxref\s+(\d+)\s+%%EOF(\r\n|\r|\n)?/.exec(this.ascii(bytes, startxrefIndex, PDF_STARTXREF_LENGTH));
+    this.require(match !== null, 'startxref の後にオフセットと %%EOF がありません');
+    const xrefOffset = Number(match[1]);
+    const inRange = xrefOffset < startxrefIndex;
+
+    const trailer = (inRange ? this.readTrailerAt(bytes, xrefOffset, startxrefIndex) : null)
+      ?? this.searchTrailer(bytes, xrefOffset, startxrefIndex);
+    this.require(trailer !== null, inRange
+      ? `startxref が指すオフセット（${xrefOffset}）にクロスリファレンスがありません`
+      : `startxref のオフセット（${xrefOffset}）がファイルの範囲外で、クロスリファレンスも見つかりません`);
+
+    this.require(/\/Root\s+\d+\s+\d+\s+R/.test(trailer), 'トレーラーに文書カタログ（/Root）の参照がありません');
+    this.require(/\/Size\s+\d+/.test(trailer), 'トレーラーにオブジェクト数（/Size）がありません');
+    return {
+      end: startxrefIndex + match[0].length,
+      encrypted: /\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(trailer)
+    };
+  }
+
+  /**
+   * 指定位置のクロスリファレンス（表またはストリーム）からトレーラー辞書を読む（どちらもなければ null）
+   */
+  private static readTrailerAt(bytes: Uint8Array, offset: number, startxrefIndex: number): string | null {
+    // クロスリファレンス表とトレーラーは startxref までに収まる
+    const section = this.ascii(bytes, offset, startxrefIndex - offset);
+    if (section.startsWith('xref')) {
+      return this.parseXrefTable(section, offset, bytes.length);
+    }
+
+    // クロスリファレンスストリーム（PDF 1.5以降）
+    const object = /^\d+\s+\d+\s+obj\s*/.exec(section);
+    const dictionary = object && this.readDictionary(section, object[0].length);
+    return dictionary && /\/Type\s*\/XRef\b/.test(dictionary) ? dictionary : null;
+  }
+
+  /**
+   * startxref のオフセットがずれている場合（増分更新・編集ツールの不具合など）の復旧
+   * PDFビューアと同様に、前後の範囲で最も近いクロスリファレンスを探し、なければ startxref の前の最後のトレーラーを使う
+   */
+  private static searchTrailer(bytes: Uint8Array, xrefOffset: number, startxrefIndex: number): string | null {
+    const from = Math.max(0, xrefOffset - PDF_XREF_SEARCH_WINDOW);
+    const window = this.ascii(bytes, from, Math.min(startxrefIndex, xrefOffset + PDF_XREF_SEARCH_WINDOW) - from);
+    const candidates = [...window.matchAll(/xref\b|\d+\s+\d+\s+obj\b/g)]
+      .map(match => from + match.index)
+      // startxref の一部や数値の途中から始まるものは除く
+      .filter(offset => offset === 0 || !/[0-9A-Za-z]/.test(String.fromCharCode(bytes[offset - 1])))
+      .sort((a, b) => Math.abs(a - xrefOffset) - Math.abs(b - xrefOffset));
+
+    for (const offset of candidates) {
+      try {
+        const trailer = this.readTrailerAt(bytes, offset, startxrefIndex);
+        if (trailer) return trailer;
+      } catch (error) {
+        if (!(error instanceof FormatError)) throw error;
+      }
+    }
+
+    const trailerIndex = this.lastIndexOf(bytes, 'trailer', startxrefIndex);
+    if (trailerIndex >= 0) {
+      const section = this.ascii(bytes, trailerIndex, startxrefIndex - trailerIndex);
+      return this.readDictionary(section, /^trailer\s*/.exec(section)![0].length);
+    }
+
+    const xrefStreamIndex = this.lastIndexOf(bytes, '/XRef', startxrefIndex);
+    const objectIndex = xrefStreamIndex >= 0 ? this.lastIndexOf(bytes, 'obj', xrefStreamIndex) : -1;
+    if (objectIndex >= 0) {
+      const section = this.ascii(bytes, objectIndex, startxrefIndex - objectIndex);
+      const dictionary = this.readDictionary(section, /^obj\s*/.exec(section)![0].length);
+      return dictionary && /\/Type\s*\/XRef\b/.test(dictionary) ? dictionary : null;
+    }
+    return null;
+  }
+
+  /**
+   * 従来形式のクロスリファレンス表を読み、トレーラー辞書を返す
+   */
+  private static parseXrefTable(section: string, xrefOffset: number, fileLength: number): string {
+    const subsection = /\s*(\d+)\s+(\d+)[ \t]*\r?\n?/y;
+    const entry = /(\d{10}) (\d{5}) ([nf])[ \t\r\n]{1,2}/y;
+    let position = 4;
+
+    while (true) {
+      subsection.lastIndex = position;
+      const header = subsection.exec(section);
+      if (!header) break;
+      position = subsection.lastIndex;
+
+      const count = Number(header[2]);
+      for (let i = 0; i < count; i++) {
+        entry.lastIndex = position;
+        const item = entry.exec(section);
+        this.require(item !== null, `クロスリファレンス表のエントリ（オブジェクト ${Number(header[1]) + i}）が不正です`);
+        if (item[3] === 'n') {
+          this.require(Number(item[1]) < fileLength, `オブジェクト ${Number(header[1]) + i} のオフセット（${Number(item[1])}）がファイルの範囲外です`);
+        }
+        position = entry.lastIndex;
+      }
+    }
+
+    const trailer = /^\s*trailer\s*/.exec(section.slice(position));
+    this.require(trailer !== null, `クロスリファレンス表（オフセット ${xrefOffset}）の後に trailer がありません`);
+    const dictionary = this.readDictionary(section, position + trailer[0].length);
+    this.require(dictionary !== null, 'トレーラー辞書が不正です');
+    return dictionary;
+  }
+
+  /**
+   * 指定位置から始まる辞書（<< … >>）を入れ子を考慮して取り出す
+   */
+  private static readDictionary(text: string, start: number): string | null {
+    if (!text.startsWith('<<', start)) {
+      return null;
+    }
+    let depth = 0;
+    for (let i = start; i + 1 < text.length; i++) {
+      if (text[i] === '<' && text[i + 1] === '<') {
+        depth++;
+        i++;
+      } else if (text[i] === '>' && text[i + 1] === '>') {
+        depth--;
+        i++;
+        if (depth === 0) return text.slice(start, i + 1);
+      }
+    }
+    return null;
+  }
+
+  // 文字列（ASCII）が before より前に最後に現れる位置
+  private static lastIndexOf(bytes: Uint8Array, text: string, before = bytes.length): number {
+    const last = text.length - 1;
+    for (let i = Math.min(bytes.length, before) - text.length; i >= 0; i--) {
+      if (bytes[i + last] !== text.charCodeAt(last)) continue;
+      let j = 0;
+      while (j < last && bytes[i + j] === text.charCodeAt(j)) j++;
+      if (j === last) return i;
+    }
+    return -1;
+  }
+
+  private static require(condition: boolean, reason: string): asserts condition {
+    if (!condition) {
+      throw new FormatError(reason);
+    }
+  }
+
+  private static ascii(bytes: Uint8Array, offset: number, length: number): string {
+    return new TextDecoder('latin1').decode(bytes.subarray(offset, offset + length));
+  }
+
+  private static hex(value: number | undefined): string {
+    return (value ?? 0).toString(16).toUpperCase().padStart(2, '0');
+  }
+
+  private static u16le(bytes: Uint8Array, offset: number): number {
+    return bytes[offset] | (bytes[offset + 1] << 8);
+  }
+
+  private static u32le(bytes: Uint8Array, offset: number): number {
+    return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+  }
+
+  private static u32be(bytes: Uint8Array, offset: number): number {
+    return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+  }
+}
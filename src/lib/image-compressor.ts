@@ -0,0 +1,303 @@
+// canvas を使った画像圧縮処理（メインスレッド・Web Worker 共通）
+
+import {
+  OutputFormatResolver,
+  OUTPUT_FORMATS,
+  type OutputFormat,
+  type EncodableFormat,
+  type EncoderSupport
+} from '@/lib/output-formats';
+import { SizeTargetSearch, type SizeTargetReport } from '@/lib/size-target';
+import { SizeGuard, type SizeGuardReport } from '@/lib/size-guard';
+import {
+  ResizeCalculator,
+  DEFAULT_RESIZE_OPTIONS,
+  type ImageDimensions,
+  type ResizeOptions
+} from '@/lib/resize';
+import { ImageHeaderReader } from '@/lib/image-header';
+import { CanvasUtils, type AnyCanvasContext, type DrawableImage } from '@/lib/canvas';
+import { PngQuantizer } from '@/lib/png-quantizer';
+import { PngEncoder } from '@/lib/png-encoder';
+import {
+  ExifProcessor,
+  EXIF_SCAN_LENGTH,
+  type ExifData,
+  type ExifMetadataField
+} from '@/lib/exif';
+
+export interface ImageCompressionOptions {
+  quality: number;
+  format: OutputFormat;
+  encoderSupport: EncoderSupport;
+  // 指定した場合は目標サイズに収まるよう画質・縮小率を探索
+  targetBytes?: number | null;
+  // 目標サイズ探索で使う最高画質（省略時は100%）
+  qualityCeiling?: number;
+  // リサイズ設定（省略時は1920×1080に収める）
+  resize?: ResizeOptions;
+  // リサイズ後にさらに収める最大寸法（サービスプリセット用）
+  maxDimensions?: ImageDimensions;
+  // PNGを減色する際に誤差拡散ディザリングを行うか（省略時は行う）
+  pngDither?: boolean;
+  // JPEG出力に引き継ぐEXIFの項目（省略時は引き継がない）
+  metadataFields?: ExifMetadataField[];
+  // 検証時にファイルの中身から判定した形式（省略時は file.type）
+  mimeType?: string;
+}
+
+export interface ImageCompressionResult {
+  blob: Blob;
+  dimensions: ImageDimensions;
+  sourceDimensions: ImageDimensions;
+  formatNotice?: string;
+  targetReport?: SizeTargetReport;
+  // PNGを減色した場合のパレットの色数
+  paletteColors?: number;
+  // 元より大きくならないよう採用した方法
+  sizeGuard?: SizeGuardReport;
+}
+
+// 読み込んだ画像と、描画時に補正する向き
+interface SourceImage {
+  image: DrawableImage;
+  // 向きを補正した元画像の寸法（縮小してデコードした場合も元の寸法）
+  size: ImageDimensions;
+  orientation: number;
+  exif: ExifData | null;
+}
+
+export class ImageCompressor {
+
+  /**
+   * 画像を圧縮
+   */
+  static async compress(file: File, options: ImageCompressionOptions): Promise<ImageCompressionResult> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const mimeType = this.getSourceType(file, options);
+    const exif = mimeType === 'image/jpeg' ? ExifProcessor.read(bytes.subarray(0, EXIF_SCAN_LENGTH)) : null;
+
+    // デコードする前にヘッダーの寸法で画素数を確認し、出力の寸法を決めておく
+    const header = ImageHeaderReader.read(bytes, mimeType);
+    if (header) {
+      const budget = ImageHeaderReader.checkBudget(header);
+      if (!budget.valid) {
+        throw new Error(budget.error);
+      }
+    }
+    const exifOrientation = exif?.orientation ?? 1;
+    const headerSize = header
+      ? ExifProcessor.getOrientedSize(header.width, header.height, exifOrientation)
+      : null;
+
+    // 縮小する場合は元の寸法のビットマップを作らず、デコード時に出力の寸法まで縮小
+    // （目標サイズ探索はこれより小さくしかしない。向きの補正が必要な画像は対象外）
+    const planned = headerSize ? this.planDimensions(headerSize, options) : null;
+    const decodeSize = headerSize && planned && exifOrientation === 1
+      && (planned.width < headerSize.width || planned.height < headerSize.height)
+      ? planned
+      : undefined;
+
+    const image = await CanvasUtils.loadImage(file, decodeSize);
+    try {
+      // ブラウザが向きを反映しない場合だけ描画時に自前で補正する
+      const autoOriented = exif && exif.orientation !== 1
+        ? await ExifProcessor.isOrientationAppliedByBrowser()
+        : true;
+      const orientation = exif && !autoOriented ? exif.orientation : 1;
+      const size = headerSize ?? ExifProcessor.getOrientedSize(image.width, image.height, orientation);
+      const source: SourceImage = { image, size, orientation, exif };
+      const result = await this.compressLoaded(source, file, options);
+      return await this.guardSize(source, file, options, result);
+    } finally {
+      CanvasUtils.releaseImage(image);
+    }
+  }
+
+  /**
+   * 入力の形式（拡張子から決まる file.type は中身と異なる場合があるため、判定済みの形式を優先）
+   */
+  private static getSourceType(file: File, options: ImageCompressionOptions): string {
+    return options.mimeType ?? file.type;
+  }
+
+  private static async compressLoaded(
+    img: SourceImage,
+    file: File,
+    options: ImageCompressionOptions
+  ): Promise<ImageCompressionResult> {
+    if (!options.targetBytes) {
+      return this.encode(img, file, options, options.quality, 1);
+    }
+
+    // 目標サイズモード: 画質と縮小率を探索
+    const resolved = OutputFormatResolver.resolve(options.format, this.getSourceType(file, options), options.encoderSupport);
+    const { output, report } = await SizeTargetSearch.search(
+      async (quality, scale) => {
+        const result = await this.encode(img, file, options, quality, scale);
+        return { ...result, size: result.blob.size };
+      },
+      options.targetBytes,
+      {
+        qualityAdjustable: OUTPUT_FORMATS[resolved.format].lossy || this.canQuantize(resolved.format),
+        maxQuality: options.qualityCeiling ?? 100
+      }
+    );
+
+    return {
+      blob: output.blob,
+      dimensions: output.dimensions,
+      sourceDimensions: output.sourceDimensions,
+      formatNotice: output.formatNotice,
+      targetReport: report,
+      paletteColors: output.paletteColors
+    };
+  }
+
+  /**
+   * 元のファイルより大きくなった場合は画質を下げて再試行し、それでも大きければ元のファイルを返す
+   * リサイズ設定・サービスの上限で寸法が変わる場合は、元のファイルでは指定を満たさないため大きいまま返す
+   */
+  private static async guardSize(
+    img: SourceImage,
+    file: File,
+    options: ImageCompressionOptions,
+    result: ImageCompressionResult
+  ): Promise<ImageCompressionResult> {
+    const resolved = OutputFormatResolver.resolve(options.format, this.getSourceType(file, options), options.encoderSupport);
+    const qualityAdjustable = OUTPUT_FORMATS[resolved.format].lossy || this.canQuantize(resolved.format);
+    const maxQuality = result.targetReport?.quality ?? options.quality;
+    const planned = this.planDimensions(img.size, options);
+    const keepsDimensions = planned.width === img.size.width && planned.height === img.size.height;
+
+    return SizeGuard.apply(
+      file,
+      result,
+      qualityAdjustable ? [{
+        detail: '画質を下げて再エンコード',
+        run: async () => {
+          // 寸法は変えずに、元のサイズ未満に収まる最も高い画質を探す
+          const { output, report } = await SizeTargetSearch.search(
+            async (quality) => {
+              const encoded = await this.encode(img, file, options, quality, result.targetReport?.scale ?? 1);
+              return { encoded, size: encoded.blob.size };
+            },
+            file.size - 1,
+            { maxQuality: Math.max(1, maxQuality - 1), minScale: 1 }
+          );
+          return report.fitted ? output.encoded : null;
+        }
+      }] : [],
+      keepsDimensions ? () => ({
+        blob: file,
+        dimensions: result.sourceDimensions,
+        sourceDimensions: result.sourceDimensions
+      }) : { reason: '指定した寸法を保つため' }
+    );
+  }
+
+  /**
+   * 指定した画質・縮小率で1回エンコード
+   */
+  private static async encode(
+    img: SourceImage,
+    file: File,
+    options: ImageCompressionOptions,
+    quality: number,
+    scale: number
+  ): Promise<ImageCompressionResult> {
+    const source = img.size;
+    const planned = this.planDimensions(source, options);
+
+    // 目標サイズ探索による追加の縮小
+    const targetWidth = Math.max(1, Math.round(planned.width * scale));
+    const targetHeight = Math.max(1, Math.round(planned.height * scale));
+
+    const canvas = CanvasUtils.createCanvas(targetWidth, targetHeight);
+    const ctx = CanvasUtils.getContext(canvas);
+    if (!ctx) {
+      throw new Error('Canvas context not available');
+    }
+
+    // 高品質レンダリングのための設定
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+
+    // EXIFの向きを補正して描画（アンチエイリアシングを適用）
+    ExifProcessor.applyOrientation(ctx, img.orientation, targetWidth, targetHeight);
+    const drawSize = ExifProcessor.getOrientedSize(targetWidth, targetHeight, img.orientation);
+    ctx.drawImage(img.image, 0, 0, drawSize.width, drawSize.height);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+    // 出力フォーマットを決定（非対応の場合は代替形式にフォールバック）
+    const resolved = OutputFormatResolver.resolve(options.format, this.getSourceType(file, options), options.encoderSupport);
+    const outputQuality = OUTPUT_FORMATS[resolved.format].lossy ? quality / 100 : 1;
+
+    // PNGは画質に応じて減色し、パレット形式で書き出す
+    const paletteColors = this.canQuantize(resolved.format) ? PngQuantizer.colorsForQuality(quality) : null;
+    let blob = paletteColors
+      ? await this.encodeQuantizedPng(ctx, targetWidth, targetHeight, paletteColors, options.pngDither ?? true)
+      : await CanvasUtils.toBlob(canvas, resolved.mimeType, outputQuality);
+
+    // 選択したEXIFの項目（著作権など）をJPEG出力に引き継ぐ
+    if (blob.type === 'image/jpeg' && img.exif && options.metadataFields?.length) {
+      blob = await this.embedMetadata(blob, img.exif, options.metadataFields);
+    }
+
+    // 判定をすり抜けて別形式で出力された場合も利用者に伝える
+    const formatNotice = blob.type !== resolved.mimeType
+      ? `${OUTPUT_FORMATS[resolved.format].label}で出力できなかったため、${OutputFormatResolver.getLabel(blob.type)}で出力しました`
+      : resolved.fallbackReason;
+
+    return {
+      blob,
+      dimensions: { width: targetWidth, height: targetHeight },
+      sourceDimensions: source,
+      formatNotice,
+      paletteColors: paletteColors ?? undefined
+    };
+  }
+
+  /**
+   * リサイズ設定とサービスプリセットの上限から出力の寸法を決める（縮小率1の場合）
+   */
+  private static planDimensions(source: ImageDimensions, options: ImageCompressionOptions): ImageDimensions {
+    // 利用者のリサイズ設定を適用
+    const resized = ResizeCalculator.calculate(source, options.resize ?? DEFAULT_RESIZE_OPTIONS);
+
+    // サービスプリセットの上限を超える場合はさらに縮小
+    const maxDimensions = options.maxDimensions;
+    if (maxDimensions && (resized.width > maxDimensions.width || resized.height > maxDimensions.height)) {
+      return ResizeCalculator.fitWithin(resized.width, resized.height, maxDimensions.width, maxDimensions.height);
+    }
+    return resized;
+  }
+
+  private static async embedMetadata(jpeg: Blob, exif: ExifData, fields: ExifMetadataField[]): Promise<Blob> {
+    const segment = ExifProcessor.createSegment(exif, fields);
+    if (!segment) {
+      return jpeg;
+    }
+    const bytes = ExifProcessor.insertSegment(new Uint8Array(await jpeg.arrayBuffer()), segment);
+    return new Blob([bytes as BlobPart], { type: 'image/jpeg' });
+  }
+
+  /**
+   * 減色によるPNG出力が使えるか
+   */
+  private static canQuantize(format: EncodableFormat): boolean {
+    return format === 'png' && PngEncoder.isSupported();
+  }
+
+  private static async encodeQuantizedPng(
+    ctx: AnyCanvasContext,
+    width: number,
+    height: number,
+    colors: number,
+    dither: boolean
+  ): Promise<Blob> {
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const { palette, indices } = PngQuantizer.quantize(imageData.data, width, height, { colors, dither });
+    return PngEncoder.encodeIndexed(width, height, palette, indices);
+  }
+}
@@ -0,0 +1,238 @@
+// 画像をデコードせずにヘッダーから寸法とフレーム数を読む
+// デコード前に画素数を確認し、展開すると巨大になる画像（解凍爆弾）を受け付けないために使う
+
+export interface ImageHeaderInfo {
+  // 保存されたままの寸法（EXIFの向きは反映しない）
+  width: number;
+  height: number;
+  // アニメーションのフレーム数（静止画は1）
+  frames: number;
+}
+
+// 1枚あたりの画素数の上限（1億画素 = 10000×10000 相当）
+export const MAX_IMAGE_PIXELS = 100 * 1000 * 1000;
+// 1辺の上限（canvas で扱える大きさ）
+export const MAX_IMAGE_DIMENSION = 32767;
+// アニメーション全体（画素数 × フレーム数）の上限
+export const MAX_ANIMATION_PIXELS = 500 * 1000 * 1000;
+
+// SOFn のうち DHT（C4）・JPG（C8）・DAC（CC）は除く
+const JPEG_SOF_MARKERS = new Set([0xC0, 0xC1, 0xC2, 0xC3, 0xC5, 0xC6, 0xC7, 0xC9, 0xCA, 0xCB, 0xCD, 0xCE, 0xCF]);
+
+export class ImageHeaderReader {
+
+  /**
+   * 形式に応じてヘッダーを読む（読めない場合は null）
+   */
+  static read(bytes: Uint8Array, mimeType: string): ImageHeaderInfo | null {
+    try {
+      switch (mimeType) {
+        case 'image/png': return this.readPng(bytes);
+        case 'image/jpeg': return this.readJpeg(bytes);
+        case 'image/gif': return this.readGif(bytes);
+        case 'image/webp': return this.readWebp(bytes);
+        default: return null;
+      }
+    } catch {
+      // 途中で切れているなど、範囲外を読んだ場合
+      return null;
+    }
+  }
+
+  /**
+   * 画素数とフレーム数が上限に収まるか確認
+   */
+  static checkBudget(info: ImageHeaderInfo): { valid: boolean, error?: string } {
+    const { width, height, frames } = info;
+    const pixels = width * height;
+
+    if (width > MAX_IMAGE_DIMENSION || height > MAX_IMAGE_DIMENSION) {
+      return { valid: false, error: `画像の寸法（${width}×${height}）が上限（1辺 ${MAX_IMAGE_DIMENSION}px）を超えています` };
+    }
+    if (pixels > MAX_IMAGE_PIXELS) {
+      return {
+        valid: false,
+        error: `画像の画素数（${width}×${height} = ${this.formatPixels(pixels)}）が上限（${this.formatPixels(MAX_IMAGE_PIXELS)}）を超えています`
+      };
+    }
+    if (pixels * frames > MAX_ANIMATION_PIXELS) {
+      return {
+        valid: false,
+        error: `アニメーション全体の画素数（${width}×${height} × ${frames}フレーム = ${this.formatPixels(pixels * frames)}）が上限（${this.formatPixels(MAX_ANIMATION_PIXELS)}）を超えています`
+      };
+    }
+    return { valid: true };
+  }
+
+  /**
+   * IHDRの寸法と、APNGの場合は acTL のフレーム数
+   */
+  private static readPng(bytes: Uint8Array): ImageHeaderInfo | null {
+    if (bytes.length < 24 || this.ascii(bytes, 12, 4) !== 'IHDR') {
+      return null;
+    }
+    const width = this.u32be(bytes, 16);
+    const height = this.u32be(bytes, 20);
+
+    // acTL は最初の IDAT より前にある
+    let frames = 1;
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+      const length = this.u32be(bytes, offset);
+      const type = this.ascii(bytes, offset + 4, 4);
+      if (type === 'IDAT' || type === 'IEND') break;
+      if (type === 'acTL' && length >= 8) {
+        frames = Math.max(1, this.u32be(bytes, offset + 8));
+        break;
+      }
+      offset += 12 + length;
+    }
+
+    return { width, height, frames };
+  }
+
+  /**
+   * 最初の SOFn の寸法（高さを DNL で後から指定する形式は読めないため null）
+   */
+  private static readJpeg(bytes: Uint8Array): ImageHeaderInfo | null {
+    let offset = 2;
+    while (offset + 4 <= bytes.length) {
+      if (bytes[offset] !== 0xFF) return null;
+      const marker = bytes[offset + 1];
+      // 詰め物の 0xFF は読み飛ばす
+      if (marker === 0xFF) {
+        offset++;
+        continue;
+      }
+      // SOFより先に画像データ（SOS）やEOIが来た場合
+      if (marker === 0xDA || marker === 0xD9) return null;
+
+      const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+      if (JPEG_SOF_MARKERS.has(marker) && offset + 9 <= bytes.length) {
+        const height = (bytes[offset + 5] << 8) | bytes[offset + 6];
+        const width = (bytes[offset + 7] << 8) | bytes[offset + 8];
+        return height > 0 && width > 0 ? { width, height, frames: 1 } : null;
+      }
+      if (length < 2) return null;
+      offset += 2 + length;
+    }
+    return null;
+  }
+
+  /**
+   * 論理画面の寸法（はみ出すフレームがあれば広げる）とイメージ記述子の数
+   */
+  private static readGif(bytes: Uint8Array): ImageHeaderInfo | null {
+    if (bytes.length < 13) return null;
+    let width = this.u16le(bytes, 6);
+    let height = this.u16le(bytes, 8);
+    let frames = 0;
+
+    let offset = 13 + this.gifColorTableSize(bytes[10]);
+    while (offset < bytes.length && bytes[offset] !== 0x3B) {
+      const block = bytes[offset];
+      if (block === 0x21) {
+        offset = this.skipGifSubBlocks(bytes, offset + 2);
+      } else if (block === 0x2C) {
+        if (offset + 10 > bytes.length) break;
+        width = Math.max(width, this.u16le(bytes, offset + 1) + this.u16le(bytes, offset + 5));
+        height = Math.max(height, this.u16le(bytes, offset + 3) + this.u16le(bytes, offset + 7));
+        frames++;
+        // 記述子・カラーテーブル・LZWの最小符号長の後にデータが続く
+        offset = this.skipGifSubBlocks(bytes, offset + 10 + this.gifColorTableSize(bytes[offset + 9]) + 1);
+      } else {
+        break;
+      }
+    }
+
+    return { width, height, frames: Math.max(1, frames) };
+  }
+
+  /**
+   * VP8（非可逆）・VP8L（可逆）・VP8X（拡張）の寸法と、アニメーションの ANMF の数
+   */
+  private static readWebp(bytes: Uint8Array): ImageHeaderInfo | null {
+    if (bytes.length < 20 || this.ascii(bytes, 0, 4) !== 'RIFF' || this.ascii(bytes, 8, 4) !== 'WEBP') {
+      return null;
+    }
+    const type = this.ascii(bytes, 12, 4);
+    const data = 20;
+    // 寸法を読むのに必要な長さ（VP8L は5バイト、VP8・VP8X は10バイト）
+    if (bytes.length < data + (type === 'VP8L' ? 5 : 10)) {
+      return null;
+    }
+
+    if (type === 'VP8 ') {
+      // キーフレームのヘッダー（3バイト）と開始コード（3バイト）の後に14ビットずつの幅と高さ
+      return {
+        width: this.u16le(bytes, data + 6) & 0x3FFF,
+        height: this.u16le(bytes, data + 8) & 0x3FFF,
+        frames: 1
+      };
+    }
+
+    if (type === 'VP8L') {
+      // シグネチャ（0x2F）の後に14ビットずつの幅 - 1 と高さ - 1
+      const bits = this.u32le(bytes, data + 1);
+      return { width: (bits & 0x3FFF) + 1, height: ((bits >>> 14) & 0x3FFF) + 1, frames: 1 };
+    }
+
+    if (type === 'VP8X') {
+      const width = this.u24le(bytes, data + 4) + 1;
+      const height = this.u24le(bytes, data + 7) + 1;
+      const animated = (bytes[data] & 0x02) !== 0;
+      return { width, height, frames: animated ? Math.max(1, this.countWebpFrames(bytes)) : 1 };
+    }
+
+    return null;
+  }
+
+  private static countWebpFrames(bytes: Uint8Array): number {
+    const end = Math.min(bytes.length, this.u32le(bytes, 4) + 8);
+    let frames = 0;
+    let offset = 12;
+    while (offset + 8 <= end) {
+      const size = this.u32le(bytes, offset + 4);
+      if (this.ascii(bytes, offset, 4) === 'ANMF') frames++;
+      offset += 8 + size + (size % 2);
+    }
+    return frames;
+  }
+
+  // 記述子のフラグからカラーテーブルのバイト数を求める
+  private static gifColorTableSize(flags: number): number {
+    return flags & 0x80 ? 3 * (1 << ((flags & 0x07) + 1)) : 0;
+  }
+
+  // 長さ付きのサブブロックを終端（長さ0）まで読み飛ばす
+  private static skipGifSubBlocks(bytes: Uint8Array, offset: number): number {
+    while (offset < bytes.length && bytes[offset] !== 0) {
+      offset += 1 + bytes[offset];
+    }
+    return offset + 1;
+  }
+
+  private static formatPixels(pixels: number): string {
+    return `${Math.round(pixels / 1000 / 1000).toLocaleString()}メガピクセル`;
+  }
+
+  private static ascii(bytes: Uint8Array, offset: number, length: number): string {
+    return String.fromCharCode(...bytes.subarray(offset, offset + length));
+  }
+
+  private static u16le(bytes: Uint8Array, offset: number): number {
+    return bytes[offset] | (bytes[offset + 1] << 8);
+  }
+
+  private static u24le(bytes: Uint8Array, offset: number): number {
+    return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+  }
+
+  private static u32le(bytes: Uint8Array, offset: number): number {
+    return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+  }
+
+  private static u32be(bytes: Uint8Array, offset: number): number {
+    return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+  }
+}
@@ -0,0 +1,157 @@
+// 複数の画像を1ページずつ並べたPDFの作成
+
+import { PDFDocument, type PDFImage } from 'pdf-lib';
+import { CanvasUtils } from '@/lib/canvas';
+import { ExifProcessor, EXIF_SCAN_LENGTH } from '@/lib/exif';
+import type { ProgressCallback } from '@/lib/pdf-compressor';
+
+export type ImagePdfPageSize = 'a4' | 'letter' | 'fit';
+
+export type ImagePdfOrientation = 'auto' | 'portrait' | 'landscape';
+
+export interface ImagePdfOptions {
+  pageSize: ImagePdfPageSize;
+  orientation: ImagePdfOrientation;
+  // 余白（mm）
+  marginMm: number;
+}
+
+export const IMAGE_PDF_PAGE_SIZE_LABELS: Record<ImagePdfPageSize, string> = {
+  a4: 'A4',
+  letter: 'レター',
+  fit: '画像に合わせる'
+};
+
+export const IMAGE_PDF_ORIENTATION_LABELS: Record<ImagePdfOrientation, string> = {
+  auto: '自動',
+  portrait: '縦',
+  landscape: '横'
+};
+
+export const IMAGE_PDF_MARGIN_OPTIONS = [0, 5, 10, 20];
+
+export const DEFAULT_IMAGE_PDF_OPTIONS: ImagePdfOptions = {
+  pageSize: 'a4',
+  orientation: 'auto',
+  marginMm: 10
+};
+
+// 用紙の大きさ（ポイント、縦向き）
+const PAPER_SIZES: Record<Exclude<ImagePdfPageSize, 'fit'>, { width: number, height: number }> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 }
+};
+
+const POINTS_PER_MM = 72 / 25.4;
+// 「画像に合わせる」ではピクセルを96dpi（CSSピクセル）としてページの大きさを決める
+const FIT_POINTS_PER_PIXEL = 72 / 96;
+
+export class ImagePdfBuilder {
+
+  /**
+   * 画像を渡した順に1ページずつ配置したPDFを作成
+   * 画像は余白の内側に縦横比を保って最大の大きさで中央に配置する
+   */
+  static async build(images: Blob[], options: ImagePdfOptions, onProgress?: ProgressCallback): Promise<Blob> {
+    if (images.length === 0) {
+      throw new Error('PDFにまとめる画像がありません');
+    }
+
+    const pdfDoc = await PDFDocument.create();
+    const margin = Math.max(0, options.marginMm) * POINTS_PER_MM;
+
+    for (let i = 0; i < images.length; i++) {
+      onProgress?.(((i + 1) / images.length) * 90, `画像 ${i + 1}/${images.length} をPDFに配置中...`);
+
+      const image = await this.embed(pdfDoc, images[i]);
+      const page = this.getPageSize(image.width, image.height, options, margin);
+      const pdfPage = pdfDoc.addPage([page.width, page.height]);
+
+      const scale = Math.min((page.width - margin * 2) / image.width, (page.height - margin * 2) / image.height);
+      const width = image.width * scale;
+      const height = image.height * scale;
+      pdfPage.drawImage(image, {
+        x: (page.width - width) / 2,
+        y: (page.height - height) / 2,
+        width,
+        height
+      });
+    }
+
+    onProgress?.(95, 'PDFを保存中...');
+    const pdfBytes = await pdfDoc.save();
+    return new Blob([pdfBytes], { type: 'application/pdf' });
+  }
+
+  /**
+   * ページの大きさ（ポイント）を決める
+   */
+  static getPageSize(
+    imageWidth: number,
+    imageHeight: number,
+    options: ImagePdfOptions,
+    margin: number
+  ): { width: number, height: number } {
+    if (options.pageSize === 'fit') {
+      return {
+        width: imageWidth * FIT_POINTS_PER_PIXEL + margin * 2,
+        height: imageHeight * FIT_POINTS_PER_PIXEL + margin * 2
+      };
+    }
+
+    const paper = PAPER_SIZES[options.pageSize];
+    const landscape = options.orientation === 'auto'
+      ? imageWidth > imageHeight
+      : options.orientation === 'landscape';
+    return landscape ? { width: paper.height, height: paper.width } : paper;
+  }
+
+  /**
+   * 画像をPDFに埋め込む
+   * pdf-lib が扱えるのはJPEGとPNGだけで、EXIFの向きも反映しないため、
+   * それ以外の形式や回転が必要なJPEGは描画し直してJPEGにする
+   */
+  private static async embed(pdfDoc: PDFDocument, blob: Blob): Promise<PDFImage> {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+
+    if (blob.type === 'image/png') {
+      return pdfDoc.embedPng(bytes);
+    }
+    if (blob.type === 'image/jpeg') {
+      const exif = ExifProcessor.read(bytes.subarray(0, EXIF_SCAN_LENGTH));
+      if (!exif || exif.orientation === 1) {
+        return pdfDoc.embedJpg(bytes);
+      }
+    }
+
+    return pdfDoc.embedJpg(new Uint8Array(await (await this.redraw(blob)).arrayBuffer()));
+  }
+
+  private static async redraw(blob: Blob): Promise<Blob> {
+    const exif = blob.type === 'image/jpeg'
+      ? ExifProcessor.read(new Uint8Array(await blob.slice(0, EXIF_SCAN_LENGTH).arrayBuffer()))
+      : null;
+    const image = await CanvasUtils.loadImage(blob);
+    try {
+      // ブラウザが向きを反映しない場合だけ自前で補正する
+      const orientation = exif && exif.orientation !== 1 && !(await ExifProcessor.isOrientationAppliedByBrowser())
+        ? exif.orientation
+        : 1;
+      const size = ExifProcessor.getOrientedSize(image.width, image.height, orientation);
+      const canvas = CanvasUtils.createCanvas(size.width, size.height);
+      const ctx = CanvasUtils.getContext(canvas);
+      if (!ctx) {
+        throw new Error('Canvas context not available');
+      }
+
+      // 透過部分は白で塗る
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, size.width, size.height);
+      ExifProcessor.applyOrientation(ctx, orientation, size.width, size.height);
+      ctx.drawImage(image, 0, 0, image.width, image.height);
+      return await CanvasUtils.toBlob(canvas, 'image/jpeg', 0.92);
+    } finally {
+      CanvasUtils.releaseImage(image);
+    }
+  }
+}
@@ -0,0 +1,132 @@
+// 出力フォーマットの定義とブラウザのエンコーダー対応判定
+
+export type OutputFormat = 'original' | 'jpeg' | 'png' | 'webp' | 'avif';
+
+export type EncodableFormat = Exclude<OutputFormat, 'original'>;
+
+interface OutputFormatInfo {
+  label: string;
+  mimeType: string;
+  extension: string;
+  lossy: boolean;
+}
+
+export const OUTPUT_FORMATS: Record<EncodableFormat, OutputFormatInfo> = {
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true },
+  png: { label: 'PNG', mimeType: 'image/png', extension: 'png', lossy: false },
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp', lossy: true },
+  avif: { label: 'AVIF', mimeType: 'image/avif', extension: 'avif', lossy: true }
+};
+
+export type EncoderSupport = Record<EncodableFormat, boolean>;
+
+export interface ResolvedOutputFormat {
+  format: EncodableFormat;
+  mimeType: string;
+  extension: string;
+  // 要求された形式が使えずに代替した場合の説明
+  fallbackReason?: string;
+}
+
+// MIMEタイプごとの拡張子（出力ファイル名の決定に使用）
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'application/pdf': 'pdf'
+};
+
+// PNGとJPEGはすべてのブラウザがエンコードできる前提
+const DEFAULT_SUPPORT: EncoderSupport = { jpeg: true, png: true, webp: false, avif: false };
+
+let supportCache: Promise<EncoderSupport> | null = null;
+
+export class OutputFormatResolver {
+
+  /**
+   * 各フォーマットのcanvasエンコーダー対応を判定
+   * 非対応のブラウザは toBlob で黙ってPNGを返すため、結果のMIMEタイプで判定する
+   */
+  static detectEncoderSupport(): Promise<EncoderSupport> {
+    if (typeof document === 'undefined') {
+      return Promise.resolve(DEFAULT_SUPPORT);
+    }
+
+    if (!supportCache) {
+      supportCache = (async () => {
+        const support: EncoderSupport = { ...DEFAULT_SUPPORT };
+        for (const format of ['webp', 'avif'] as const) {
+          support[format] = await this.canEncode(OUTPUT_FORMATS[format].mimeType);
+        }
+        return support;
+      })();
+    }
+
+    return supportCache;
+  }
+
+  /**
+   * 要求された出力形式を、入力形式とブラウザの対応状況から確定
+   */
+  static resolve(requested: OutputFormat, inputType: string, support: EncoderSupport): ResolvedOutputFormat {
+    const preferred = requested === 'original' ? this.formatFromMime(inputType) : requested;
+
+    if (preferred && support[preferred]) {
+      return this.toResolved(preferred);
+    }
+
+    // 透過を保持できるよう、PNG入力はPNG、それ以外はJPEGに代替
+    const fallback: EncodableFormat = inputType === 'image/png' || inputType === 'image/gif' ? 'png' : 'jpeg';
+    const fallbackReason = preferred
+      ? `このブラウザは${OUTPUT_FORMATS[preferred].label}のエンコードに対応していないため、${OUTPUT_FORMATS[fallback].label}で出力しました`
+      : `元の形式（${inputType || '不明'}）では出力できないため、${OUTPUT_FORMATS[fallback].label}で出力しました`;
+
+    return { ...this.toResolved(fallback), fallbackReason };
+  }
+
+  /**
+   * MIMEタイプに対応する拡張子
+   */
+  static getExtension(mimeType: string): string {
+    return MIME_EXTENSIONS[mimeType] ?? 'bin';
+  }
+
+  /**
+   * MIMEタイプの表示名
+   */
+  static getLabel(mimeType: string): string {
+    if (mimeType === 'application/pdf') return 'PDF';
+    if (mimeType === 'image/gif') return 'GIF';
+    const format = this.formatFromMime(mimeType);
+    return format ? OUTPUT_FORMATS[format].label : mimeType;
+  }
+
+  private static formatFromMime(mimeType: string): EncodableFormat | null {
+    const entry = (Object.entries(OUTPUT_FORMATS) as [EncodableFormat, OutputFormatInfo][])
+      .find(([, info]) => info.mimeType === mimeType);
+    return entry ? entry[0] : null;
+  }
+
+  private static toResolved(format: EncodableFormat): ResolvedOutputFormat {
+    return {
+      format,
+      mimeType: OUTPUT_FORMATS[format].mimeType,
+      extension: OUTPUT_FORMATS[format].extension
+    };
+  }
+
+  private static canEncode(mimeType: string): Promise<boolean> {
+    return new Promise((resolve) => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = 1;
+        canvas.height = 1;
+        canvas.toBlob((blob) => resolve(blob?.type === mimeType), mimeType);
+      } catch {
+        resolve(false);
+      }
+    });
+  }
+}
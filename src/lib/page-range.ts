@@ -0,0 +1,96 @@
+// PDFのページ範囲指定（"1-3,7,10-" 形式）
+
+export class PageRange {
+
+  /**
+   * ページ範囲の文字列を解析してページ番号（1から）の並びにする
+   * "10-" のように終わりを省略すると最終ページまで、重複したページは最初の1回だけ含める
+   */
+  static parse(input: string, pageCount: number): { valid: boolean, pages: number[], error?: string } {
+    const pages: number[] = [];
+    const seen = new Set<number>();
+    // 全角の数字・記号も受け付ける
+    const normalized = input
+      .replace(/[０-９]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xFEE0))
+      .replace(/[－ー―〜~]/g, '-')
+      .replace(/[，、]/g, ',')
+      .replace(/\s+/g, '');
+
+    if (!normalized) {
+      return { valid: false, pages, error: 'ページ範囲を入力してください' };
+    }
+
+    for (const part of normalized.split(',')) {
+      if (!part) continue;
+
+      const match = part.match(/^(\d*)-(\d*)$|^(\d+)$/);
+      if (!match || part === '-') {
+        return { valid: false, pages, error: `「${part}」はページ範囲として解釈できません` };
+      }
+
+      let start: number;
+      let end: number;
+      if (match[3]) {
+        start = end = parseInt(match[3], 10);
+      } else {
+        // 始まりを省略すると1ページ目から
+        start = match[1] ? parseInt(match[1], 10) : 1;
+        end = match[2] ? parseInt(match[2], 10) : pageCount;
+      }
+
+      if (start < 1 || end > pageCount || start > end) {
+        return { valid: false, pages, error: `「${part}」は範囲外です（1〜${pageCount}ページ）` };
+      }
+
+      for (let page = start; page <= end; page++) {
+        if (!seen.has(page)) {
+          seen.add(page);
+          pages.push(page);
+        }
+      }
+    }
+
+    if (pages.length === 0) {
+      return { valid: false, pages, error: 'ページが選択されていません' };
+    }
+    return { valid: true, pages };
+  }
+
+  /**
+   * ページ番号の並びを範囲の文字列に変換（連続するページは "1-3" にまとめる）
+   */
+  static format(pages: number[]): string {
+    const parts: string[] = [];
+    let i = 0;
+    while (i < pages.length) {
+      let j = i;
+      while (j + 1 < pages.length && pages[j + 1] === pages[j] + 1) j++;
+      parts.push(j > i ? `${pages[i]}-${pages[j]}` : `${pages[i]}`);
+      i = j + 1;
+    }
+    return parts.join(',');
+  }
+
+  /**
+   * 出力するページの並びを検証（範囲外・重複は除外し、指定がなければ全ページ）
+   */
+  static resolve(pageOrder: number[] | undefined, pageCount: number): number[] {
+    if (!pageOrder) {
+      return Array.from({ length: pageCount }, (_, i) => i + 1);
+    }
+
+    const seen = new Set<number>();
+    const order = pageOrder.filter(pageNum => {
+      if (!Number.isInteger(pageNum) || pageNum < 1 || pageNum > pageCount || seen.has(pageNum)) {
+        return false;
+      }
+      seen.add(pageNum);
+      return true;
+    });
+
+    if (order.length === 0) {
+      throw new Error('出力するページが選択されていません');
+    }
+    return order;
+  }
+}
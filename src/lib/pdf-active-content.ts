@@ -0,0 +1,323 @@
+// PDFのアクティブコンテンツ（JavaScript・自動実行・外部起動・埋め込みファイル・フォーム・リンク）の検出と除去
+// 文字列の検索ではなく pdf-lib のオブジェクトモデルをたどるため、圧縮されたオブジェクトストリーム内も対象になる
+
+import {
+  PDFDocument,
+  PDFArray,
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+  decodePDFRawStream,
+  type PDFContext,
+  type PDFObject
+} from 'pdf-lib';
+
+export type PdfActiveContentKind =
+  | 'javascript'
+  | 'openAction'
+  | 'additionalActions'
+  | 'launch'
+  | 'embeddedFile'
+  | 'acroForm'
+  | 'uri';
+
+export const PDF_ACTIVE_CONTENT_LABELS: Record<PdfActiveContentKind, string> = {
+  javascript: 'JavaScript',
+  openAction: '開いたときの自動実行（OpenAction）',
+  additionalActions: '操作時に実行される動作（AA）',
+  launch: '外部プログラムの起動（Launch）',
+  embeddedFile: '埋め込みファイル',
+  acroForm: '入力フォーム（AcroForm）',
+  uri: '外部リンク（URI）'
+};
+
+export interface PdfActiveElement {
+  kind: PdfActiveContentKind;
+  // 見つかった場所（「ページ 2 の注釈」など）
+  location: string;
+  // リンク先・ファイル名・スクリプトの先頭など
+  detail?: string;
+}
+
+// 詳細に表示する文字数の上限
+const MAX_DETAIL_LENGTH = 80;
+
+const NAME = {
+  S: PDFName.of('S'),
+  JS: PDFName.of('JS'),
+  JavaScript: PDFName.of('JavaScript'),
+  Launch: PDFName.of('Launch'),
+  URI: PDFName.of('URI'),
+  A: PDFName.of('A'),
+  AA: PDFName.of('AA'),
+  Next: PDFName.of('Next'),
+  OpenAction: PDFName.of('OpenAction'),
+  AcroForm: PDFName.of('AcroForm'),
+  Fields: PDFName.of('Fields'),
+  Names: PDFName.of('Names'),
+  EmbeddedFiles: PDFName.of('EmbeddedFiles'),
+  EF: PDFName.of('EF'),
+  F: PDFName.of('F'),
+  UF: PDFName.of('UF'),
+  Win: PDFName.of('Win'),
+  Mac: PDFName.of('Mac'),
+  Unix: PDFName.of('Unix')
+};
+
+// 除去の対象にする動作の種類
+const ACTIVE_ACTIONS = [NAME.JavaScript, NAME.Launch, NAME.URI];
+
+export class PdfActiveContentScanner {
+
+  /**
+   * PDFを読み込んでアクティブコンテンツを列挙
+   * 暗号化されたPDFでも辞書の構造は読めるため、復号せずに調べる
+   */
+  static async scan(data: ArrayBuffer | Uint8Array): Promise<PdfActiveElement[]> {
+    const pdfDoc = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false });
+    return this.inspect(pdfDoc);
+  }
+
+  /**
+   * PDFに含まれるJavaScriptのコードをすべて取り出す（ルールによるスキャン用。切り詰めない）
+   */
+  static async readJavaScript(data: ArrayBuffer | Uint8Array): Promise<string[]> {
+    const pdfDoc = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false });
+    const context = pdfDoc.context;
+    const scripts: string[] = [];
+
+    for (const [, object] of context.enumerateIndirectObjects()) {
+      this.forEachDict(object, (dict) => {
+        if (dict.get(NAME.S) !== NAME.JavaScript) return;
+        const code = this.decodeText(context, dict.get(NAME.JS));
+        if (code) scripts.push(code);
+      });
+    }
+    return scripts;
+  }
+
+  /**
+   * 読み込み済みのPDFからアクティブコンテンツを列挙
+   */
+  static inspect(pdfDoc: PDFDocument): PdfActiveElement[] {
+    const context = pdfDoc.context;
+    const catalog = pdfDoc.catalog;
+    const locations = this.getLocations(pdfDoc);
+    const elements: PdfActiveElement[] = [];
+
+    const openAction = context.lookup(catalog.get(NAME.OpenAction));
+    if (openAction) {
+      elements.push({
+        kind: 'openAction',
+        location: 'カタログ',
+        detail: openAction instanceof PDFDict ? this.getActionType(openAction) : undefined
+      });
+    }
+
+    const acroForm = context.lookup(catalog.get(NAME.AcroForm));
+    if (acroForm instanceof PDFDict) {
+      const fields = context.lookup(acroForm.get(NAME.Fields));
+      elements.push({
+        kind: 'acroForm',
+        location: 'カタログ',
+        detail: fields instanceof PDFArray ? `入力欄 ${fields.size()}個` : undefined
+      });
+    }
+
+    for (const [ref, object] of context.enumerateIndirectObjects()) {
+      const location = locations.get(ref) ?? `オブジェクト ${ref.objectNumber}`;
+      this.forEachDict(object, (dict) => this.inspectDict(context, dict, location, elements));
+    }
+
+    return elements;
+  }
+
+  /**
+   * アクティブコンテンツを取り除く
+   * 参照が外れたオブジェクト（埋め込みファイルの中身など）は呼び出し側で削除する
+   */
+  static sanitize(pdfDoc: PDFDocument): void {
+    const context = pdfDoc.context;
+    const catalog = pdfDoc.catalog;
+
+    catalog.delete(NAME.OpenAction);
+    catalog.delete(NAME.AcroForm);
+
+    const names = context.lookup(catalog.get(NAME.Names));
+    if (names instanceof PDFDict) {
+      names.delete(NAME.JavaScript);
+      names.delete(NAME.EmbeddedFiles);
+    }
+
+    for (const [, object] of context.enumerateIndirectObjects()) {
+      this.forEachDict(object, (dict) => {
+        dict.delete(NAME.AA);
+        dict.delete(NAME.EF);
+
+        // 注釈・しおりから実行される動作を外す
+        for (const key of [NAME.A, NAME.Next]) {
+          if (this.containsActiveAction(context, dict.get(key))) {
+            dict.delete(key);
+          }
+        }
+
+        // 他の場所から参照されていても実行できないよう、動作の中身も消す
+        const type = dict.get(NAME.S);
+        if (type === NAME.JavaScript) {
+          dict.delete(NAME.JS);
+        } else if (type === NAME.Launch) {
+          [NAME.F, NAME.Win, NAME.Mac, NAME.Unix].forEach(key => dict.delete(key));
+        } else if (type === NAME.URI) {
+          dict.delete(NAME.URI);
+        }
+      });
+    }
+  }
+
+  private static inspectDict(context: PDFContext, dict: PDFDict, location: string, elements: PdfActiveElement[]): void {
+    const type = dict.get(NAME.S);
+    if (type === NAME.JavaScript && dict.has(NAME.JS)) {
+      elements.push({ kind: 'javascript', location, detail: this.readText(context, dict.get(NAME.JS)) });
+    } else if (type === NAME.Launch && [NAME.F, NAME.Win, NAME.Mac, NAME.Unix].some(key => dict.has(key))) {
+      elements.push({ kind: 'launch', location, detail: this.getFileName(context, dict.get(NAME.F) ?? dict.get(NAME.Win)) });
+    } else if (type === NAME.URI && dict.has(NAME.URI)) {
+      elements.push({ kind: 'uri', location, detail: this.readText(context, dict.get(NAME.URI)) });
+    }
+
+    const additionalActions = context.lookup(dict.get(NAME.AA));
+    if (additionalActions instanceof PDFDict) {
+      elements.push({
+        kind: 'additionalActions',
+        location,
+        // トリガーの種類（O = ページを開いたとき、K = キー入力時 など）
+        detail: additionalActions.keys().map(key => key.decodeText()).join(', ')
+      });
+    }
+
+    if (dict.has(NAME.EF)) {
+      elements.push({ kind: 'embeddedFile', location, detail: this.getFileName(context, dict) });
+    }
+  }
+
+  /**
+   * オブジェクトに含まれる辞書（直接オブジェクトとして入れ子になったものを含む）を順に処理
+   * 間接参照はたどらない（参照先は別のオブジェクトとして処理される）
+   */
+  private static forEachDict(object: PDFObject, callback: (dict: PDFDict) => void): void {
+    const pending: PDFObject[] = [object];
+    while (pending.length > 0) {
+      const current = pending.pop()!;
+      if (current instanceof PDFStream) {
+        pending.push(current.dict);
+      } else if (current instanceof PDFDict) {
+        callback(current);
+        current.values().forEach(value => {
+          if (value instanceof PDFDict || value instanceof PDFArray) pending.push(value);
+        });
+      } else if (current instanceof PDFArray) {
+        current.asArray().forEach(value => {
+          if (value instanceof PDFDict || value instanceof PDFArray) pending.push(value);
+        });
+      }
+    }
+  }
+
+  /**
+   * ページ・注釈・注釈の動作のオブジェクトに、表示用の場所の名前を付ける
+   */
+  private static getLocations(pdfDoc: PDFDocument): Map<PDFRef, string> {
+    const context = pdfDoc.context;
+    const locations = new Map<PDFRef, string>();
+
+    const root = context.trailerInfo.Root;
+    if (root instanceof PDFRef) {
+      locations.set(root, 'カタログ');
+    }
+    const openAction = pdfDoc.catalog.get(NAME.OpenAction);
+    if (openAction instanceof PDFRef) {
+      locations.set(openAction, 'カタログ');
+    }
+
+    pdfDoc.getPages().forEach((page, index) => {
+      locations.set(page.ref, `ページ ${index + 1}`);
+      const annots = page.node.Annots();
+      annots?.asArray().forEach((annot) => {
+        const label = `ページ ${index + 1} の注釈`;
+        if (annot instanceof PDFRef) {
+          locations.set(annot, label);
+        }
+        const annotDict = context.lookup(annot);
+        const action = annotDict instanceof PDFDict ? annotDict.get(NAME.A) : undefined;
+        if (action instanceof PDFRef) {
+          locations.set(action, label);
+        }
+      });
+    });
+
+    return locations;
+  }
+
+  private static containsActiveAction(context: PDFContext, value: PDFObject | undefined): boolean {
+    const resolved = context.lookup(value);
+    if (resolved instanceof PDFArray) {
+      return resolved.asArray().some(item => this.containsActiveAction(context, item));
+    }
+    if (!(resolved instanceof PDFDict)) {
+      return false;
+    }
+    const type = resolved.get(NAME.S);
+    return ACTIVE_ACTIONS.some(action => action === type);
+  }
+
+  private static getActionType(action: PDFDict): string | undefined {
+    const type = action.get(NAME.S);
+    return type instanceof PDFName ? type.decodeText() : undefined;
+  }
+
+  /**
+   * ファイル指定（文字列またはファイル指定辞書）からファイル名を取り出す
+   */
+  private static getFileName(context: PDFContext, value: PDFObject | undefined): string | undefined {
+    const resolved = context.lookup(value);
+    if (resolved instanceof PDFDict) {
+      return this.readText(context, resolved.get(NAME.UF) ?? resolved.get(NAME.F));
+    }
+    return this.readText(context, resolved);
+  }
+
+  /**
+   * 文字列またはストリームの内容を表示用のテキストとして読む（長いものは切り詰める）
+   */
+  private static readText(context: PDFContext, value: PDFObject | undefined): string | undefined {
+    const text = this.decodeText(context, value, MAX_DETAIL_LENGTH * 4);
+    if (!text) {
+      return undefined;
+    }
+    const normalized = text.replace(/\s+/g, ' ').trim();
+    return normalized.length > MAX_DETAIL_LENGTH ? `${normalized.slice(0, MAX_DETAIL_LENGTH)}…` : normalized;
+  }
+
+  /**
+   * 文字列またはストリームの内容をテキストとして読む（maxBytes を指定した場合はストリームの先頭だけ）
+   */
+  private static decodeText(context: PDFContext, value: PDFObject | undefined, maxBytes?: number): string | undefined {
+    const resolved = context.lookup(value);
+    if (resolved instanceof PDFString || resolved instanceof PDFHexString) {
+      return resolved.decodeText();
+    }
+    if (resolved instanceof PDFRawStream) {
+      try {
+        const bytes = decodePDFRawStream(resolved).decode();
+        return new TextDecoder('latin1').decode(maxBytes !== undefined ? bytes.subarray(0, maxBytes) : bytes);
+      } catch {
+        // 展開できないストリームは内容を読まない
+        return undefined;
+      }
+    }
+    return undefined;
+  }
+}
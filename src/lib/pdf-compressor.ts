@@ -0,0 +1,430 @@
+// PDF圧縮処理（メインスレッド・Web Worker 共通）
+
+import { PDFDocument, EncryptedPDFError } from 'pdf-lib';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { CanvasUtils } from '@/lib/canvas';
+import { PdfRenderer } from '@/lib/pdf-renderer';
+import { PageRange } from '@/lib/page-range';
+import { SizeTargetSearch, type SizeTargetReport } from '@/lib/size-target';
+import { SizeGuard, type SizeGuardReport } from '@/lib/size-guard';
+import { PdfStructureOptimizer, type PdfOptimizeStats } from '@/lib/pdf-optimizer';
+import { PdfMetadataEditor, type PdfMetadataValues } from '@/lib/pdf-metadata';
+
+// structure: テキスト・リンクを残して画像だけを圧縮 / rasterize: 各ページを画像化
+export type PdfCompressionStrategy = 'structure' | 'rasterize';
+
+export const PDF_STRATEGY_LABELS: Record<PdfCompressionStrategy, string> = {
+  structure: 'テキストを保持',
+  rasterize: 'ページを画像化'
+};
+
+// 出力を作った方法（resave: 圧縮に失敗して単純に再保存 / original: 元のファイルをそのまま使用）
+export type PdfOutputMethod = PdfCompressionStrategy | 'resave' | 'original';
+
+export const PDF_OUTPUT_METHOD_LABELS: Record<PdfOutputMethod, string> = {
+  ...PDF_STRATEGY_LABELS,
+  resave: '再保存のみ（圧縮なし）',
+  original: '元のファイル（圧縮なし）'
+};
+
+// rasterized: 画像化 / optimized: 画像を再圧縮 / unchanged: 変更なし / copied: 画像化できず元のページを使用
+export type PdfPageStatus = 'rasterized' | 'optimized' | 'unchanged' | 'copied';
+
+export const PDF_PAGE_STATUS_LABELS: Record<PdfPageStatus, string> = {
+  rasterized: '画像化',
+  optimized: '画像を再圧縮',
+  unchanged: '変更なし',
+  copied: '元のページを使用'
+};
+
+export interface PdfPageOutcome {
+  // 元のPDFでのページ番号
+  pageNumber: number;
+  status: PdfPageStatus;
+  // 補足（再圧縮した画像の数・失敗の原因など）
+  detail?: string;
+}
+
+// どの方法で出力を作ったか、うまくいかなかった処理があるか
+export interface PdfCompressionReport {
+  method: PdfOutputMethod;
+  // 指定された圧縮方法
+  requested: PdfCompressionStrategy;
+  // 出力順のページごとの結果
+  pages: PdfPageOutcome[];
+  warnings: string[];
+  // 単純な再保存に切り替える原因になったエラー
+  fallbackError?: string;
+}
+
+export type PdfColorMode = 'color' | 'grayscale';
+
+// 解像度の選択肢（DPI）と用途の目安
+export const PDF_DPI_OPTIONS: { dpi: number, label: string }[] = [
+  { dpi: 72, label: '画面確認用' },
+  { dpi: 150, label: 'メール・一般的な書類' },
+  { dpi: 200, label: '請求書・契約書' },
+  { dpi: 300, label: '印刷・細かい文字' }
+];
+
+export const DEFAULT_PDF_DPI = 150;
+
+// 画像化したページごとの結果
+export interface PdfPageResult {
+  pageNumber: number;
+  bytes: number;
+  width: number;
+  height: number;
+  colorMode: PdfColorMode;
+}
+
+export interface PdfCompressionOptions {
+  quality: number;
+  // 圧縮方法（省略時は structure）
+  strategy?: PdfCompressionStrategy;
+  // rasterize ではページを描画する解像度、structure では埋め込み画像の解像度の上限（省略時は150DPI）
+  dpi?: number;
+  // rasterize で使う色（pageColorModes で指定のないページに適用）
+  colorMode?: PdfColorMode;
+  // rasterize でページごとに指定する色（添字はページ番号 - 1）
+  pageColorModes?: PdfColorMode[];
+  // 出力するページ番号（1から）を出力順に並べたもの（省略時は全ページ）
+  pageOrder?: number[];
+  // 指定した場合は目標サイズに収まるよう画質・解像度を探索
+  targetBytes?: number | null;
+  // JavaScript・自動実行・埋め込みファイル・フォーム・リンクを取り除くか
+  // （rasterize は新しいPDFを作るため、もともと含まれない）
+  removeActiveContent?: boolean;
+  // 暗号化されたPDFか（pdf-lib では読めないため、pdf.js で復号して画像化する）
+  encrypted?: boolean;
+  // 暗号化されたPDFを開くパスワード
+  password?: string;
+  // 出力に設定する文書情報（指定した場合は空の項目とXMPを削除。省略時は各方法の既定のまま）
+  metadata?: PdfMetadataValues;
+}
+
+export interface PdfCompressionResult {
+  blob: Blob;
+  report: PdfCompressionReport;
+  targetReport?: SizeTargetReport;
+  // 元より大きくならないよう採用した方法
+  sizeGuard?: SizeGuardReport;
+  // structure で処理した画像の集計
+  optimizeStats?: PdfOptimizeStats;
+  // rasterize で画像化したページごとの結果
+  pages?: PdfPageResult[];
+}
+
+export type ProgressCallback = (progress: number, message?: string) => void;
+
+export class PdfCompressor {
+
+  /**
+   * PDFを圧縮
+   * 元のファイルより大きくなった場合は別の方法を試し、それでも大きければ元のファイルを返す
+   */
+  static async compress(
+    data: ArrayBuffer,
+    options: PdfCompressionOptions,
+    onProgress: ProgressCallback = () => {}
+  ): Promise<PdfCompressionResult> {
+    const original = new Blob([data], { type: 'application/pdf' });
+    const result = await this.compressWithFallback(data, options, onProgress);
+
+    // 画像化で大きくなった場合は、テキストを保持する方法で圧縮し直す（ページの選択などの指定はそのまま）
+    const alternatives = this.getStrategy(options) === 'rasterize' && !options.encrypted
+      ? [{
+          detail: '画像化せずにテキストを保持したまま',
+          run: () => this.optimizeStructure(data, { ...options, targetBytes: null }, onProgress)
+        }]
+      : [];
+
+    // ページを選択・並べ替えた場合やアクティブコンテンツ・文書情報を書き換えた場合は、元のファイルで代用できない
+    const edits = [
+      options.pageOrder && 'ページの選択・並べ替え',
+      options.removeActiveContent && 'アクティブコンテンツの除去',
+      options.metadata && '文書情報の変更'
+    ].filter((edit): edit is string => Boolean(edit));
+
+    return SizeGuard.apply(original, result, alternatives, edits.length > 0
+      ? { reason: `${edits.join('・')}を反映するため` }
+      : () => ({
+          blob: original,
+          report: this.createReport(options, 'original', [])
+        }));
+  }
+
+  private static async compressWithFallback(
+    data: ArrayBuffer,
+    options: PdfCompressionOptions,
+    onProgress: ProgressCallback
+  ): Promise<PdfCompressionResult> {
+    try {
+      if (this.getStrategy(options) === 'structure') {
+        return await this.optimizeStructure(data, options, onProgress);
+      }
+
+      const dpi = options.dpi ?? DEFAULT_PDF_DPI;
+      if (!options.targetBytes) {
+        return await this.rasterize(data, options, options.quality, dpi, onProgress);
+      }
+
+      // 目標サイズモード: ページ画像の画質と解像度を探索
+      const { output, report } = await SizeTargetSearch.search(
+        async (quality, scale) => {
+          const rasterized = await this.rasterize(data, options, quality, dpi * scale, onProgress);
+          return { ...rasterized, size: rasterized.blob.size };
+        },
+        options.targetBytes,
+        // 1パスごとに全ページを描画し直すため、試行回数を抑える
+        { maxPasses: 8, minScale: 0.3 }
+      );
+      return { blob: output.blob, pages: output.pages, report: output.report, targetReport: report };
+    } catch (error) {
+      // 暗号化を検出できていなかった場合は、画像化でやり直す
+      if (error instanceof EncryptedPDFError && !options.encrypted) {
+        return this.compressWithFallback(data, { ...options, encrypted: true }, onProgress);
+      }
+      // 暗号化されたPDFは再保存もできないため、パスワードの誤りなどはそのまま伝える
+      // 除去を指定された場合も、除去していない再保存の結果は返さない
+      if (options.encrypted || options.removeActiveContent) {
+        throw error;
+      }
+
+      console.error('PDF compression error:', error);
+      onProgress(95, 'エラーが発生しました');
+
+      // フォールバック: 単純な再保存（圧縮していないことを結果に残す）
+      const source = await PDFDocument.load(data);
+      const pageOrder = PageRange.resolve(options.pageOrder, source.getPageCount());
+      let pdfDoc = source;
+      if (options.pageOrder) {
+        // 選択したページだけを指定した順に新しいPDFへ写す
+        pdfDoc = await PDFDocument.create();
+        const copied = await pdfDoc.copyPages(source, pageOrder.map(pageNum => pageNum - 1));
+        copied.forEach(page => pdfDoc.addPage(page));
+      }
+      if (options.metadata) {
+        PdfMetadataEditor.apply(pdfDoc, options.metadata);
+      }
+      const pdfBytes = await pdfDoc.save({
+        useObjectStreams: false,
+        addDefaultPage: false,
+      });
+
+      const pages = pageOrder.map((pageNumber): PdfPageOutcome => ({ pageNumber, status: 'unchanged' }));
+      const warnings = [`${PDF_STRATEGY_LABELS[this.getStrategy(options)]}での圧縮に失敗したため、圧縮せずに保存し直しました`];
+      return {
+        blob: new Blob([pdfBytes as BlobPart], { type: 'application/pdf' }),
+        report: this.createReport(options, 'resave', pages, warnings, this.describeError(error))
+      };
+    }
+  }
+
+  private static getStrategy(options: PdfCompressionOptions): PdfCompressionStrategy {
+    return options.encrypted ? 'rasterize' : options.strategy ?? 'structure';
+  }
+
+  private static createReport(
+    options: PdfCompressionOptions,
+    method: PdfOutputMethod,
+    pages: PdfPageOutcome[],
+    warnings: string[] = [],
+    fallbackError?: string
+  ): PdfCompressionReport {
+    const requested = options.strategy ?? 'structure';
+    // 暗号化されたPDFは構造を保ったまま保存できないため、指定にかかわらず画像化している
+    const switched = options.encrypted && requested !== 'rasterize' && method === 'rasterize'
+      ? ['暗号化されたPDFのため、指定した方法ではなくページを画像化して圧縮しました（テキストの選択・検索はできなくなります）']
+      : [];
+    return { method, requested, pages, warnings: [...switched, ...warnings], fallbackError };
+  }
+
+  private static describeError(error: unknown): string {
+    return error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+  }
+
+  /**
+   * 画像の集計からページごとの結果を作る
+   */
+  private static getStructureOutcomes(stats: PdfOptimizeStats): PdfPageOutcome[] {
+    return stats.pages.map(page => ({
+      pageNumber: page.pageNumber,
+      status: page.recompressed > 0 ? 'optimized' : 'unchanged',
+      detail: page.images > 0 ? `画像 ${page.images}個中 ${page.recompressed}個を再圧縮` : '画像なし'
+    }));
+  }
+
+  /**
+   * 構造を保ったまま埋め込み画像を圧縮（目標サイズモードでは画質と画像の解像度を探索）
+   */
+  private static async optimizeStructure(
+    data: ArrayBuffer,
+    options: PdfCompressionOptions,
+    onProgress: ProgressCallback
+  ): Promise<PdfCompressionResult> {
+    const imageDpi = options.dpi ?? DEFAULT_PDF_DPI;
+
+    if (!options.targetBytes) {
+      const { blob, stats } = await PdfStructureOptimizer.optimize(
+        data,
+        {
+          quality: options.quality,
+          imageDpi,
+          pageOrder: options.pageOrder,
+          removeActiveContent: options.removeActiveContent,
+          metadata: options.metadata
+        },
+        onProgress
+      );
+      return { blob, optimizeStats: stats, report: this.createReport(options, 'structure', this.getStructureOutcomes(stats)) };
+    }
+
+    const { output, report } = await SizeTargetSearch.search(
+      async (quality, scale) => {
+        const optimized = await PdfStructureOptimizer.optimize(
+          data,
+          {
+            quality,
+            imageDpi: imageDpi * scale,
+            pageOrder: options.pageOrder,
+            removeActiveContent: options.removeActiveContent,
+            metadata: options.metadata
+          },
+          onProgress
+        );
+        return { ...optimized, size: optimized.blob.size };
+      },
+      options.targetBytes,
+      { maxPasses: 8, minScale: 0.3 }
+    );
+    return {
+      blob: output.blob,
+      optimizeStats: output.stats,
+      report: this.createReport(options, 'structure', this.getStructureOutcomes(output.stats)),
+      targetReport: report
+    };
+  }
+
+  /**
+   * 各ページを画像としてレンダリングし、JPEGのページでPDFを再構成
+   */
+  private static async rasterize(
+    data: ArrayBuffer,
+    options: PdfCompressionOptions,
+    quality: number,
+    dpi: number,
+    onProgress: ProgressCallback
+  ): Promise<{ blob: Blob, pages: PdfPageResult[], report: PdfCompressionReport }> {
+    // PDFの座標系は 1pt = 1/72インチ
+    const scale = dpi / 72;
+    const pages: PdfPageResult[] = [];
+    const outcomes: PdfPageOutcome[] = [];
+    const warnings: string[] = [];
+
+    onProgress(10, 'PDFを読み込み中...');
+
+    const pdf = await PdfRenderer.open(data, options.password);
+    try {
+      const pdfDoc = await PDFDocument.create();
+      const pageOrder = PageRange.resolve(options.pageOrder, pdf.numPages);
+      // 画像化できなかったページを写すための元のPDF（必要になったときに読み込む）
+      let source: PDFDocument | null = null;
+
+      onProgress(20, `${pageOrder.length}ページのPDFを圧縮中...`);
+
+      for (let i = 0; i < pageOrder.length; i++) {
+        const pageNum = pageOrder[i];
+        const progress = 20 + ((i + 1) / pageOrder.length) * 70;
+        onProgress(progress, `ページ ${i + 1}/${pageOrder.length} を処理中...`);
+
+        try {
+          const result = await this.rasterizePage(pdfDoc, pdf, pageNum, options, quality, scale);
+          pages.push(result);
+          outcomes.push({ pageNumber: pageNum, status: 'rasterized', detail: `${result.width}×${result.height}px` });
+        } catch (error) {
+          // 暗号化されたPDFは pdf-lib で読めないため、ページを写せない
+          // アクティブコンテンツの除去を指定された場合も、注釈ごと写すことになるため使わない
+          if (options.encrypted || options.removeActiveContent) throw error;
+
+          console.warn(`Failed to rasterize page ${pageNum}:`, error);
+          source ??= await PDFDocument.load(data, { updateMetadata: false });
+          const [copied] = await pdfDoc.copyPages(source, [pageNum - 1]);
+          pdfDoc.addPage(copied);
+          outcomes.push({ pageNumber: pageNum, status: 'copied', detail: this.describeError(error) });
+          warnings.push(`ページ ${pageNum} は画像化できなかったため、圧縮せずに元のページを使用しました`);
+        }
+      }
+
+      if (options.metadata) {
+        PdfMetadataEditor.apply(pdfDoc, options.metadata);
+      }
+
+      onProgress(95, 'PDFを保存中...');
+
+      const pdfBytes = await pdfDoc.save();
+
+      onProgress(100, '完了!');
+
+      return {
+        blob: new Blob([pdfBytes as BlobPart], { type: 'application/pdf' }),
+        pages,
+        report: this.createReport(options, 'rasterize', outcomes, warnings)
+      };
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  /**
+   * 1ページをレンダリングし、JPEGの画像だけのページとして追加
+   */
+  private static async rasterizePage(
+    pdfDoc: PDFDocument,
+    pdf: PDFDocumentProxy,
+    pageNum: number,
+    options: PdfCompressionOptions,
+    quality: number,
+    scale: number
+  ): Promise<PdfPageResult> {
+    const page = await pdf.getPage(pageNum);
+    try {
+      // ページの寸法は縮小率に関わらず元のサイズを維持
+      const pageSize = page.getViewport({ scale: 1.0 });
+
+      // Canvasを作成してページをレンダリング
+      const canvas = await PdfRenderer.renderPage(page, scale);
+      const context = CanvasUtils.getContext(canvas)!;
+
+      const colorMode = options.pageColorModes?.[pageNum - 1] ?? options.colorMode ?? 'color';
+      if (colorMode === 'grayscale') {
+        CanvasUtils.toGrayscale(context, canvas.width, canvas.height);
+      }
+
+      // 画像として圧縮
+      const imageBlob = await CanvasUtils.toBlob(canvas, 'image/jpeg', quality / 100);
+
+      // 画像をPDFに追加
+      const imageBytes = await imageBlob.arrayBuffer();
+      const image = await pdfDoc.embedJpg(imageBytes);
+
+      const pdfPage = pdfDoc.addPage([pageSize.width, pageSize.height]);
+      pdfPage.drawImage(image, {
+        x: 0,
+        y: 0,
+        width: pageSize.width,
+        height: pageSize.height,
+      });
+
+      return {
+        pageNumber: pageNum,
+        bytes: imageBlob.size,
+        width: canvas.width,
+        height: canvas.height,
+        colorMode
+      };
+    } finally {
+      page.cleanup();
+    }
+  }
+}
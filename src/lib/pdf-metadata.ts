@@ -0,0 +1,175 @@
+// PDFの文書情報（Info辞書）とXMPメタデータの読み取り・書き換え
+
+import {
+  PDFDocument,
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+  decodePDFRawStream
+} from 'pdf-lib';
+
+export type PdfMetadataField = 'title' | 'author' | 'subject' | 'keywords' | 'creator' | 'producer';
+
+export const PDF_METADATA_FIELDS: Record<PdfMetadataField, string> = {
+  title: 'タイトル',
+  author: '作成者',
+  subject: '件名',
+  keywords: 'キーワード',
+  creator: '作成アプリケーション',
+  producer: 'PDF変換'
+};
+
+// 各項目の値（空文字・未指定の項目は出力から削除する）
+export type PdfMetadataValues = Partial<Record<PdfMetadataField, string>>;
+
+export interface PdfXmpProperty {
+  // 名前空間の接頭辞付きの名前（例: dc:creator）
+  name: string;
+  value: string;
+}
+
+export interface PdfMetadataReport {
+  info: PdfMetadataValues;
+  // XMPメタデータ（含まれていなければ null）
+  xmp: { bytes: number, properties: PdfXmpProperty[] } | null;
+}
+
+// Info辞書のキー
+const INFO_KEYS: Record<PdfMetadataField, PDFName> = {
+  title: PDFName.of('Title'),
+  author: PDFName.of('Author'),
+  subject: PDFName.of('Subject'),
+  keywords: PDFName.of('Keywords'),
+  creator: PDFName.of('Creator'),
+  producer: PDFName.of('Producer')
+};
+
+const METADATA = PDFName.of('Metadata');
+
+// 表示するXMPの値の文字数の上限
+const MAX_XMP_VALUE_LENGTH = 200;
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+export class PdfMetadataEditor {
+
+  /**
+   * PDFを読み込んで文書情報とXMPを取り出す
+   */
+  static async read(data: ArrayBuffer | Uint8Array): Promise<PdfMetadataReport> {
+    const pdfDoc = await PDFDocument.load(data, { updateMetadata: false });
+    return this.inspect(pdfDoc);
+  }
+
+  /**
+   * 読み込み済みのPDFから文書情報とXMPを取り出す
+   */
+  static inspect(pdfDoc: PDFDocument): PdfMetadataReport {
+    const info: PdfMetadataValues = {};
+    const infoDict = pdfDoc.context.lookup(pdfDoc.context.trailerInfo.Info);
+    if (infoDict instanceof PDFDict) {
+      for (const [field, key] of Object.entries(INFO_KEYS) as [PdfMetadataField, PDFName][]) {
+        const value = infoDict.lookup(key);
+        if (value instanceof PDFString || value instanceof PDFHexString) {
+          info[field] = value.decodeText();
+        }
+      }
+    }
+
+    const xmpText = this.readXmp(pdfDoc);
+    const xmp = xmpText === null
+      ? null
+      : { bytes: new TextEncoder().encode(xmpText).length, properties: this.parseXmp(xmpText) };
+
+    return { info, xmp };
+  }
+
+  /**
+   * 文書情報を指定した値に置き換え、XMPを削除する
+   * XMPには元のタイトル・作成者や編集履歴が残り、Info辞書と食い違うため残さない
+   */
+  static apply(pdfDoc: PDFDocument, values: PdfMetadataValues): void {
+    const context = pdfDoc.context;
+    const existing = context.lookup(context.trailerInfo.Info);
+    const infoDict = existing instanceof PDFDict ? existing : context.obj({});
+    if (infoDict !== existing) {
+      context.trailerInfo.Info = context.register(infoDict);
+    }
+
+    for (const [field, key] of Object.entries(INFO_KEYS) as [PdfMetadataField, PDFName][]) {
+      const value = values[field]?.trim();
+      if (value) {
+        infoDict.set(key, PDFHexString.fromText(value));
+      } else {
+        infoDict.delete(key);
+      }
+    }
+
+    // 参照を外すだけではストリームが保存されるため、オブジェクトごと削除する
+    const xmpRef = pdfDoc.catalog.get(METADATA);
+    if (xmpRef instanceof PDFRef) {
+      context.delete(xmpRef);
+    }
+    pdfDoc.catalog.delete(METADATA);
+  }
+
+  private static readXmp(pdfDoc: PDFDocument): string | null {
+    const stream = pdfDoc.context.lookup(pdfDoc.catalog.get(METADATA));
+    if (!(stream instanceof PDFRawStream)) {
+      return null;
+    }
+    try {
+      // XMPは通常圧縮されていないが、圧縮されている場合は展開する
+      const bytes = stream.dict.has(PDFName.of('Filter')) ? decodePDFRawStream(stream).decode() : stream.contents;
+      return new TextDecoder('utf-8').decode(bytes);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * XMPのプロパティを一覧にする
+   * 要素（<dc:title>…</dc:title>）・配列（rdf:Alt / Seq / Bag）・属性（pdf:Producer="…"）の形式に対応
+   */
+  private static parseXmp(xmp: string): PdfXmpProperty[] {
+    const properties: PdfXmpProperty[] = [];
+    const add = (name: string, value: string) => {
+      const text = this.unescapeXml(value).replace(/\s+/g, ' ').trim();
+      if (!text || name.startsWith('rdf:') || name.startsWith('x:') || name.startsWith('xmlns:') || name === 'xml:lang') {
+        return;
+      }
+      properties.push({
+        name,
+        value: text.length > MAX_XMP_VALUE_LENGTH ? `${text.slice(0, MAX_XMP_VALUE_LENGTH)}…` : text
+      });
+    };
+
+    for (const [, attributes] of xmp.matchAll(/<rdf:Description\b([^>]*)>/g)) {
+      for (const [, name, value] of attributes.matchAll(/([\w-]+:[\w-]+)\s*=\s*"([^"]*)"/g)) {
+        add(name, value);
+      }
+    }
+
+    for (const [, name, , items] of xmp.matchAll(/<([\w-]+:[\w-]+)\b[^>]*>\s*<rdf:(Alt|Seq|Bag)>([\s\S]*?)<\/rdf:\2>\s*<\/\1>/g)) {
+      const values = [...items.matchAll(/<rdf:li\b[^>]*>([^<]*)<\/rdf:li>/g)].map(([, value]) => value.trim());
+      add(name, values.filter(Boolean).join(', '));
+    }
+
+    for (const [, name, value] of xmp.matchAll(/<([\w-]+:[\w-]+)\b[^>]*>([^<]+)<\/\1>/g)) {
+      add(name, value);
+    }
+
+    return properties;
+  }
+
+  private static unescapeXml(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, code: string) => {
+      if (!code.startsWith('#')) return XML_ENTITIES[code] ?? entity;
+      const codePoint = code.startsWith('#x') ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : entity;
+    });
+  }
+}
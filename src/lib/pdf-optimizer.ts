@@ -0,0 +1,626 @@
+// PDFの構造を保ったままの圧縮
+// テキスト・ベクター・リンク・しおりはそのまま残し、埋め込み画像だけを縮小・再エンコードする
+
+import {
+  PDFDocument,
+  PDFArray,
+  PDFDict,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  decodePDFRawStream,
+  type PDFContext,
+  type PDFObject
+} from 'pdf-lib';
+import { CanvasUtils, type AnyCanvas } from '@/lib/canvas';
+import { Checksum } from '@/lib/checksum';
+import { PageRange } from '@/lib/page-range';
+import { PdfActiveContentScanner } from '@/lib/pdf-active-content';
+import { PdfMetadataEditor, type PdfMetadataValues } from '@/lib/pdf-metadata';
+import type { ProgressCallback } from '@/lib/pdf-compressor';
+
+export interface PdfOptimizeOptions {
+  // 画像のJPEG画質（%）
+  quality: number;
+  // 画像の解像度の上限（ページ全体に表示した場合のDPI）
+  imageDpi: number;
+  // 出力するページ番号（1から）を出力順に並べたもの（省略時は全ページ）
+  pageOrder?: number[];
+  // JavaScript・自動実行・埋め込みファイル・フォーム・リンクを取り除くか
+  removeActiveContent?: boolean;
+  // 出力に設定する文書情報（省略時は元のまま）
+  metadata?: PdfMetadataValues;
+}
+
+// ページごとの画像の集計
+export interface PdfOptimizePageStats {
+  // 元のPDFでのページ番号
+  pageNumber: number;
+  images: number;
+  recompressed: number;
+}
+
+export interface PdfOptimizeStats {
+  images: number;
+  recompressed: number;
+  duplicates: number;
+  // 取り除いたアクティブコンテンツの数
+  removedActiveContent: number;
+  // 出力順のページごとの集計
+  pages: PdfOptimizePageStats[];
+}
+
+// これより小さい画像ストリームは再エンコードしても効果がないため対象外
+const MIN_IMAGE_BYTES = 2 * 1024;
+// 重複の検出で同じ参照が連鎖する場合（画像とそのSMaskなど）に繰り返す回数
+const MAX_DEDUPE_PASSES = 4;
+
+const NAME = {
+  Subtype: PDFName.of('Subtype'),
+  Image: PDFName.of('Image'),
+  Filter: PDFName.of('Filter'),
+  DecodeParms: PDFName.of('DecodeParms'),
+  DCTDecode: PDFName.of('DCTDecode'),
+  FlateDecode: PDFName.of('FlateDecode'),
+  Width: PDFName.of('Width'),
+  Height: PDFName.of('Height'),
+  BitsPerComponent: PDFName.of('BitsPerComponent'),
+  ColorSpace: PDFName.of('ColorSpace'),
+  DeviceRGB: PDFName.of('DeviceRGB'),
+  DeviceGray: PDFName.of('DeviceGray'),
+  ICCBased: PDFName.of('ICCBased'),
+  N: PDFName.of('N'),
+  ImageMask: PDFName.of('ImageMask'),
+  Mask: PDFName.of('Mask'),
+  SMask: PDFName.of('SMask'),
+  Decode: PDFName.of('Decode'),
+  Predictor: PDFName.of('Predictor'),
+  Colors: PDFName.of('Colors'),
+  Columns: PDFName.of('Columns'),
+  Length: PDFName.of('Length'),
+  Resources: PDFName.of('Resources'),
+  XObject: PDFName.of('XObject'),
+  Form: PDFName.of('Form')
+};
+
+// ページツリーの親から継承されるページの属性
+const INHERITABLE_PAGE_ATTRIBUTES = ['Resources', 'MediaBox', 'CropBox', 'Rotate'].map(name => PDFName.of(name));
+
+export class PdfStructureOptimizer {
+
+  /**
+   * 埋め込み画像の縮小・再エンコードと重複ストリームの統合を行い、オブジェクトストリームで保存
+   */
+  static async optimize(
+    data: ArrayBuffer,
+    options: PdfOptimizeOptions,
+    onProgress: ProgressCallback = () => {}
+  ): Promise<{ blob: Blob, stats: PdfOptimizeStats }> {
+    onProgress(10, 'PDFの構造を解析中...');
+
+    const pdfDoc = await PDFDocument.load(data, { updateMetadata: false });
+    const context = pdfDoc.context;
+    // 出力の各ページに対応する元のページ番号
+    const pageNumbers = PageRange.resolve(options.pageOrder, pdfDoc.getPageCount());
+
+    if (options.pageOrder) {
+      this.applyPageOrder(pdfDoc, options.pageOrder);
+    }
+
+    let removedActiveContent = 0;
+    if (options.removeActiveContent) {
+      removedActiveContent = PdfActiveContentScanner.inspect(pdfDoc).length;
+      PdfActiveContentScanner.sanitize(pdfDoc);
+    }
+
+    if (options.metadata) {
+      PdfMetadataEditor.apply(pdfDoc, options.metadata);
+    }
+
+    // 画像はページより高い解像度で表示されることはないため、最大ページの寸法から上限を決める
+    const longestEdge = Math.max(...pdfDoc.getPages().map(page => {
+      const { width, height } = page.getSize();
+      return Math.max(width, height);
+    }), 1);
+    const maxPixels = Math.ceil(longestEdge * options.imageDpi / 72);
+
+    // 画像を差し替える前に、各ページが使う画像を調べておく
+    const pageImages = pdfDoc.getPages().map(page => this.collectPageImages(context, page.node.Resources()));
+
+    const images = context.enumerateIndirectObjects().filter(
+      (entry): entry is [PDFRef, PDFRawStream] =>
+        entry[1] instanceof PDFRawStream && entry[1].dict.get(NAME.Subtype) === NAME.Image
+    );
+
+    // ソフトマスク・マスクとして使われる画像はグレースケールのまま・輪郭を保つ必要があるため対象外
+    const maskRefs = this.collectMaskRefs(context);
+
+    const recompressedRefs = new Set<PDFRef>();
+    for (let i = 0; i < images.length; i++) {
+      const [ref, stream] = images[i];
+      onProgress(20 + (i / images.length) * 60, `画像 ${i + 1}/${images.length} を最適化中...`);
+      if (maskRefs.has(ref)) continue;
+
+      try {
+        const replacement = await this.recompressImage(context, stream, maxPixels, options.quality);
+        if (replacement && replacement.contents.length < stream.contents.length) {
+          context.assign(ref, replacement);
+          recompressedRefs.add(ref);
+        }
+      } catch (error) {
+        // 対応していない形式の画像はそのまま残す
+        console.warn('Skipped PDF image:', error);
+      }
+    }
+
+    onProgress(85, '重複したデータを統合中...');
+    const duplicates = this.deduplicate(context);
+    this.removeUnreachable(context);
+
+    onProgress(95, 'PDFを保存中...');
+    const pdfBytes = await pdfDoc.save({
+      useObjectStreams: true,
+      addDefaultPage: false,
+    });
+
+    onProgress(100, '完了!');
+
+    return {
+      blob: new Blob([pdfBytes as BlobPart], { type: 'application/pdf' }),
+      stats: {
+        images: images.length,
+        recompressed: recompressedRefs.size,
+        duplicates,
+        removedActiveContent,
+        pages: pageImages.map((refs, index) => ({
+          pageNumber: pageNumbers[index],
+          images: refs.size,
+          recompressed: [...refs].filter(ref => recompressedRefs.has(ref)).length
+        }))
+      }
+    };
+  }
+
+  /**
+   * ページの並びを入れ替える（ページのオブジェクトはそのまま使うため、リンクやしおりは保たれる）
+   */
+  private static applyPageOrder(pdfDoc: PDFDocument, pageOrder: number[]): void {
+    const pages = pdfDoc.getPages();
+    const order = PageRange.resolve(pageOrder, pages.length);
+
+    // 移動すると親が変わるため、中間の /Pages から継承している属性はページ自身に写しておく
+    for (const page of pages) {
+      for (const name of INHERITABLE_PAGE_ATTRIBUTES) {
+        const value = page.node.getInheritableAttribute(name);
+        if (value && !page.node.get(name)) {
+          page.node.set(name, value);
+        }
+      }
+    }
+
+    // 先に新しい並びを末尾に追加してから元のページを取り除く（ページツリーを空にしない）
+    for (const pageNum of order) {
+      pdfDoc.addPage(pages[pageNum - 1]);
+    }
+    for (let i = pages.length - 1; i >= 0; i--) {
+      pdfDoc.removePage(i);
+    }
+  }
+
+  /**
+   * ページのリソースから使われている画像をたどる（フォームXObjectの中も含む）
+   */
+  private static collectPageImages(context: PDFContext, resources: PDFDict | undefined): Set<PDFRef> {
+    const images = new Set<PDFRef>();
+    const visited = new Set<PDFRef>();
+    const pending: (PDFDict | undefined)[] = [resources];
+
+    while (pending.length > 0) {
+      const xObjects = context.lookup(pending.pop()?.get(NAME.XObject));
+      if (!(xObjects instanceof PDFDict)) continue;
+
+      for (const value of xObjects.values()) {
+        if (!(value instanceof PDFRef) || visited.has(value)) continue;
+        visited.add(value);
+        const object = context.lookup(value);
+        if (!(object instanceof PDFStream)) continue;
+
+        const subtype = object.dict.get(NAME.Subtype);
+        if (subtype === NAME.Image) {
+          images.add(value);
+        } else if (subtype === NAME.Form) {
+          const formResources = context.lookup(object.dict.get(NAME.Resources));
+          pending.push(formResources instanceof PDFDict ? formResources : undefined);
+        }
+      }
+    }
+
+    return images;
+  }
+
+  /**
+   * 他の画像の /SMask・/Mask から参照されている画像
+   */
+  private static collectMaskRefs(context: PDFContext): Set<PDFRef> {
+    const refs = new Set<PDFRef>();
+    for (const [, object] of context.enumerateIndirectObjects()) {
+      if (!(object instanceof PDFStream)) continue;
+      for (const key of [NAME.SMask, NAME.Mask]) {
+        const value = object.dict.get(key);
+        if (value instanceof PDFRef) {
+          refs.add(value);
+        }
+      }
+    }
+    return refs;
+  }
+
+  /**
+   * トレーラーからたどれないオブジェクト（削除したページの内容など）を取り除く
+   * 保存時にはすべてのオブジェクトが書き出されるため、残しておくとサイズが減らない
+   */
+  private static removeUnreachable(context: PDFContext): void {
+    const reachable = new Set<PDFRef>();
+    const pending: PDFObject[] = [];
+
+    const visit = (object: PDFObject | undefined) => {
+      if (object instanceof PDFRef) {
+        if (reachable.has(object)) return;
+        reachable.add(object);
+        const resolved = context.lookup(object);
+        if (resolved) pending.push(resolved);
+      } else if (object) {
+        pending.push(object);
+      }
+    };
+
+    const { Root, Info, Encrypt } = context.trailerInfo;
+    [Root, Info, Encrypt].forEach(visit);
+
+    while (pending.length > 0) {
+      const object = pending.pop()!;
+      if (object instanceof PDFStream) {
+        visit(object.dict);
+      } else if (object instanceof PDFDict) {
+        object.entries().forEach(([, value]) => visit(value));
+      } else if (object instanceof PDFArray) {
+        object.asArray().forEach(visit);
+      }
+    }
+
+    for (const [ref] of context.enumerateIndirectObjects()) {
+      if (!reachable.has(ref)) {
+        context.delete(ref);
+      }
+    }
+  }
+
+  /**
+   * 画像XObjectを縮小してJPEGで再エンコード（対応できない画像は null）
+   */
+  private static async recompressImage(
+    context: PDFContext,
+    stream: PDFRawStream,
+    maxPixels: number,
+    quality: number
+  ): Promise<PDFRawStream | null> {
+    const dict = stream.dict;
+    if (stream.contents.length < MIN_IMAGE_BYTES) return null;
+
+    // ステンシルマスク・色キーマスク・Decode配列は色を変えると見た目が変わるため対象外
+    if (dict.get(NAME.ImageMask) || dict.get(NAME.Mask) instanceof PDFArray || dict.get(NAME.Decode)) {
+      return null;
+    }
+
+    const width = this.lookupNumber(context, dict.get(NAME.Width));
+    const height = this.lookupNumber(context, dict.get(NAME.Height));
+    const bitsPerComponent = this.lookupNumber(context, dict.get(NAME.BitsPerComponent));
+    const components = this.getColorComponents(context, dict.get(NAME.ColorSpace));
+    if (!width || !height || bitsPerComponent !== 8 || !components) {
+      return null;
+    }
+
+    const filter = this.getSingleFilter(context, dict.get(NAME.Filter));
+    let canvas: AnyCanvas;
+    if (filter === NAME.DCTDecode) {
+      canvas = await this.drawJpeg(stream.contents, width, height);
+    } else if (filter === NAME.FlateDecode) {
+      const pixels = this.decodeFlate(context, stream, width, height, components);
+      if (!pixels) return null;
+      canvas = this.drawPixels(pixels, width, height, components);
+    } else {
+      // JPX・JBIG2・CCITTなどはブラウザで扱えないため対象外
+      return null;
+    }
+
+    // 上限を超える画像は縮小
+    const factor = Math.min(1, maxPixels / Math.max(width, height));
+    const targetWidth = Math.max(1, Math.round(width * factor));
+    const targetHeight = Math.max(1, Math.round(height * factor));
+    const output = factor < 1 ? this.resizeCanvas(canvas, targetWidth, targetHeight) : canvas;
+
+    // canvas が出力するJPEGは常にカラーのため、グレースケールは1チャンネルのままFlateで圧縮する（色空間は変えない）
+    let bytes: Uint8Array;
+    if (components === 1) {
+      const gray = this.readGrayPixels(output, targetWidth, targetHeight);
+      if (!gray || typeof CompressionStream === 'undefined') return null;
+      bytes = await this.deflate(gray);
+    } else {
+      const jpeg = await CanvasUtils.toBlob(output, 'image/jpeg', quality / 100);
+      bytes = new Uint8Array(await jpeg.arrayBuffer());
+    }
+
+    // SMaskなど他の項目は引き継ぎ、画像データに関する項目だけ差し替える
+    const newDict = dict.clone(context);
+    newDict.set(NAME.Filter, components === 1 ? NAME.FlateDecode : NAME.DCTDecode);
+    newDict.set(NAME.Width, PDFNumber.of(targetWidth));
+    newDict.set(NAME.Height, PDFNumber.of(targetHeight));
+    newDict.set(NAME.BitsPerComponent, PDFNumber.of(8));
+    newDict.delete(NAME.DecodeParms);
+    newDict.delete(NAME.Length);
+
+    return PDFRawStream.of(newDict, bytes);
+  }
+
+  /**
+   * canvas の赤チャンネルをグレースケールの画素として取り出す（描画したグレースケール画像はRGBが等しい）
+   */
+  private static readGrayPixels(canvas: AnyCanvas, width: number, height: number): Uint8Array | null {
+    const ctx = CanvasUtils.getContext(canvas);
+    if (!ctx) return null;
+    const rgba = ctx.getImageData(0, 0, width, height).data;
+    const gray = new Uint8Array(width * height);
+    for (let i = 0; i < gray.length; i++) {
+      gray[i] = rgba[i * 4];
+    }
+    return gray;
+  }
+
+  /**
+   * zlib 形式で圧縮（FlateDecode のストリームとして使う）
+   */
+  private static async deflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  private static async drawJpeg(contents: Uint8Array, width: number, height: number): Promise<AnyCanvas> {
+    const image = await CanvasUtils.loadImage(new Blob([contents as BlobPart], { type: 'image/jpeg' }));
+    try {
+      // EXIFの向きなどで寸法が変わった場合は、PDF上の見た目と一致しないため対象外
+      if (image.width !== width || image.height !== height) {
+        throw new Error('JPEG dimensions do not match the image dictionary');
+      }
+      const canvas = CanvasUtils.createCanvas(width, height);
+      const ctx = CanvasUtils.getContext(canvas);
+      if (!ctx) {
+        throw new Error('Canvas context not available');
+      }
+      ctx.drawImage(image, 0, 0, width, height);
+      return canvas;
+    } finally {
+      CanvasUtils.releaseImage(image);
+    }
+  }
+
+  private static drawPixels(pixels: Uint8Array, width: number, height: number, components: number): AnyCanvas {
+    const canvas = CanvasUtils.createCanvas(width, height);
+    const ctx = CanvasUtils.getContext(canvas);
+    if (!ctx) {
+      throw new Error('Canvas context not available');
+    }
+
+    const imageData = ctx.createImageData(width, height);
+    const rgba = imageData.data;
+    for (let i = 0, p = 0; i < width * height; i++, p += components) {
+      rgba[i * 4] = pixels[p];
+      rgba[i * 4 + 1] = components === 3 ? pixels[p + 1] : pixels[p];
+      rgba[i * 4 + 2] = components === 3 ? pixels[p + 2] : pixels[p];
+      rgba[i * 4 + 3] = 255;
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return canvas;
+  }
+
+  private static resizeCanvas(source: AnyCanvas, width: number, height: number): AnyCanvas {
+    const canvas = CanvasUtils.createCanvas(width, height);
+    const ctx = CanvasUtils.getContext(canvas);
+    if (!ctx) {
+      throw new Error('Canvas context not available');
+    }
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, width, height);
+    return canvas;
+  }
+
+  /**
+   * FlateDecode の画像を展開（PNG予測子にも対応）
+   */
+  private static decodeFlate(
+    context: PDFContext,
+    stream: PDFRawStream,
+    width: number,
+    height: number,
+    components: number
+  ): Uint8Array | null {
+    const decoded = decodePDFRawStream(stream).decode();
+    // フィルタが配列で指定されている場合は DecodeParms も配列になる
+    const rawParms = context.lookup(stream.dict.get(NAME.DecodeParms));
+    const parms = rawParms instanceof PDFArray ? context.lookup(rawParms.get(0)) : rawParms;
+    const predictor = parms instanceof PDFDict ? this.lookupNumber(context, parms.get(NAME.Predictor)) ?? 1 : 1;
+
+    const rowBytes = width * components;
+    if (predictor === 1) {
+      return decoded.length >= rowBytes * height ? decoded : null;
+    }
+    if (predictor < 10 || !(parms instanceof PDFDict)) {
+      // TIFF予測子は対象外
+      return null;
+    }
+
+    const colors = this.lookupNumber(context, parms.get(NAME.Colors)) ?? 1;
+    const columns = this.lookupNumber(context, parms.get(NAME.Columns)) ?? 1;
+    if (colors !== components || columns !== width) {
+      return null;
+    }
+    return this.unfilterPng(decoded, rowBytes, height, components);
+  }
+
+  /**
+   * 各行の先頭にフィルタ種別が付いたPNG予測子を元に戻す
+   */
+  private static unfilterPng(data: Uint8Array, rowBytes: number, height: number, bytesPerPixel: number): Uint8Array | null {
+    if (data.length < (rowBytes + 1) * height) {
+      return null;
+    }
+
+    const output = new Uint8Array(rowBytes * height);
+    for (let y = 0; y < height; y++) {
+      const filter = data[y * (rowBytes + 1)];
+      const input = y * (rowBytes + 1) + 1;
+      const row = y * rowBytes;
+      const previous = row - rowBytes;
+
+      for (let x = 0; x < rowBytes; x++) {
+        const left = x >= bytesPerPixel ? output[row + x - bytesPerPixel] : 0;
+        const up = y > 0 ? output[previous + x] : 0;
+        const upLeft = y > 0 && x >= bytesPerPixel ? output[previous + x - bytesPerPixel] : 0;
+        let value = data[input + x];
+
+        switch (filter) {
+          case 0: break;
+          case 1: value += left; break;
+          case 2: value += up; break;
+          case 3: value += (left + up) >> 1; break;
+          case 4: {
+            const estimate = left + up - upLeft;
+            const distanceLeft = Math.abs(estimate - left);
+            const distanceUp = Math.abs(estimate - up);
+            const distanceUpLeft = Math.abs(estimate - upLeft);
+            value += distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft
+              ? left
+              : distanceUp <= distanceUpLeft ? up : upLeft;
+            break;
+          }
+          default:
+            return null;
+        }
+        output[row + x] = value & 0xFF;
+      }
+    }
+    return output;
+  }
+
+  /**
+   * 内容と辞書が同じストリームを1つにまとめ、参照を付け替える
+   */
+  private static deduplicate(context: PDFContext): number {
+    let total = 0;
+
+    for (let pass = 0; pass < MAX_DEDUPE_PASSES; pass++) {
+      const groups = new Map<string, PDFRawStream[]>();
+      const canonicalRefs = new Map<PDFRawStream, PDFRef>();
+      const replacements = new Map<PDFRef, PDFRef>();
+
+      for (const [ref, object] of context.enumerateIndirectObjects()) {
+        if (!(object instanceof PDFRawStream)) continue;
+
+        // /Length は間接参照の場合があるため比較から除く
+        const dictString = object.dict.entries()
+          .filter(([name]) => name !== NAME.Length)
+          .map(([name, value]) => `${name.toString()} ${value.toString()}`)
+          .join(' ');
+        const key = `${object.contents.length}:${Checksum.crc32(object.contents)}:${dictString}`;
+        const group = groups.get(key) ?? [];
+        const match = group.find(candidate => this.bytesEqual(candidate.contents, object.contents));
+
+        if (match) {
+          replacements.set(ref, canonicalRefs.get(match)!);
+        } else {
+          group.push(object);
+          groups.set(key, group);
+          canonicalRefs.set(object, ref);
+        }
+      }
+
+      if (replacements.size === 0) break;
+
+      for (const [, object] of context.enumerateIndirectObjects()) {
+        this.replaceRefs(object, replacements);
+      }
+      replacements.forEach((_, ref) => context.delete(ref));
+      total += replacements.size;
+    }
+
+    return total;
+  }
+
+  private static replaceRefs(object: PDFObject, replacements: Map<PDFRef, PDFRef>): void {
+    if (object instanceof PDFStream) {
+      this.replaceRefs(object.dict, replacements);
+    } else if (object instanceof PDFDict) {
+      for (const [key, value] of object.entries()) {
+        if (value instanceof PDFRef) {
+          const replacement = replacements.get(value);
+          if (replacement) object.set(key, replacement);
+        } else {
+          this.replaceRefs(value, replacements);
+        }
+      }
+    } else if (object instanceof PDFArray) {
+      for (let i = 0; i < object.size(); i++) {
+        const value = object.get(i);
+        if (value instanceof PDFRef) {
+          const replacement = replacements.get(value);
+          if (replacement) object.set(i, replacement);
+        } else {
+          this.replaceRefs(value, replacements);
+        }
+      }
+    }
+  }
+
+  private static bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) return false;
+    }
+    return true;
+  }
+
+  /**
+   * 色空間の成分数（RGB・グレースケールとそのICCBasedのみ対応）
+   */
+  private static getColorComponents(context: PDFContext, value: PDFObject | undefined): number | null {
+    const colorSpace = context.lookup(value);
+    if (colorSpace === NAME.DeviceRGB) return 3;
+    if (colorSpace === NAME.DeviceGray) return 1;
+
+    if (colorSpace instanceof PDFArray && colorSpace.size() === 2 && context.lookup(colorSpace.get(0)) === NAME.ICCBased) {
+      const profile = context.lookup(colorSpace.get(1));
+      if (profile instanceof PDFStream) {
+        const n = this.lookupNumber(context, profile.dict.get(NAME.N));
+        return n === 3 || n === 1 ? n : null;
+      }
+    }
+    return null;
+  }
+
+  private static getSingleFilter(context: PDFContext, value: PDFObject | undefined): PDFName | null {
+    const filter = context.lookup(value);
+    if (filter instanceof PDFName) return filter;
+    if (filter instanceof PDFArray && filter.size() === 1) {
+      const first = context.lookup(filter.get(0));
+      return first instanceof PDFName ? first : null;
+    }
+    return null;
+  }
+
+  private static lookupNumber(context: PDFContext, value: PDFObject | undefined): number | null {
+    const resolved = context.lookup(value);
+    return resolved instanceof PDFNumber ? resolved.asNumber() : null;
+  }
+}
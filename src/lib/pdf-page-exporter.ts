@@ -0,0 +1,91 @@
+// PDFの各ページを画像ファイルとして書き出す
+
+import { CanvasUtils } from '@/lib/canvas';
+import { OUTPUT_FORMATS, OutputFormatResolver } from '@/lib/output-formats';
+import { PageRange } from '@/lib/page-range';
+import { PdfRenderer } from '@/lib/pdf-renderer';
+import { ZipWriter, type ZipEntry } from '@/lib/zip-writer';
+import type { ProgressCallback } from '@/lib/pdf-compressor';
+
+export type PdfPageImageFormat = 'jpeg' | 'png' | 'webp';
+
+export const PDF_PAGE_IMAGE_FORMATS: PdfPageImageFormat[] = ['jpeg', 'png', 'webp'];
+
+export interface PdfPageExportOptions {
+  format: PdfPageImageFormat;
+  dpi: number;
+  // JPEG・WebPの画質（1〜100）
+  quality: number;
+  // 書き出すページ（未指定なら全ページ）
+  pageOrder?: number[];
+  // 暗号化されたPDFを開くパスワード
+  password?: string;
+}
+
+export interface PdfPageImage {
+  pageNumber: number;
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export class PdfPageExporter {
+
+  /**
+   * 各ページを指定したDPIで描画し、画像としてエンコード
+   */
+  static async export(
+    data: ArrayBuffer,
+    options: PdfPageExportOptions,
+    onProgress: ProgressCallback = () => {}
+  ): Promise<PdfPageImage[]> {
+    // PDFの座標系は 1pt = 1/72インチ
+    const scale = options.dpi / 72;
+    const { mimeType, lossy } = OUTPUT_FORMATS[options.format];
+    const images: PdfPageImage[] = [];
+
+    onProgress(10, 'PDFを読み込み中...');
+
+    const pdf = await PdfRenderer.open(data, options.password);
+    try {
+      const pageOrder = PageRange.resolve(options.pageOrder, pdf.numPages);
+
+      for (let i = 0; i < pageOrder.length; i++) {
+        const pageNumber = pageOrder[i];
+        onProgress(10 + ((i + 1) / pageOrder.length) * 85, `ページ ${i + 1}/${pageOrder.length} を書き出し中...`);
+
+        const page = await pdf.getPage(pageNumber);
+        const canvas = await PdfRenderer.renderPage(page, scale);
+        const blob = await CanvasUtils.toBlob(canvas, mimeType, lossy ? options.quality / 100 : undefined);
+        images.push({ pageNumber, blob, width: canvas.width, height: canvas.height });
+        page.cleanup();
+      }
+    } finally {
+      await pdf.destroy();
+    }
+
+    return images;
+  }
+
+  /**
+   * ページ番号をファイル名にした画像をZIPにまとめる（例: report_p003.jpg）
+   * 拡張子は実際にエンコードされた形式から決める
+   */
+  static async createArchive(baseName: string, images: PdfPageImage[], pageCount: number): Promise<Blob> {
+    // ファイル名の並びがページ順になるよう桁をそろえる
+    const digits = Math.max(3, String(pageCount).length);
+    const usedNames = new Set<string>();
+    const entries: ZipEntry[] = [];
+
+    for (const image of images) {
+      const extension = OutputFormatResolver.getExtension(image.blob.type);
+      const name = `${baseName}_p${String(image.pageNumber).padStart(digits, '0')}.${extension}`;
+      entries.push({
+        name: ZipWriter.uniqueName(name, usedNames),
+        data: new Uint8Array(await image.blob.arrayBuffer())
+      });
+    }
+
+    return ZipWriter.createZip(entries);
+  }
+}
@@ -0,0 +1,154 @@
+// pdf.js によるPDFページの描画（メインスレッド・Web Worker 共通）
+
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import { CanvasUtils, type AnyCanvas, type AnyCanvasContext } from '@/lib/canvas';
+
+// PDF.js worker設定（同一オリジンから配信し、CSPの worker-src 'self' を満たす）
+// ブラウザのメインスレッドと Web Worker の両方で設定する
+if (typeof self !== 'undefined') {
+  pdfjsLib.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+}
+
+/**
+ * DOMがない環境（Web Worker）で pdf.js が使う canvas ファクトリ
+ */
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(canvasAndContext: { canvas: OffscreenCanvas | null }, width: number, height: number) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = width;
+      canvasAndContext.canvas.height = height;
+    }
+  }
+
+  destroy(canvasAndContext: { canvas: OffscreenCanvas | null, context: unknown }) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0;
+      canvasAndContext.canvas.height = 0;
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+// パスワードが必要な理由（未入力 / 誤り）
+export type PdfPasswordReason = 'required' | 'incorrect';
+
+/**
+ * パスワードで保護されたPDFを開けなかったことを表すエラー
+ */
+export class PdfPasswordError extends Error {
+  constructor(readonly reason: PdfPasswordReason) {
+    super(reason === 'incorrect' ? 'PDFのパスワードが違います' : 'PDFを開くにはパスワードが必要です');
+    this.name = 'PdfPasswordError';
+  }
+}
+
+export class PdfRenderer {
+
+  /**
+   * PDFを pdf.js で開く
+   * pdf.js は渡したバッファを転送して使えなくするため、複製を渡す
+   * パスワードを求められた場合は password を1回だけ渡し、開けなければ PdfPasswordError にする
+   */
+  static open(data: ArrayBuffer, password?: string): Promise<PDFDocumentProxy> {
+    const loadingTask = pdfjsLib.getDocument(this.getDocumentParams(data));
+
+    return new Promise((resolve, reject) => {
+      loadingTask.onPassword = (updatePassword: (password: string) => void, reason: number) => {
+        if (reason === pdfjsLib.PasswordResponses.NEED_PASSWORD && password) {
+          updatePassword(password);
+          return;
+        }
+        reject(new PdfPasswordError(reason === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD ? 'incorrect' : 'required'));
+        void loadingTask.destroy();
+      };
+      loadingTask.promise.then(resolve, reject);
+    });
+  }
+
+  /**
+   * ページを指定した倍率（1.0 = 72DPI）で canvas に描画
+   */
+  static async renderPage(page: PDFPageProxy, scale: number): Promise<AnyCanvas> {
+    const viewport = page.getViewport({ scale });
+    const canvas = CanvasUtils.createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    const context = CanvasUtils.getContext(canvas);
+    if (!context) {
+      throw new Error('Canvas context not available');
+    }
+
+    await page.render({
+      // OffscreenCanvas のコンテキストも同じAPIで描画できる
+      canvasContext: context as AnyCanvasContext as CanvasRenderingContext2D,
+      viewport,
+    }).promise;
+
+    return canvas;
+  }
+
+  /**
+   * ページ（1から）を指定した倍率で描画して画像にする
+   */
+  static async renderPageImage(
+    pdf: PDFDocumentProxy,
+    pageNumber: number,
+    scale: number,
+    type: string,
+    quality?: number
+  ): Promise<{ blob: Blob, width: number, height: number }> {
+    const page = await pdf.getPage(pageNumber);
+    try {
+      const canvas = await this.renderPage(page, scale);
+      return { blob: await CanvasUtils.toBlob(canvas, type, quality), width: canvas.width, height: canvas.height };
+    } finally {
+      page.cleanup();
+    }
+  }
+
+  /**
+   * 全ページのサムネイル（幅 width px のJPEG）を作成
+   * onThumbnail はページを描画するたびに呼ばれる（ページ番号は1から）
+   */
+  static async renderThumbnails(
+    data: ArrayBuffer,
+    width: number,
+    onThumbnail: (pageNumber: number, thumbnail: Blob, pageCount: number) => void,
+    password?: string
+  ): Promise<number> {
+    const pdf = await this.open(data, password);
+    try {
+      for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+        const page = await pdf.getPage(pageNum);
+        const scale = width / page.getViewport({ scale: 1.0 }).width;
+        const canvas = await this.renderPage(page, scale);
+        onThumbnail(pageNum, await CanvasUtils.toBlob(canvas, 'image/jpeg', 0.7), pdf.numPages);
+        page.cleanup();
+      }
+      return pdf.numPages;
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  private static getDocumentParams(data: ArrayBuffer) {
+    const params = { data: new Uint8Array(data.slice(0)) };
+
+    if (typeof document !== 'undefined') {
+      return params;
+    }
+
+    // Worker内: DOMの代わりに OffscreenCanvas を使い、フォントはパスとして描画する
+    return {
+      ...params,
+      CanvasFactory: OffscreenCanvasFactory,
+      isOffscreenCanvasSupported: true,
+      disableFontFace: true
+    };
+  }
+}
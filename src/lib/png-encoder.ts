@@ -0,0 +1,125 @@
+// パレット（インデックスカラー）形式のPNGエンコーダ
+// canvas はフルカラーのPNGしか出力できないため、減色した画像は自前で書き出す
+
+import { Checksum } from '@/lib/checksum';
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+// IHDR のカラータイプ: インデックスカラー
+const COLOR_TYPE_INDEXED = 3;
+
+export class PngEncoder {
+
+  /**
+   * zlib 圧縮（CompressionStream）が使える環境か
+   */
+  static isSupported(): boolean {
+    return typeof CompressionStream !== 'undefined';
+  }
+
+  /**
+   * パレット画像をPNGとしてエンコード
+   * palette はRGBAを4バイトずつ並べたもの（最大256色）
+   */
+  static async encodeIndexed(
+    width: number,
+    height: number,
+    palette: Uint8Array,
+    indices: Uint8Array
+  ): Promise<Blob> {
+    const paletteSize = palette.length / 4;
+    if (paletteSize < 1 || paletteSize > 256) {
+      throw new Error('Palette must contain 1 to 256 colors');
+    }
+
+    // 色数に応じてビット深度を下げ、1バイトに複数ピクセルを詰める
+    const bitDepth = paletteSize <= 2 ? 1 : paletteSize <= 4 ? 2 : paletteSize <= 16 ? 4 : 8;
+    const scanlines = this.packScanlines(width, height, indices, bitDepth);
+    const compressed = await this.deflate(scanlines);
+
+    const chunks: Uint8Array[] = [PNG_SIGNATURE];
+    chunks.push(this.createChunk('IHDR', this.createHeader(width, height, bitDepth)));
+
+    const plte = new Uint8Array(paletteSize * 3);
+    let lastTranslucent = -1;
+    for (let i = 0; i < paletteSize; i++) {
+      plte[i * 3] = palette[i * 4];
+      plte[i * 3 + 1] = palette[i * 4 + 1];
+      plte[i * 3 + 2] = palette[i * 4 + 2];
+      if (palette[i * 4 + 3] < 255) {
+        lastTranslucent = i;
+      }
+    }
+    chunks.push(this.createChunk('PLTE', plte));
+
+    // 透明度は不透明でない最後の色までを tRNS に格納（以降は不透明扱い）
+    if (lastTranslucent >= 0) {
+      const trns = new Uint8Array(lastTranslucent + 1);
+      for (let i = 0; i <= lastTranslucent; i++) {
+        trns[i] = palette[i * 4 + 3];
+      }
+      chunks.push(this.createChunk('tRNS', trns));
+    }
+
+    chunks.push(this.createChunk('IDAT', compressed));
+    chunks.push(this.createChunk('IEND', new Uint8Array(0)));
+
+    return new Blob(chunks as BlobPart[], { type: 'image/png' });
+  }
+
+  private static createHeader(width: number, height: number, bitDepth: number): Uint8Array {
+    const header = new Uint8Array(13);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, width);
+    view.setUint32(4, height);
+    header[8] = bitDepth;
+    header[9] = COLOR_TYPE_INDEXED;
+    header[10] = 0; // 圧縮方式: deflate
+    header[11] = 0; // フィルタ方式
+    header[12] = 0; // インターレースなし
+    return header;
+  }
+
+  /**
+   * 各行の先頭にフィルタ種別（0: なし）を付けてピクセルを詰める
+   * インデックスカラーではフィルタなしが最も小さくなりやすい
+   */
+  private static packScanlines(width: number, height: number, indices: Uint8Array, bitDepth: number): Uint8Array {
+    const pixelsPerByte = 8 / bitDepth;
+    const rowBytes = Math.ceil(width / pixelsPerByte);
+    const output = new Uint8Array((rowBytes + 1) * height);
+
+    for (let y = 0; y < height; y++) {
+      const rowStart = y * (rowBytes + 1);
+      output[rowStart] = 0;
+      for (let x = 0; x < width; x++) {
+        const index = indices[y * width + x];
+        const byteOffset = rowStart + 1 + Math.floor(x / pixelsPerByte);
+        const shift = 8 - bitDepth * ((x % pixelsPerByte) + 1);
+        output[byteOffset] |= index << shift;
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * zlib 形式で圧縮
+   */
+  private static async deflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  private static createChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) {
+      chunk[4 + i] = type.charCodeAt(i);
+    }
+    chunk.set(data, 8);
+    // CRC はチャンク種別とデータを対象に計算
+    view.setUint32(8 + data.length, Checksum.crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+  }
+}
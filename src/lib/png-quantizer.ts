@@ -0,0 +1,286 @@
+// PNGの減色（メディアンカット法によるパレット生成と誤差拡散ディザリング）
+
+export interface QuantizeOptions {
+  // パレットの色数（2〜256）
+  colors: number;
+  // Floyd–Steinberg 法で誤差を拡散する
+  dither: boolean;
+}
+
+export interface QuantizedImage {
+  // RGBAを4バイトずつ並べたパレット
+  palette: Uint8Array;
+  // 各ピクセルのパレット番号
+  indices: Uint8Array;
+}
+
+export const MIN_PALETTE_COLORS = 2;
+export const MAX_PALETTE_COLORS = 256;
+
+// 色の集計はRGB各5bit・アルファ3bitに丸めたビン単位で行う
+const HISTOGRAM_SIZE = 1 << 18;
+// 最近傍色のキャッシュはRGBA各5bit
+const LOOKUP_SIZE = 1 << 20;
+
+interface ColorBox {
+  bins: number[];
+  count: number;
+}
+
+export class PngQuantizer {
+
+  /**
+   * 画質（10〜100%）から色数を決定
+   * 100%は減色しない（null）
+   */
+  static colorsForQuality(quality: number): number | null {
+    if (quality >= 100) {
+      return null;
+    }
+    // 画質10%で2色、画質を上げるほど指数的に色数を増やす
+    const ratio = Math.max(0, Math.min(1, (quality - 10) / 90));
+    const colors = Math.round(Math.pow(2, 1 + 7 * ratio));
+    return Math.max(MIN_PALETTE_COLORS, Math.min(MAX_PALETTE_COLORS, colors));
+  }
+
+  /**
+   * RGBAのピクセル列をパレット画像に変換
+   */
+  static quantize(
+    data: Uint8ClampedArray,
+    width: number,
+    height: number,
+    options: QuantizeOptions
+  ): QuantizedImage {
+    const colors = Math.max(MIN_PALETTE_COLORS, Math.min(MAX_PALETTE_COLORS, Math.round(options.colors)));
+    const { counts, sums, hasTransparent } = this.buildHistogram(data);
+
+    // 完全に透明なピクセルは専用の色（番号0）にまとめる
+    const reserved = hasTransparent ? 1 : 0;
+    const boxes = this.medianCut(counts, sums, Math.max(1, colors - reserved));
+
+    const palette = new Uint8Array((boxes.length + reserved) * 4);
+    boxes.forEach((box, i) => {
+      const color = this.averageColor(box, counts, sums);
+      palette.set(color, (i + reserved) * 4);
+    });
+
+    const indices = this.mapPixels(data, width, height, palette, reserved === 1, options.dither);
+    return { palette, indices };
+  }
+
+  /**
+   * 丸めたビンごとの出現数と色の合計を集計
+   */
+  private static buildHistogram(data: Uint8ClampedArray) {
+    const counts = new Uint32Array(HISTOGRAM_SIZE);
+    const sums = new Float64Array(HISTOGRAM_SIZE * 4);
+    let hasTransparent = false;
+
+    for (let i = 0; i < data.length; i += 4) {
+      const a = data[i + 3];
+      if (a === 0) {
+        hasTransparent = true;
+        continue;
+      }
+      const bin = this.histogramBin(data[i], data[i + 1], data[i + 2], a);
+      counts[bin]++;
+      sums[bin * 4] += data[i];
+      sums[bin * 4 + 1] += data[i + 1];
+      sums[bin * 4 + 2] += data[i + 2];
+      sums[bin * 4 + 3] += a;
+    }
+
+    return { counts, sums, hasTransparent };
+  }
+
+  private static histogramBin(r: number, g: number, b: number, a: number): number {
+    return ((r >> 3) << 13) | ((g >> 3) << 8) | ((b >> 3) << 3) | (a >> 5);
+  }
+
+  /**
+   * 色の広がりが最も大きい箱を中央値で分割していく
+   */
+  private static medianCut(counts: Uint32Array, sums: Float64Array, colors: number): ColorBox[] {
+    const bins: number[] = [];
+    let total = 0;
+    for (let bin = 0; bin < HISTOGRAM_SIZE; bin++) {
+      if (counts[bin] > 0) {
+        bins.push(bin);
+        total += counts[bin];
+      }
+    }
+
+    if (bins.length === 0) {
+      return [];
+    }
+
+    const boxes: ColorBox[] = [{ bins, count: total }];
+
+    while (boxes.length < colors) {
+      // 分割する箱を選ぶ（広がり×ピクセル数が最大のもの）
+      let target = -1;
+      let targetChannel = 0;
+      let bestScore = 0;
+
+      boxes.forEach((box, i) => {
+        if (box.bins.length < 2) return;
+        const { channel, range } = this.widestChannel(box, counts, sums);
+        const score = range * Math.sqrt(box.count);
+        if (score > bestScore) {
+          bestScore = score;
+          target = i;
+          targetChannel = channel;
+        }
+      });
+
+      if (target < 0) {
+        break;
+      }
+
+      const box = boxes[target];
+      const channelValue = (bin: number) => sums[bin * 4 + targetChannel] / counts[bin];
+      box.bins.sort((a, b) => channelValue(a) - channelValue(b));
+
+      // ピクセル数の中央で分割
+      let accumulated = 0;
+      let split = 1;
+      for (let i = 0; i < box.bins.length - 1; i++) {
+        accumulated += counts[box.bins[i]];
+        split = i + 1;
+        if (accumulated >= box.count / 2) break;
+      }
+
+      const lower = box.bins.slice(0, split);
+      const upper = box.bins.slice(split);
+      const lowerCount = lower.reduce((sum, bin) => sum + counts[bin], 0);
+
+      boxes.splice(target, 1,
+        { bins: lower, count: lowerCount },
+        { bins: upper, count: box.count - lowerCount }
+      );
+    }
+
+    return boxes;
+  }
+
+  private static widestChannel(box: ColorBox, counts: Uint32Array, sums: Float64Array) {
+    const min = [255, 255, 255, 255];
+    const max = [0, 0, 0, 0];
+
+    for (const bin of box.bins) {
+      for (let c = 0; c < 4; c++) {
+        const value = sums[bin * 4 + c] / counts[bin];
+        if (value < min[c]) min[c] = value;
+        if (value > max[c]) max[c] = value;
+      }
+    }
+
+    let channel = 0;
+    let range = 0;
+    for (let c = 0; c < 4; c++) {
+      if (max[c] - min[c] > range) {
+        range = max[c] - min[c];
+        channel = c;
+      }
+    }
+
+    return { channel, range };
+  }
+
+  private static averageColor(box: ColorBox, counts: Uint32Array, sums: Float64Array): number[] {
+    const total = [0, 0, 0, 0];
+    for (const bin of box.bins) {
+      for (let c = 0; c < 4; c++) {
+        total[c] += sums[bin * 4 + c];
+      }
+    }
+    return total.map(value => Math.round(value / box.count));
+  }
+
+  /**
+   * 各ピクセルを最も近いパレット色に置き換える
+   */
+  private static mapPixels(
+    data: Uint8ClampedArray,
+    width: number,
+    height: number,
+    palette: Uint8Array,
+    hasTransparentEntry: boolean,
+    dither: boolean
+  ): Uint8Array {
+    const indices = new Uint8Array(width * height);
+    const lookup = new Int16Array(LOOKUP_SIZE).fill(-1);
+    const firstOpaque = hasTransparentEntry ? 1 : 0;
+    const paletteSize = palette.length / 4;
+
+    const nearest = (r: number, g: number, b: number, a: number): number => {
+      const key = ((r >> 3) << 15) | ((g >> 3) << 10) | ((b >> 3) << 5) | (a >> 3);
+      const cached = lookup[key];
+      if (cached >= 0) return cached;
+
+      let best = firstOpaque;
+      let bestDistance = Infinity;
+      for (let i = firstOpaque; i < paletteSize; i++) {
+        const dr = palette[i * 4] - r;
+        const dg = palette[i * 4 + 1] - g;
+        const db = palette[i * 4 + 2] - b;
+        const da = palette[i * 4 + 3] - a;
+        // 透明度の違いは目立つため重めに評価
+        const distance = dr * dr + dg * dg + db * db + da * da * 2;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = i;
+        }
+      }
+      lookup[key] = best;
+      return best;
+    };
+
+    // 誤差拡散用に現在の行と次の行の誤差（RGB）を保持
+    let currentErrors = new Float32Array((width + 2) * 3);
+    let nextErrors = new Float32Array((width + 2) * 3);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const pixel = y * width + x;
+        const offset = pixel * 4;
+        const a = data[offset + 3];
+
+        if (a === 0 && hasTransparentEntry) {
+          indices[pixel] = 0;
+          continue;
+        }
+
+        const errorOffset = (x + 1) * 3;
+        const r = this.clamp(data[offset] + (dither ? currentErrors[errorOffset] : 0));
+        const g = this.clamp(data[offset + 1] + (dither ? currentErrors[errorOffset + 1] : 0));
+        const b = this.clamp(data[offset + 2] + (dither ? currentErrors[errorOffset + 2] : 0));
+
+        const index = nearest(r, g, b, a);
+        indices[pixel] = index;
+
+        if (!dither) continue;
+
+        // Floyd–Steinberg: 右 7/16、左下 3/16、下 5/16、右下 1/16
+        const errors = [r - palette[index * 4], g - palette[index * 4 + 1], b - palette[index * 4 + 2]];
+        for (let c = 0; c < 3; c++) {
+          const error = errors[c];
+          currentErrors[errorOffset + 3 + c] += error * 7 / 16;
+          nextErrors[errorOffset - 3 + c] += error * 3 / 16;
+          nextErrors[errorOffset + c] += error * 5 / 16;
+          nextErrors[errorOffset + 3 + c] += error / 16;
+        }
+      }
+
+      [currentErrors, nextErrors] = [nextErrors, currentErrors];
+      nextErrors.fill(0);
+    }
+
+    return indices;
+  }
+
+  private static clamp(value: number): number {
+    return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+  }
+}
@@ -0,0 +1,155 @@
+// 出力寸法の計算
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+export type ResizeMode = 'none' | 'fit' | 'width' | 'height' | 'percent' | 'long-edge';
+
+export interface ResizeOptions {
+  mode: ResizeMode;
+  width: number;
+  height: number;
+  percent: number;
+  longEdge: number;
+  // 縦横比を保持する
+  lockAspect: boolean;
+  // 元画像より大きくしない
+  noUpscale: boolean;
+}
+
+// 従来の「1920×1080に収める」動作を既定値とする
+export const DEFAULT_RESIZE_OPTIONS: ResizeOptions = {
+  mode: 'fit',
+  width: 1920,
+  height: 1080,
+  percent: 50,
+  longEdge: 2048,
+  lockAspect: true,
+  noUpscale: true
+};
+
+export const RESIZE_MODE_LABELS: Record<ResizeMode, string> = {
+  none: 'リサイズしない',
+  fit: '幅×高さに収める',
+  width: '幅を指定',
+  height: '高さを指定',
+  percent: '倍率（%）',
+  'long-edge': '長辺を指定'
+};
+
+export class ResizeCalculator {
+
+  /**
+   * リサイズ設定から出力寸法を計算
+   */
+  static calculate(source: ImageDimensions, options: ResizeOptions): ImageDimensions {
+    let width = source.width;
+    let height = source.height;
+
+    switch (options.mode) {
+      case 'none':
+        break;
+
+      case 'fit':
+        if (options.lockAspect) {
+          const factor = Math.min(options.width / source.width, options.height / source.height);
+          width = source.width * factor;
+          height = source.height * factor;
+        } else {
+          width = options.width;
+          height = options.height;
+        }
+        break;
+
+      case 'width':
+        width = options.width;
+        if (options.lockAspect) {
+          height = source.height * (options.width / source.width);
+        }
+        break;
+
+      case 'height':
+        height = options.height;
+        if (options.lockAspect) {
+          width = source.width * (options.height / source.height);
+        }
+        break;
+
+      case 'percent':
+        width = source.width * (options.percent / 100);
+        height = source.height * (options.percent / 100);
+        break;
+
+      case 'long-edge': {
+        const factor = options.longEdge / Math.max(source.width, source.height);
+        width = source.width * factor;
+        height = source.height * factor;
+        break;
+      }
+    }
+
+    if (options.noUpscale && (width > source.width || height > source.height)) {
+      if (options.lockAspect || options.mode === 'percent' || options.mode === 'long-edge') {
+        // 縦横比を保ったまま元のサイズまで戻す
+        const factor = Math.min(source.width / width, source.height / height);
+        width *= factor;
+        height *= factor;
+      } else {
+        width = Math.min(width, source.width);
+        height = Math.min(height, source.height);
+      }
+    }
+
+    return {
+      width: Math.max(1, Math.round(width)),
+      height: Math.max(1, Math.round(height))
+    };
+  }
+
+  /**
+   * 最大サイズに収まるようアスペクト比を保って寸法を計算
+   */
+  static fitWithin(
+    originalWidth: number,
+    originalHeight: number,
+    maxWidth: number,
+    maxHeight: number
+  ): ImageDimensions {
+    let width = originalWidth;
+    let height = originalHeight;
+
+    if (width > maxWidth) {
+      height = (height * maxWidth) / width;
+      width = maxWidth;
+    }
+
+    if (height > maxHeight) {
+      width = (width * maxHeight) / height;
+      height = maxHeight;
+    }
+
+    return { width: Math.round(width), height: Math.round(height) };
+  }
+
+  /**
+   * 設定内容の短い説明
+   */
+  static describe(options: ResizeOptions): string {
+    switch (options.mode) {
+      case 'none':
+        return RESIZE_MODE_LABELS.none;
+      case 'fit':
+        return `${options.width}×${options.height}px${options.lockAspect ? 'に収める' : 'に変形'}`;
+      case 'width':
+        return `幅 ${options.width}px`;
+      case 'height':
+        return `高さ ${options.height}px`;
+      case 'percent':
+        return `${options.percent}%`;
+      case 'long-edge':
+        return `長辺 ${options.longEdge}px`;
+    }
+  }
+}
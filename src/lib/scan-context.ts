@@ -0,0 +1,379 @@
+// スキャンルールの範囲（scopes）に合わせて、形式の構造からデータを取り出す
+// メタデータの中だけ・PDFのJavaScriptの中だけを調べることで、画像の圧縮データの偶然の一致を避ける
+
+import { PdfActiveContentScanner } from '@/lib/pdf-active-content';
+import type { ScanRegion } from '@/lib/scan-rules';
+
+// 圧縮されたテキスト（PNGの zTXt など）を展開する上限
+const MAX_INFLATED_LENGTH = 1024 * 1024;
+// 1つの範囲として取り出す長さの上限（壊れた長さで巨大な領域を確保しないため。超える部分はファイル全体の照合に任せる）
+const MAX_REGION_LENGTH = 16 * 1024 * 1024;
+
+// 構造をたどる処理が次に必要とするデータ
+// read: 指定したバイト数を受け取る / skip: 読み飛ばす / marker: JPEGの圧縮データを読み飛ばし、次のマーカー（0xFF と種別）を受け取る
+type ReadRequest = { read: number } | { skip: number } | { marker: true };
+type StructureWalker = Generator<ReadRequest, void, Uint8Array>;
+
+const EMPTY = new Uint8Array(0);
+
+export class ScanContextExtractor {
+  private readonly regions: ScanRegion[] = [];
+  // 展開してから調べる圧縮されたテキスト
+  private readonly compressed: { scope: ScanRegion['scope'], bytes: Uint8Array }[] = [];
+  private readonly walker: StructureWalker | null;
+  private request: ReadRequest | null = null;
+  private buffer = EMPTY;
+  private filled = 0;
+  private skipping = 0;
+  private afterMarkerPrefix = false;
+  // 構造をたどる処理が読み進めた位置
+  private position = 0;
+  // PDFはオブジェクトをたどるためにファイル全体が必要
+  // 読み込み済みの内容を渡されればそれを使い、なければ読み込み中のチャンクを保持する（どちらも読み直さない）
+  private readonly pdfData: Uint8Array | null;
+  private readonly pdfChunks: Uint8Array[] | null;
+
+  /**
+   * ファイルを読みながら、形式ごとのメタデータの範囲を取り出す
+   * 画像は構造をたどるのに必要なバイトだけを保持し、ファイル全体は保持しない
+   */
+  constructor(mimeType: string, data?: Uint8Array) {
+    const pdf = mimeType === 'application/pdf';
+    this.pdfData = pdf && data ? data : null;
+    this.pdfChunks = pdf && !data ? [] : null;
+    switch (mimeType) {
+      case 'image/png': this.walker = this.walkPng(); break;
+      case 'image/jpeg': this.walker = this.walkJpeg(); break;
+      case 'image/gif': this.walker = this.walkGif(); break;
+      case 'image/webp': this.walker = this.walkWebp(); break;
+      default: this.walker = null;
+    }
+    this.advance(EMPTY);
+  }
+
+  /**
+   * ファイル全体から範囲を取り出す（読み込み済みのデータ用）
+   */
+  static async extract(bytes: Uint8Array, mimeType: string): Promise<ScanRegion[]> {
+    const extractor = new ScanContextExtractor(mimeType, bytes);
+    extractor.push(bytes);
+    return extractor.finish();
+  }
+
+  /**
+   * 読み込み後にファイル全体の解析（PDF）が残っているか
+   */
+  get deferred(): boolean {
+    return this.pdfData !== null || this.pdfChunks !== null;
+  }
+
+  push(chunk: Uint8Array): void {
+    this.pdfChunks?.push(chunk);
+
+    let i = 0;
+    while (this.request && i < chunk.length) {
+      const request = this.request;
+      if ('skip' in request) {
+        const length = Math.min(this.skipping, chunk.length - i);
+        i += length;
+        this.position += length;
+        this.skipping -= length;
+        if (this.skipping === 0) this.advance(EMPTY);
+      } else if ('read' in request) {
+        const length = Math.min(this.buffer.length - this.filled, chunk.length - i);
+        this.buffer.set(chunk.subarray(i, i + length), this.filled);
+        i += length;
+        this.position += length;
+        this.filled += length;
+        if (this.filled === this.buffer.length) this.advance(this.buffer);
+      } else {
+        // 0xFF00 とリスタートマーカーは圧縮データの一部
+        for (; i < chunk.length; i++) {
+          const value = chunk[i];
+          this.position++;
+          if (this.afterMarkerPrefix && value !== 0x00 && value !== 0xFF && !(value >= 0xD0 && value <= 0xD7)) {
+            i++;
+            this.afterMarkerPrefix = false;
+            this.advance(Uint8Array.of(0xFF, value));
+            break;
+          }
+          this.afterMarkerPrefix = value === 0xFF;
+        }
+      }
+    }
+  }
+
+  /**
+   * 読み込みを終えて、取り出した範囲を返す
+   */
+  async finish(): Promise<ScanRegion[]> {
+    try {
+      // 途中で終わっているデータは受け取れたところまでを渡す
+      if (this.request && 'read' in this.request && this.filled > 0) {
+        this.advance(this.buffer.subarray(0, this.filled));
+      }
+      this.walker?.return();
+      this.request = null;
+
+      for (const { scope, bytes } of this.compressed) {
+        const text = await this.inflate(bytes);
+        if (text) this.regions.push({ scope, bytes: text });
+      }
+      const pdf = this.pdfData ?? (this.pdfChunks && this.concat(this.pdfChunks));
+      if (pdf) {
+        this.regions.push(...await this.extractPdf(pdf));
+      }
+    } catch (error) {
+      // 構造をたどれない場合は取り出せた範囲だけを対象にする
+      console.warn('Failed to extract scan regions:', error);
+    }
+    return this.regions;
+  }
+
+  // 構造をたどる処理を次の要求まで進める（長さ0の要求はその場で満たす）
+  private advance(value: Uint8Array): void {
+    if (!this.walker) return;
+    try {
+      let step = this.walker.next(value);
+      while (!step.done) {
+        const request = step.value;
+        if ('read' in request && request.read > 0) {
+          this.buffer = new Uint8Array(request.read);
+          this.filled = 0;
+        } else if ('skip' in request && request.skip > 0) {
+          this.skipping = request.skip;
+        } else if ('marker' in request) {
+          this.afterMarkerPrefix = false;
+        } else {
+          step = this.walker.next(EMPTY);
+          continue;
+        }
+        this.request = request;
+        return;
+      }
+    } catch (error) {
+      console.warn('Failed to extract scan regions:', error);
+    }
+    this.request = null;
+  }
+
+  /**
+   * tEXt・zTXt・iTXt チャンク（圧縮されたものは展開する）
+   */
+  private *walkPng(): StructureWalker {
+    yield { skip: 8 };
+    while (true) {
+      const header = yield { read: 8 };
+      if (header.length < 8) return;
+      const length = this.u32be(header, 0);
+      const type = this.ascii(header, 4, 4);
+      if (type === 'IEND') return;
+
+      if ((type !== 'tEXt' && type !== 'zTXt' && type !== 'iTXt') || length > MAX_REGION_LENGTH) {
+        yield { skip: length + 4 };
+        continue;
+      }
+
+      const dataStart = this.position;
+      const data = yield { read: length };
+      if (type === 'tEXt') {
+        this.regions.push({ scope: 'png-text', offset: dataStart, bytes: data });
+      } else if (type === 'zTXt') {
+        // キーワード・区切りの0・圧縮方式の後が圧縮されたテキスト
+        const separator = data.indexOf(0);
+        this.regions.push({ scope: 'png-text', offset: dataStart, bytes: data.subarray(0, Math.max(0, separator)) });
+        this.compressed.push({ scope: 'png-text', bytes: data.subarray(separator + 2) });
+      } else {
+        // キーワード・0・圧縮フラグ・圧縮方式・言語タグ・0・翻訳キーワード・0 の後がテキスト
+        const keywordEnd = data.indexOf(0);
+        const compressed = data[keywordEnd + 1] === 1;
+        const languageEnd = data.indexOf(0, keywordEnd + 3);
+        const translatedEnd = data.indexOf(0, languageEnd + 1);
+        if (compressed && keywordEnd >= 0 && translatedEnd >= 0) {
+          this.regions.push({ scope: 'png-text', offset: dataStart, bytes: data.subarray(0, translatedEnd) });
+          this.compressed.push({ scope: 'png-text', bytes: data.subarray(translatedEnd + 1) });
+        } else {
+          this.regions.push({ scope: 'png-text', offset: dataStart, bytes: data });
+        }
+      }
+      yield { skip: 4 };
+    }
+  }
+
+  /**
+   * COMセグメントと APP0〜APP15 セグメント（EXIF・XMP・ICCなど）
+   */
+  private *walkJpeg(): StructureWalker {
+    yield { skip: 2 };
+    let pair = yield { read: 2 };
+    while (pair[0] === 0xFF) {
+      let marker = pair[1];
+      // 埋め草の 0xFF は読み飛ばす
+      while (marker === 0xFF) {
+        marker = (yield { read: 1 })[0];
+      }
+      if (marker === undefined || marker === 0xD9) return;
+      if (marker === 0x01 || (marker >= 0xD0 && marker <= 0xD7)) {
+        pair = yield { read: 2 };
+        continue;
+      }
+
+      const lengthBytes = yield { read: 2 };
+      const length = (lengthBytes[0] << 8) | lengthBytes[1];
+      if (lengthBytes.length < 2 || length < 2) return;
+
+      const dataStart = this.position;
+      if (marker === 0xFE || (marker >= 0xE0 && marker <= 0xEF)) {
+        const data = yield { read: length - 2 };
+        this.regions.push({ scope: marker === 0xFE ? 'jpeg-comment' : 'jpeg-app', offset: dataStart, bytes: data });
+      } else {
+        yield { skip: length - 2 };
+      }
+
+      // スキャンの後は圧縮データを読み飛ばして次のマーカーへ
+      pair = marker === 0xDA ? yield { marker: true } : yield { read: 2 };
+    }
+  }
+
+  /**
+   * コメント拡張（0xFE）とアプリケーション拡張（0xFF）のデータ
+   */
+  private *walkGif(): StructureWalker {
+    const header = yield { read: 13 };
+    if (header.length < 13) return;
+    yield { skip: this.gifColorTableSize(header[10]) };
+
+    while (true) {
+      const blockStart = this.position;
+      const [block] = yield { read: 1 };
+      if (block === 0x21) {
+        const [label] = yield { read: 1 };
+        const collect = label === 0xFE || label === 0xFF;
+        const data = yield* this.walkGifSubBlocks(collect);
+        if (collect) {
+          this.regions.push({ scope: label === 0xFE ? 'gif-comment' : 'gif-application', offset: blockStart, bytes: data });
+        }
+      } else if (block === 0x2C) {
+        // 画像記述子の残り9バイト・局所カラーテーブル・LZWの最小符号長の後が画像データ
+        const descriptor = yield { read: 9 };
+        if (descriptor.length < 9) return;
+        yield { skip: this.gifColorTableSize(descriptor[8]) + 1 };
+        yield* this.walkGifSubBlocks(false);
+      } else {
+        return;
+      }
+    }
+  }
+
+  // 長さ付きのサブブロックを終端（長さ0）まで読み、つなげたデータを返す
+  private *walkGifSubBlocks(collect: boolean): Generator<ReadRequest, Uint8Array, Uint8Array> {
+    const parts: Uint8Array[] = [];
+    let length = 0;
+    while (true) {
+      const [size] = yield { read: 1 };
+      if (!size) break;
+      if (collect && length + size <= MAX_REGION_LENGTH) {
+        const part = yield { read: size };
+        parts.push(part);
+        length += part.length;
+      } else {
+        yield { skip: size };
+      }
+    }
+    return this.concat(parts);
+  }
+
+  /**
+   * EXIF・XMP チャンク
+   */
+  private *walkWebp(): StructureWalker {
+    const header = yield { read: 12 };
+    if (header.length < 12) return;
+    const end = this.u32le(header, 4) + 8;
+
+    while (this.position + 8 <= end) {
+      const chunkHeader = yield { read: 8 };
+      if (chunkHeader.length < 8) return;
+      const type = this.ascii(chunkHeader, 0, 4);
+      const size = this.u32le(chunkHeader, 4);
+      if ((type === 'EXIF' || type === 'XMP ') && size <= MAX_REGION_LENGTH) {
+        const dataStart = this.position;
+        const data = yield { read: size };
+        this.regions.push({ scope: 'webp-metadata', offset: dataStart, bytes: data });
+        yield { skip: size % 2 };
+      } else {
+        yield { skip: size + (size % 2) };
+      }
+    }
+  }
+
+  /**
+   * JavaScriptの動作のコード（圧縮されたストリーム・オブジェクトストリーム内も展開して取り出す）
+   */
+  private async extractPdf(bytes: Uint8Array): Promise<ScanRegion[]> {
+    const scripts = await PdfActiveContentScanner.readJavaScript(bytes);
+    const encoder = new TextEncoder();
+    return scripts.map(script => ({ scope: 'pdf-javascript', bytes: encoder.encode(script) }));
+  }
+
+  /**
+   * zlib 形式のデータを上限まで展開（展開できない環境・データでは null）
+   */
+  private async inflate(data: Uint8Array): Promise<Uint8Array | null> {
+    if (typeof DecompressionStream === 'undefined' || data.length === 0) {
+      return null;
+    }
+    const reader = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate')).getReader();
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    try {
+      while (length < MAX_INFLATED_LENGTH) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        length += value.length;
+      }
+    } catch {
+      // 壊れた圧縮データは展開できたところまでを使う
+    } finally {
+      void reader.cancel().catch(() => undefined);
+    }
+
+    const result = new Uint8Array(Math.min(length, MAX_INFLATED_LENGTH));
+    let position = 0;
+    for (const chunk of chunks) {
+      const part = chunk.subarray(0, result.length - position);
+      result.set(part, position);
+      position += part.length;
+    }
+    return result.length > 0 ? result : null;
+  }
+
+  private concat(parts: Uint8Array[]): Uint8Array {
+    if (parts.length === 1) return parts[0];
+    const data = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let position = 0;
+    for (const part of parts) {
+      data.set(part, position);
+      position += part.length;
+    }
+    return data;
+  }
+
+  // 記述子のフラグからカラーテーブルのバイト数を求める
+  private gifColorTableSize(flags: number): number {
+    return flags & 0x80 ? 3 * (1 << ((flags & 0x07) + 1)) : 0;
+  }
+
+  private ascii(bytes: Uint8Array, offset: number, length: number): string {
+    return String.fromCharCode(...bytes.subarray(offset, offset + length));
+  }
+
+  private u32le(bytes: Uint8Array, offset: number): number {
+    return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+  }
+
+  private u32be(bytes: Uint8Array, offset: number): number {
+    return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+  }
+}
@@ -0,0 +1,394 @@
+// YARAに倣った宣言的なスキャンルール
+// ルールはJSONで定義し、文字列・バイト列の条件と、調べる形式・範囲、重大度と重みを持つ
+// 一致したルールの重みの合計（スコア）が閾値を超えた場合に注意・危険と判定する
+
+export type ScanSeverity = 'info' | 'low' | 'medium' | 'high' | 'critical';
+
+// 条件を調べる範囲
+export type ScanScope =
+  | 'file'
+  | 'trailing'
+  | 'png-text'
+  | 'jpeg-comment'
+  | 'jpeg-app'
+  | 'gif-comment'
+  | 'gif-application'
+  | 'webp-metadata'
+  | 'pdf-javascript';
+
+export const SCAN_SCOPE_LABELS: Record<ScanScope, string> = {
+  file: 'ファイル全体',
+  trailing: '終端の後の付加データ',
+  'png-text': 'PNGのテキストチャンク（tEXt / zTXt / iTXt）',
+  'jpeg-comment': 'JPEGのコメント（COM）',
+  'jpeg-app': 'JPEGのアプリケーションセグメント（EXIF・XMPなど）',
+  'gif-comment': 'GIFのコメント拡張',
+  'gif-application': 'GIFのアプリケーション拡張',
+  'webp-metadata': 'WebPのメタデータ（EXIF / XMP）',
+  'pdf-javascript': 'PDFのJavaScript'
+};
+
+export const SCAN_SEVERITY_LABELS: Record<ScanSeverity, string> = {
+  info: '情報',
+  low: '低',
+  medium: '中',
+  high: '高',
+  critical: '重大'
+};
+
+// 重みを省略した場合の重大度ごとの既定値
+const SEVERITY_WEIGHTS: Record<ScanSeverity, number> = {
+  info: 0,
+  low: 10,
+  medium: 25,
+  high: 50,
+  critical: 100
+};
+
+// 文字列（nocase で英字の大文字・小文字を区別しない）または16進のバイト列（?? は任意の1バイト）
+export type ScanPattern =
+  | { string: string; nocase?: boolean }
+  | { hex: string };
+
+export interface ScanRule {
+  id: string;
+  description: string;
+  severity: ScanSeverity;
+  // スコアに加える重み（省略時は重大度ごとの既定値）
+  weight?: number;
+  // 対象の形式（MIMEタイプ。省略時はすべての形式）
+  formats?: string[];
+  // 調べる範囲（省略時はファイル全体）
+  scopes?: ScanScope[];
+  patterns: ScanPattern[];
+  // 成立に必要な一致の数（any = 1つ以上、all = すべて、数値 = その数以上。省略時は any）
+  match?: 'any' | 'all' | number;
+}
+
+export interface ScanRuleSet {
+  // スコアが warning 以上なら注意、threat 以上なら危険と判定
+  thresholds: { warning: number; threat: number };
+  rules: ScanRule[];
+}
+
+// 形式に沿って取り出した、条件を調べる範囲のデータ
+export interface ScanRegion {
+  scope: ScanScope;
+  bytes: Uint8Array;
+  // ファイル内の開始位置（PDFのJavaScriptのように展開したデータでは省略）
+  offset?: number;
+}
+
+export interface ScanRuleMatch {
+  id: string;
+  description: string;
+  severity: ScanSeverity;
+  weight: number;
+  // 最初に一致した範囲と位置
+  scope: ScanScope;
+  offset?: number;
+}
+
+export type ScanVerdict = 'safe' | 'warning' | 'threat';
+
+export interface ScanEvaluation {
+  score: number;
+  verdict: ScanVerdict;
+  matches: ScanRuleMatch[];
+}
+
+/**
+ * ルールの定義が不正な場合のエラー
+ */
+export class ScanRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScanRuleError';
+  }
+}
+
+// 比較用に変換したパターン（null は任意の1バイト）
+interface CompiledPattern {
+  bytes: (number | null)[];
+  nocase: boolean;
+}
+
+const SEVERITIES = Object.keys(SEVERITY_WEIGHTS) as ScanSeverity[];
+const SCOPES = Object.keys(SCAN_SCOPE_LABELS) as ScanScope[];
+// ファイルを読みながら照合する範囲（それ以外は形式の構造から取り出した範囲で照合する）
+const STREAM_SCOPES: ScanScope[] = ['file', 'trailing'];
+
+// 英大文字を小文字にそろえる
+const fold = (value: number) => value >= 0x41 && value <= 0x5A ? value + 0x20 : value;
+
+/**
+ * from 以降でパターンが最初に現れる位置（なければ -1）
+ */
+function indexOf(bytes: Uint8Array, pattern: CompiledPattern, from = 0): number {
+  const { bytes: expected, nocase } = pattern;
+  const first = expected[0] as number;
+  const last = bytes.length - expected.length;
+
+  for (let i = from; i <= last; i++) {
+    if (nocase) {
+      if (fold(bytes[i]) !== first) continue;
+    } else {
+      i = bytes.indexOf(first, i);
+      if (i < 0 || i > last) return -1;
+    }
+
+    let j = 1;
+    while (j < expected.length) {
+      const value = nocase ? fold(bytes[i + j]) : bytes[i + j];
+      if (expected[j] !== null && expected[j] !== value) break;
+      j++;
+    }
+    if (j === expected.length) return i;
+  }
+  return -1;
+}
+
+/**
+ * ファイル全体（file）と付加データ（trailing）の範囲を、チャンクごとに受け取りながら照合する
+ * チャンクの境界をまたぐ一致も見つけられるよう、最長のパターンの長さ - 1 バイトを次のチャンクの前に残す
+ */
+export class ScanStreamMatcher {
+  private readonly targets: { pattern: CompiledPattern, scope: ScanScope }[];
+  private readonly hits = new Map<CompiledPattern, Map<ScanScope, number>>();
+  private readonly overlap: number;
+  private carry = new Uint8Array(0);
+  // 受け取ったバイト数
+  private position = 0;
+
+  constructor(patterns: { pattern: CompiledPattern, scope: ScanScope }[], private readonly trailingOffset?: number) {
+    // 付加データがなければ trailing の範囲は照合しない
+    this.targets = patterns.filter(({ scope }) => scope !== 'trailing' || trailingOffset !== undefined);
+    this.overlap = Math.max(0, ...this.targets.map(({ pattern }) => pattern.bytes.length - 1));
+  }
+
+  push(chunk: Uint8Array): void {
+    const windowStart = this.position - this.carry.length;
+    const window = new Uint8Array(this.carry.length + chunk.length);
+    window.set(this.carry);
+    window.set(chunk, this.carry.length);
+
+    for (const { pattern, scope } of this.targets) {
+      if (this.hit(pattern, scope) !== undefined) continue;
+      const from = scope === 'trailing' ? Math.max(0, (this.trailingOffset ?? 0) - windowStart) : 0;
+      const index = indexOf(window, pattern, from);
+      if (index < 0) continue;
+
+      const scopes = this.hits.get(pattern) ?? new Map<ScanScope, number>();
+      scopes.set(scope, windowStart + index);
+      this.hits.set(pattern, scopes);
+    }
+
+    this.position += chunk.length;
+    this.carry = window.slice(Math.max(0, window.length - this.overlap));
+  }
+
+  /**
+   * パターンが最初に一致したファイル内の位置（一致していなければ undefined）
+   */
+  hit(pattern: CompiledPattern, scope: ScanScope): number | undefined {
+    return this.hits.get(pattern)?.get(scope);
+  }
+}
+
+export class ScanRuleEngine {
+
+  private static compiled = new WeakMap<ScanRule, CompiledPattern[]>();
+
+  /**
+   * JSONから読み込んだルールセットを検証（不正な箇所があれば ScanRuleError）
+   */
+  static parse(json: unknown): ScanRuleSet {
+    if (!this.isObject(json)) {
+      throw new ScanRuleError('ルールセットがオブジェクトではありません');
+    }
+    const { thresholds, rules } = json;
+    if (!this.isObject(thresholds) || typeof thresholds.warning !== 'number' || typeof thresholds.threat !== 'number') {
+      throw new ScanRuleError('thresholds に warning と threat の数値がありません');
+    }
+    if (thresholds.warning > thresholds.threat) {
+      throw new ScanRuleError('thresholds の warning が threat より大きくなっています');
+    }
+    if (!Array.isArray(rules)) {
+      throw new ScanRuleError('rules が配列ではありません');
+    }
+
+    const ids = new Set<string>();
+    const parsed = rules.map((rule, index) => {
+      const parsedRule = this.parseRule(rule, index);
+      if (ids.has(parsedRule.id)) {
+        throw new ScanRuleError(`ルール「${parsedRule.id}」が重複しています`);
+      }
+      ids.add(parsedRule.id);
+      return parsedRule;
+    });
+
+    return { thresholds: { warning: thresholds.warning, threat: thresholds.threat }, rules: parsed };
+  }
+
+  /**
+   * 形式に当てはまるルールが調べる範囲
+   */
+  static getScopes(ruleSet: ScanRuleSet, mimeType: string): Set<ScanScope> {
+    return new Set(this.getRules(ruleSet, mimeType).flatMap(rule => rule.scopes ?? ['file']));
+  }
+
+  /**
+   * ファイル全体と付加データを読みながら照合するための照合器を作る
+   */
+  static createStreamMatcher(ruleSet: ScanRuleSet, mimeType: string, trailingOffset?: number): ScanStreamMatcher {
+    const patterns = this.getRules(ruleSet, mimeType).flatMap(rule => {
+      const scopes = (rule.scopes ?? ['file']).filter(scope => STREAM_SCOPES.includes(scope));
+      return this.compile(rule).flatMap(pattern => scopes.map(scope => ({ pattern, scope })));
+    });
+    return new ScanStreamMatcher(patterns, trailingOffset);
+  }
+
+  /**
+   * 照合器の結果と形式から取り出した範囲にルールを適用し、スコアと判定を求める
+   */
+  static evaluate(ruleSet: ScanRuleSet, regions: ScanRegion[], mimeType: string, stream?: ScanStreamMatcher): ScanEvaluation {
+    const matches: ScanRuleMatch[] = [];
+
+    for (const rule of this.getRules(ruleSet, mimeType)) {
+      const scopes = rule.scopes ?? ['file'];
+      const targets = regions.filter(region => scopes.includes(region.scope));
+      const streamScopes = stream ? scopes.filter(scope => STREAM_SCOPES.includes(scope)) : [];
+      if (targets.length === 0 && streamScopes.length === 0) continue;
+
+      const patterns = this.compile(rule);
+      const required = rule.match === 'all' ? patterns.length : rule.match === 'any' || rule.match === undefined ? 1 : rule.match;
+      let hits = 0;
+      let first: { scope: ScanScope, offset?: number } | null = null;
+
+      for (const pattern of patterns) {
+        const hit = this.findHit(pattern, targets, streamScopes, stream);
+        if (hit) {
+          hits++;
+          first ??= hit;
+        }
+        if (hits >= required) break;
+      }
+
+      if (first && hits >= required) {
+        matches.push({
+          id: rule.id,
+          description: rule.description,
+          severity: rule.severity,
+          weight: rule.weight ?? SEVERITY_WEIGHTS[rule.severity],
+          ...first
+        });
+      }
+    }
+
+    matches.sort((a, b) => b.weight - a.weight);
+    const score = matches.reduce((sum, match) => sum + match.weight, 0);
+    const verdict: ScanVerdict = score >= ruleSet.thresholds.threat
+      ? 'threat'
+      : score >= ruleSet.thresholds.warning ? 'warning' : 'safe';
+
+    return { score, verdict, matches };
+  }
+
+  private static getRules(ruleSet: ScanRuleSet, mimeType: string): ScanRule[] {
+    return ruleSet.rules.filter(rule => !rule.formats || rule.formats.includes(mimeType));
+  }
+
+  /**
+   * 取り出した範囲と照合器の結果から、パターンが最初に一致した範囲と位置を探す
+   */
+  private static findHit(
+    pattern: CompiledPattern,
+    regions: ScanRegion[],
+    streamScopes: ScanScope[],
+    stream?: ScanStreamMatcher
+  ): { scope: ScanScope, offset?: number } | null {
+    for (const region of regions) {
+      const index = indexOf(region.bytes, pattern);
+      if (index >= 0) {
+        return { scope: region.scope, offset: region.offset !== undefined ? region.offset + index : undefined };
+      }
+    }
+    for (const scope of streamScopes) {
+      const offset = stream?.hit(pattern, scope);
+      if (offset !== undefined) {
+        return { scope, offset };
+      }
+    }
+    return null;
+  }
+
+  private static parseRule(rule: unknown, index: number): ScanRule {
+    if (!this.isObject(rule) || typeof rule.id !== 'string' || !rule.id) {
+      throw new ScanRuleError(`${index + 1}番目のルールに id がありません`);
+    }
+    const fail = (reason: string): never => {
+      throw new ScanRuleError(`ルール「${rule.id}」: ${reason}`);
+    };
+
+    if (typeof rule.description !== 'string') fail('description がありません');
+    if (!SEVERITIES.includes(rule.severity as ScanSeverity)) fail(`severity は ${SEVERITIES.join(' / ')} のいずれかです`);
+    if (rule.weight !== undefined && (typeof rule.weight !== 'number' || rule.weight < 0)) fail('weight は0以上の数値です');
+    if (rule.formats !== undefined && !(Array.isArray(rule.formats) && rule.formats.every(format => typeof format === 'string'))) {
+      fail('formats はMIMEタイプの配列です');
+    }
+    if (rule.scopes !== undefined && !(Array.isArray(rule.scopes) && rule.scopes.every(scope => SCOPES.includes(scope as ScanScope)))) {
+      fail(`scopes は ${SCOPES.join(' / ')} の配列です`);
+    }
+    if (!Array.isArray(rule.patterns) || rule.patterns.length === 0) fail('patterns がありません');
+
+    const patterns = rule.patterns as unknown[];
+    const match = rule.match;
+    if (match !== undefined && match !== 'any' && match !== 'all'
+      && !(typeof match === 'number' && Number.isInteger(match) && match >= 1 && match <= patterns.length)) {
+      fail(`match は any / all または1〜${patterns.length}の整数です`);
+    }
+
+    const parsed = rule as unknown as ScanRule;
+    // 定義の誤りを読み込み時に見つけられるよう、ここでパターンを変換しておく
+    try {
+      this.compiled.set(parsed, patterns.map(pattern => this.compilePattern(pattern)));
+    } catch (error) {
+      fail(error instanceof Error ? error.message : String(error));
+    }
+    return parsed;
+  }
+
+  private static compile(rule: ScanRule): CompiledPattern[] {
+    let patterns = this.compiled.get(rule);
+    if (!patterns) {
+      patterns = rule.patterns.map(pattern => this.compilePattern(pattern));
+      this.compiled.set(rule, patterns);
+    }
+    return patterns;
+  }
+
+  private static compilePattern(pattern: unknown): CompiledPattern {
+    if (this.isObject(pattern) && typeof pattern.string === 'string' && pattern.string) {
+      const nocase = pattern.nocase === true;
+      const bytes = Array.from(new TextEncoder().encode(pattern.string), value => nocase ? fold(value) : value);
+      return { bytes, nocase };
+    }
+
+    if (this.isObject(pattern) && typeof pattern.hex === 'string') {
+      const tokens = pattern.hex.trim().split(/\s+/);
+      if (!tokens.every(token => /^([0-9A-Fa-f]{2}|\?\?)$/.test(token))) {
+        throw new Error(`16進のバイト列「${pattern.hex}」が不正です`);
+      }
+      if (tokens[0] === '??') {
+        throw new Error(`16進のバイト列「${pattern.hex}」が任意のバイト（??）で始まっています`);
+      }
+      return { bytes: tokens.map(token => token === '??' ? null : parseInt(token, 16)), nocase: false };
+    }
+
+    throw new Error('パターンには空でない string か hex が必要です');
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -1,7 +1,12 @@
 // セキュリティ検証ユーティリティ
 
+import { FormatValidator } from '@/lib/format-validator';
+import { ImageHeaderReader } from '@/lib/image-header';
+import { AppendedDataDetector, type AppendedDataReport } from '@/lib/appended-data';
+
 interface FileSignature {
-  signature: number[];
+  // null の位置は任意のバイト（RIFFのサイズなど）
+  signature: (number | null)[];
   mimeType: string;
   extension: string;
 }
@@ -14,8 +19,8 @@ const ALLOWED_FILE_SIGNATURES: FileSignature[] = [
   { signature: [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A], mimeType: 'image/png', extension: 'png' },
   // GIF
   { signature: [0x47, 0x49, 0x46, 0x38], mimeType: 'image/gif', extension: 'gif' },
-  // WebP
-  { signature: [0x52, 0x49, 0x46, 0x46], mimeType: 'image/webp', extension: 'webp' },
+  // WebP（"RIFF" + サイズ + "WEBP"。WAV・AVIなど他のRIFF形式は除く）
+  { signature: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50], mimeType: 'image/webp', extension: 'webp' },
   // PDF
   { signature: [0x25, 0x50, 0x44, 0x46], mimeType: 'application/pdf', extension: 'pdf' }
 ];
@@ -29,7 +34,7 @@ export class FileSecurityValidator {
   /**
    * ファイルのセキュリティ検証を実行
    */
-  static async validateFile(file: File): Promise<{valid: boolean, error?: string, fileType?: string}> {
+  static async validateFile(file: File): Promise<{valid: boolean, error?: string, fileType?: string, encrypted?: boolean, appendedData?: AppendedDataReport, bytes?: Uint8Array}> {
     try {
       // 1. ファイルサイズ検証
       const sizeValidation = this.validateFileSize(file);
@@ -49,15 +54,20 @@ export class FileSecurityValidator {
         return signatureValidation;
       }
 
-      // 4. 追加のファイル内容検証
-      const contentValidation = await this.validateFileContent(file);
+      // 4. 追加のファイル内容検証（宣言されたMIMEタイプではなく、シグネチャで判定した形式で検証）
+      // 読み込んだ内容は呼び出し側のスキャン・PDFの解析でも使い、ファイルを読み直さない
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const contentValidation = await this.validateFileContent(file, bytes, signatureValidation.fileType!);
       if (!contentValidation.valid) {
         return contentValidation;
       }
 
       return { 
         valid: true, 
-        fileType: signatureValidation.fileType 
+        fileType: signatureValidation.fileType,
+        encrypted: contentValidation.encrypted,
+        appendedData: contentValidation.appendedData,
+        bytes
       };
 
     } catch (error) {
@@ -162,16 +172,33 @@ export class FileSecurityValidator {
   /**
    * 追加のファイル内容検証
    */
-  private static async validateFileContent(file: File): Promise<{valid: boolean, error?: string}> {
+  private static async validateFileContent(file: File, bytes: Uint8Array, fileType: string): Promise<{valid: boolean, error?: string, encrypted?: boolean, appendedData?: AppendedDataReport}> {
     try {
-      // 画像ファイルの場合の追加検証
-      if (file.type.startsWith('image/')) {
-        return await this.validateImageContent(file);
+      if (fileType === 'application/pdf') {
+        return this.validatePDFContent(bytes);
       }
-      
-      // PDFファイルの場合の追加検証
-      if (file.type === 'application/pdf') {
-        return await this.validatePDFContent(file);
+
+      // 形式ごとの構造検証（チャンク・マーカー・クロスリファレンスなど）
+      const structureValidation = FormatValidator.validate(bytes, fileType);
+      if (!structureValidation.valid) {
+        return structureValidation;
+      }
+
+      // 終端の後に付加されたデータや、別の形式として読めるデータ（拒否はせずに報告する）
+      const appendedData = AppendedDataDetector.inspect(bytes, fileType, structureValidation.end ?? bytes.length) ?? undefined;
+
+      // 画像ファイルの場合の追加検証
+      if (fileType.startsWith('image/')) {
+        // デコードする前に、ヘッダーの寸法とフレーム数で展開後の大きさを確認
+        const header = ImageHeaderReader.read(bytes, fileType);
+        if (!header) {
+          return { valid: false, error: '画像の寸法をヘッダーから読み取れません' };
+        }
+        const budget = ImageHeaderReader.checkBudget(header);
+        if (!budget.valid) {
+          return budget;
+        }
+        return { ...await this.validateImageContent(file), appendedData };
       }
 
       return { valid: true };
@@ -184,6 +211,20 @@ export class FileSecurityValidator {
     }
   }
 
+  /**
+   * PDFファイル内容の検証
+   */
+  private static validatePDFContent(bytes: Uint8Array): {valid: boolean, error?: string, encrypted?: boolean, appendedData?: AppendedDataReport} {
+    // クロスリファレンス・トレーラーの構造検証で、暗号化（パスワード保護・権限パスワード）もトレーラーから判断する
+    const structureValidation = FormatValidator.validate(bytes, 'application/pdf');
+    if (!structureValidation.valid) {
+      return structureValidation;
+    }
+
+    const appendedData = AppendedDataDetector.inspect(bytes, 'application/pdf', structureValidation.end ?? bytes.length) ?? undefined;
+    return { valid: true, encrypted: structureValidation.encrypted, appendedData };
+  }
+
   /**
    * 画像ファイル内容の検証
    */
@@ -207,15 +248,8 @@ export class FileSecurityValidator {
           resolved = true;
           clearTimeout(timeout);
           
-          // 異常に大きな画像サイズをチェック
-          if (img.width > 10000 || img.height > 10000) {
-            resolve({ 
-              valid: false, 
-              error: '画像のサイズが大きすぎます' 
-            });
-          } else {
-            resolve({ valid: true });
-          }
+          // ヘッダーと実際の寸法が食い違う場合に備えて、デコード後にも確認
+          resolve(ImageHeaderReader.checkBudget({ width: img.width, height: img.height, frames: 1 }));
         }
       };
 
@@ -234,36 +268,6 @@ export class FileSecurityValidator {
     });
   }
 
-  /**
-   * PDFファイル内容の検証
-   */
-  private static async validatePDFContent(file: File): Promise<{valid: boolean, error?: string}> {
-    try {
-      const buffer = await file.arrayBuffer();
-      
-      // PDF構造の基本チェック
-      const bytes = new Uint8Array(buffer);
-      
-      // PDFの終端マーカーをチェック
-      const endMarker = '%%EOF';
-      const fileEnd = new TextDecoder().decode(bytes.slice(-20));
-      if (!fileEnd.includes(endMarker)) {
-        return { 
-          valid: false, 
-          error: '不正なPDFファイルです' 
-        };
-      }
-
-      return { valid: true };
-
-    } catch (error) {
-      return { 
-        valid: false, 
-        error: 'PDFファイルの検証に失敗しました' 
-      };
-    }
-  }
-
   /**
    * ファイルの指定範囲のバイトを読み取り
    */
@@ -281,13 +285,13 @@ export class FileSecurityValidator {
   /**
    * バイト配列がシグネチャと一致するかチェック
    */
-  private static matchesSignature(bytes: Uint8Array, signature: number[]): boolean {
+  private static matchesSignature(bytes: Uint8Array, signature: (number | null)[]): boolean {
     if (bytes.length < signature.length) {
       return false;
     }
 
     for (let i = 0; i < signature.length; i++) {
-      if (bytes[i] !== signature[i]) {
+      if (signature[i] !== null && bytes[i] !== signature[i]) {
         return false;
       }
     }
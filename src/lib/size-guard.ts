@@ -0,0 +1,78 @@
+// 圧縮結果が元のファイルより大きくならないようにする安全策
+
+export type SizeGuardStrategy = 'compressed' | 'alternative' | 'original' | 'larger';
+
+export interface SizeGuardReport {
+  strategy: SizeGuardStrategy;
+  originalSize: number;
+  // 元より大きかったため採用しなかった出力のサイズ
+  rejectedSize?: number;
+  // 利用者向けの説明（採用した方法、larger では元のファイルを使えない理由）
+  detail?: string;
+}
+
+export interface SizeGuardAlternative<T> {
+  detail: string;
+  run: () => Promise<T | null>;
+}
+
+export class SizeGuard {
+
+  /**
+   * 出力が元のファイル以上の大きさなら、代替の方法を順に試し、
+   * どれも小さくならなければ元のファイルを採用する
+   * 元のファイルでは代わりにならない場合（寸法を変える指定があるなど）は originalOutput に
+   * その理由を渡すと、大きいままの出力を返す
+   */
+  static async apply<T extends { blob: Blob }>(
+    original: Blob,
+    output: T,
+    alternatives: SizeGuardAlternative<T>[],
+    originalOutput: (() => T) | { reason: string }
+  ): Promise<T & { sizeGuard: SizeGuardReport }> {
+    const originalSize = original.size;
+    if (output.blob.size < originalSize) {
+      return { ...output, sizeGuard: { strategy: 'compressed', originalSize } };
+    }
+
+    const rejectedSize = output.blob.size;
+    for (const alternative of alternatives) {
+      try {
+        const result = await alternative.run();
+        if (result && result.blob.size < originalSize) {
+          return {
+            ...result,
+            sizeGuard: { strategy: 'alternative', originalSize, rejectedSize, detail: alternative.detail }
+          };
+        }
+      } catch (error) {
+        console.warn('Alternative compression failed:', error);
+      }
+    }
+
+    if (typeof originalOutput !== 'function') {
+      return { ...output, sizeGuard: { strategy: 'larger', originalSize, detail: originalOutput.reason } };
+    }
+
+    return {
+      ...originalOutput(),
+      sizeGuard: { strategy: 'original', originalSize, rejectedSize }
+    };
+  }
+
+  /**
+   * 結果パネルに表示する説明
+   */
+  static describe(report: SizeGuardReport): string | null {
+    switch (report.strategy) {
+      case 'compressed':
+        return null;
+      case 'alternative':
+        return `指定どおりの圧縮では元より大きくなったため、${report.detail ?? '別の方法'}で圧縮しました`;
+      case 'original':
+        return '圧縮すると元より大きくなるため、元のファイルをそのまま使用しました';
+      case 'larger':
+        return `${report.detail ?? '指定を反映するため'}、元のファイルより大きいまま出力しました`;
+    }
+  }
+}
@@ -0,0 +1,122 @@
+// 目標ファイルサイズに収まる画質・縮小率の探索
+
+export interface SizeTargetOptions {
+  // 画質の探索範囲（%）
+  minQuality: number;
+  maxQuality: number;
+  // 画質を変えても出力サイズが変わらない形式（減色できない環境のPNGなど）では false
+  qualityAdjustable: boolean;
+  // これ以上は縮小しない倍率
+  minScale: number;
+  // エンコードの最大試行回数
+  maxPasses: number;
+}
+
+export interface SizeTargetReport {
+  targetBytes: number;
+  quality: number;
+  scale: number;
+  passes: number;
+  fitted: boolean;
+}
+
+const DEFAULT_OPTIONS: SizeTargetOptions = {
+  // 極端に低い画質にするよりは縮小したほうが見た目が良いため、下限は30%
+  minQuality: 30,
+  maxQuality: 100,
+  qualityAdjustable: true,
+  minScale: 0.1,
+  maxPasses: 16
+};
+
+// 二分探索を打ち切る画質の幅（%）
+const QUALITY_TOLERANCE = 2;
+
+export class SizeTargetSearch {
+
+  /**
+   * 目標サイズ以下で最も高画質になる設定を探索
+   * encode は (画質%, 縮小率) から出力を生成する関数。収まらない場合は最小の出力を返す
+   */
+  static async search<T extends { size: number }>(
+    encode: (quality: number, scale: number) => Promise<T>,
+    targetBytes: number,
+    options: Partial<SizeTargetOptions> = {}
+  ): Promise<{ output: T, report: SizeTargetReport }> {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const minQuality = opts.qualityAdjustable ? Math.min(opts.minQuality, opts.maxQuality) : opts.maxQuality;
+    let passes = 0;
+    let scale = 1;
+    let smallest: { output: T, quality: number, scale: number } | null = null;
+
+    const attempt = async (quality: number) => {
+      passes++;
+      const output = await encode(quality, scale);
+      if (!smallest || output.size < smallest.output.size) {
+        smallest = { output, quality, scale };
+      }
+      return output;
+    };
+
+    const finish = (output: T, quality: number, fitted: boolean) => ({
+      output,
+      report: { targetBytes, quality, scale, passes, fitted }
+    });
+
+    while (passes < opts.maxPasses) {
+      // まず最高画質で収まるか確認
+      const highest = await attempt(opts.maxQuality);
+      if (highest.size <= targetBytes) {
+        return finish(highest, opts.maxQuality, true);
+      }
+
+      let sizeAtFloor = highest.size;
+      if (minQuality < opts.maxQuality && passes < opts.maxPasses) {
+        const lowest = await attempt(minQuality);
+        sizeAtFloor = lowest.size;
+
+        if (lowest.size <= targetBytes) {
+          // 収まる範囲で画質を二分探索
+          let fitQuality = minQuality;
+          let fitOutput = lowest;
+          let failQuality = opts.maxQuality;
+
+          while (failQuality - fitQuality > QUALITY_TOLERANCE && passes < opts.maxPasses) {
+            const quality = Math.round((fitQuality + failQuality) / 2);
+            const output = await attempt(quality);
+            if (output.size <= targetBytes) {
+              fitQuality = quality;
+              fitOutput = output;
+            } else {
+              failQuality = quality;
+            }
+          }
+
+          return finish(fitOutput, fitQuality, true);
+        }
+      }
+
+      if (scale <= opts.minScale) {
+        break;
+      }
+
+      // 出力サイズはおおむね画素数に比例するため、面積比から次の縮小率を見積もる
+      const estimate = scale * Math.sqrt(targetBytes / sizeAtFloor) * 0.95;
+      scale = Math.max(opts.minScale, Math.min(estimate, scale * 0.9));
+    }
+
+    // 目標に届かなかった場合は最小の出力を返す
+    const best = smallest!;
+    return {
+      output: best.output,
+      report: { targetBytes, quality: best.quality, scale: best.scale, passes, fitted: false }
+    };
+  }
+
+  /**
+   * 「KB/MB」単位の入力値をバイト数に変換
+   */
+  static toBytes(value: number, unit: 'KB' | 'MB'): number {
+    return Math.round(value * (unit === 'MB' ? 1024 * 1024 : 1024));
+  }
+}
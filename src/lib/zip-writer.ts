@@ -0,0 +1,141 @@
+// ブラウザ内で完結するZIPアーカイブ生成（無圧縮・STORE方式）
+
+import { Checksum } from '@/lib/checksum';
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+  lastModified?: Date;
+}
+
+// ZIP64には対応しないため、従来形式の上限を超える場合はエラーにする
+const MAX_ZIP_SIZE = 0xFFFFFFFF;
+const MAX_ZIP_ENTRIES = 0xFFFF;
+
+// 汎用ビットフラグ: ファイル名をUTF-8で格納
+const UTF8_FLAG = 0x0800;
+
+export class ZipWriter {
+
+  /**
+   * エントリ一覧からZIPファイルを生成
+   * 圧縮済みの画像・PDFを格納する用途のため、再圧縮はせずそのまま格納する
+   */
+  static createZip(entries: ZipEntry[]): Blob {
+    if (entries.length > MAX_ZIP_ENTRIES) {
+      throw new Error('ZIPに格納できるファイル数の上限を超えています');
+    }
+
+    const encoder = new TextEncoder();
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+      const nameBytes = encoder.encode(entry.name);
+      const crc = Checksum.crc32(entry.data);
+      const { time, date } = this.toDosDateTime(entry.lastModified ?? new Date());
+      const size = entry.data.length;
+
+      if (offset + 30 + nameBytes.length + size > MAX_ZIP_SIZE) {
+        throw new Error('ZIPファイルのサイズが上限（4GB）を超えています');
+      }
+
+      // ローカルファイルヘッダー
+      const local = new Uint8Array(30 + nameBytes.length);
+      const localView = new DataView(local.buffer);
+      localView.setUint32(0, 0x04034B50, true);
+      localView.setUint16(4, 20, true);
+      localView.setUint16(6, UTF8_FLAG, true);
+      localView.setUint16(8, 0, true);
+      localView.setUint16(10, time, true);
+      localView.setUint16(12, date, true);
+      localView.setUint32(14, crc, true);
+      localView.setUint32(18, size, true);
+      localView.setUint32(22, size, true);
+      localView.setUint16(26, nameBytes.length, true);
+      localView.setUint16(28, 0, true);
+      local.set(nameBytes, 30);
+
+      // セントラルディレクトリのエントリ
+      const central = new Uint8Array(46 + nameBytes.length);
+      const centralView = new DataView(central.buffer);
+      centralView.setUint32(0, 0x02014B50, true);
+      centralView.setUint16(4, 20, true);
+      centralView.setUint16(6, 20, true);
+      centralView.setUint16(8, UTF8_FLAG, true);
+      centralView.setUint16(10, 0, true);
+      centralView.setUint16(12, time, true);
+      centralView.setUint16(14, date, true);
+      centralView.setUint32(16, crc, true);
+      centralView.setUint32(20, size, true);
+      centralView.setUint32(24, size, true);
+      centralView.setUint16(28, nameBytes.length, true);
+      centralView.setUint16(30, 0, true);
+      centralView.setUint16(32, 0, true);
+      centralView.setUint16(34, 0, true);
+      centralView.setUint16(36, 0, true);
+      centralView.setUint32(38, 0, true);
+      centralView.setUint32(42, offset, true);
+      central.set(nameBytes, 46);
+
+      localParts.push(local, entry.data);
+      centralParts.push(central);
+      offset += local.length + size;
+    }
+
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+    if (offset + centralSize + 22 > MAX_ZIP_SIZE) {
+      throw new Error('ZIPファイルのサイズが上限（4GB）を超えています');
+    }
+
+    // セントラルディレクトリ終端レコード
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054B50, true);
+    endView.setUint16(4, 0, true);
+    endView.setUint16(6, 0, true);
+    endView.setUint16(8, entries.length, true);
+    endView.setUint16(10, entries.length, true);
+    endView.setUint32(12, centralSize, true);
+    endView.setUint32(16, offset, true);
+    endView.setUint16(20, 0, true);
+
+    return new Blob([...localParts, ...centralParts, end] as BlobPart[], { type: 'application/zip' });
+  }
+
+  /**
+   * アーカイブ内で重複しないファイル名を生成
+   */
+  static uniqueName(name: string, usedNames: Set<string>): string {
+    let candidate = name;
+    let counter = 2;
+    const dotIndex = name.lastIndexOf('.');
+    const base = dotIndex > 0 ? name.slice(0, dotIndex) : name;
+    const extension = dotIndex > 0 ? name.slice(dotIndex) : '';
+
+    while (usedNames.has(candidate.toLowerCase())) {
+      candidate = `${base} (${counter++})${extension}`;
+    }
+
+    usedNames.add(candidate.toLowerCase());
+    return candidate;
+  }
+
+  /**
+   * MS-DOS形式の日時に変換（1980年以前は1980年1月1日に丸める）
+   */
+  private static toDosDateTime(value: Date): { time: number, date: number } {
+    const year = Math.max(value.getFullYear(), 1980);
+    const isClamped = year !== value.getFullYear();
+
+    const time = isClamped
+      ? 0
+      : (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2);
+    const date = isClamped
+      ? (0 << 9) | (1 << 5) | 1
+      : ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate();
+
+    return { time, date };
+  }
+}